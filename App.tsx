@@ -1,11 +1,11 @@
-import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import { 
   UploadCloud, FileText, Loader2, 
   Database, FileSpreadsheet, Users, Key, X, 
   Files as FilesIcon, Shield, FileBadge, CheckCircle2,
   LayoutDashboard, Briefcase, Wand2, Plus, Server,
   AlertTriangle, Link, Info, ShieldCheck, Lock, ArrowRight,
-  Globe, Cpu, Sparkles, Play, Landmark, Menu, Scale, PieChart
+  Globe, Cpu, Sparkles, Play, Landmark, Menu, Scale, PieChart, BookOpen, Package, HandCoins
 } from 'lucide-react';
 import { 
   Transaction, 
@@ -13,14 +13,44 @@ import {
   CategorizationRule, 
   TransactionType,
   TransactionFilter,
-  BalanceSheetAdjustment,
   EntityProfile,
   Category,
   AccountType,
+  DuplicateMatch,
+  ExtractedRow,
+  ExtractedStatement,
+  ExtractionChunk,
+  SourceDocument,
+  BankAccount,
+  BankAccountKind,
+  TransactionSplit,
+  JournalEntry,
+  JournalAuditEvent,
+  FixedAsset,
+  Loan,
+  LenderMetricId,
+  MetricThreshold,
+  PeriodCloseEvent,
+  ReportSnapshot,
+  StatementReconciliation,
   DEFAULT_CATEGORIES
 } from './types';
-import { parseDocumentWithGemini, readFileAsBase64 } from './services/geminiService';
+import { parseDocumentWithGemini, readFileAsBase64, isRateLimitError, getRetryDelay, RATE_LIMIT_RETRIES } from './services/geminiService';
+import { isCsvFile } from './services/csvService';
+import { isStructuredStatement, parseStructuredStatement } from './services/bankStatementService';
+import { matchProfiles } from './services/profileMatchService';
+import { isPdfFile, getPdfPageCount, needsChunking, planChunks, extractChunks, mergeChunks } from './services/pdfChunkService';
+import { reconcileStatement, overrideReconciliation, isUnreconciled, unreconciledFileNames } from './services/reconciliationService';
+import { matchAccount, draftAccountFromStatement, computeAccountBalances, rollBackOpening, accountLabel } from './services/accountService';
+import { findTransferPairs, linkTransferPair } from './services/transferService';
+import { describeEntry, reversalDate } from './services/journalService';
+import { expandSplits } from './services/splitService';
+import { getLenderThresholds, saveLenderThresholds } from './services/lenderMetricsService';
+import { getFiscalYearStart, saveFiscalYearStart } from './services/fiscalService';
+import { currentClosedThrough, isDateLocked, lockedMessage } from './services/periodCloseService';
+import { findImportDuplicates, findLedgerDuplicates, getComparisonWindow, hashFile, getImportedDocument, rememberImportedDocument } from './services/dedupeService';
 import * as db from './services/supabaseService';
+import * as queueStore from './services/uploadQueueService';
 import Dashboard from './components/Dashboard';
 import TransactionTable from './components/TransactionTable';
 import RulesEngine from './components/RulesEngine';
@@ -29,6 +59,16 @@ import EntityProfiles from './components/EntityProfiles';
 import FilterBar from './components/FilterBar';
 import FinancialReport from './components/FinancialReport';
 import DatabaseConfigModal from './components/DatabaseConfigModal';
+import CsvImportWizard from './components/CsvImportWizard';
+import DuplicateReviewModal from './components/DuplicateReviewModal';
+import ExtractionReview from './components/ExtractionReview';
+import UploadQueue from './components/UploadQueue';
+import DocumentRegistry from './components/DocumentRegistry';
+import AccountManager from './components/AccountManager';
+import JournalEntries from './components/JournalEntries';
+import FixedAssetRegister from './components/FixedAssetRegister';
+import LoanRegister from './components/LoanRegister';
+import PeriodClosePanel from './components/PeriodClosePanel';
 
 const navItems = [
   { id: 'dashboard', label: 'Overview', icon: LayoutDashboard },
@@ -36,6 +76,9 @@ const navItems = [
   { id: 'entities', label: 'Identities', icon: Users },
   { id: 'pnl', label: 'Profit & Loss', icon: FileBadge },
   { id: 'balance_sheet', label: 'Balance Sheet', icon: Scale },
+  { id: 'journal', label: 'Journal', icon: BookOpen },
+  { id: 'assets', label: 'Fixed Assets', icon: Package },
+  { id: 'loans', label: 'Loans', icon: HandCoins },
 ];
 
 // Pre-loaded data to match the user's specific Balance Sheet request
@@ -67,6 +110,14 @@ const CUSTOM_CATEGORIES: Category[] = [
   }))
 ];
 
+interface DuplicateReview {
+  mode: 'import' | 'ledger';
+  title: string;
+  matches: DuplicateMatch[];
+  totalCount: number;
+  resolve: (dropIds: string[] | null) => void;
+}
+
 export default function App() {
   const [isInitialized, setIsInitialized] = useState(false);
   const [isFetching, setIsFetching] = useState(false);
@@ -74,34 +125,80 @@ export default function App() {
   const [transactions, setTransactions] = useState<Transaction[]>(LOAN_INTERVIEW_DATA);
   const [totalDbCount, setTotalDbCount] = useState(LOAN_INTERVIEW_DATA.length);
   const [processingQueue, setProcessingQueue] = useState<ProcessingStatus[]>([]);
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'transactions' | 'entities' | 'pnl' | 'balance_sheet' | 'documents'>('balance_sheet'); // Default to Balance Sheet for the user
+  // CSV files wait here for the column-mapping wizard instead of going to Gemini
+  const [csvQueue, setCsvQueue] = useState<{ statusId: string; file: File }[]>([]);
+  const [duplicateReview, setDuplicateReview] = useState<DuplicateReview | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState(queueStore.getUploadConcurrency());
+  const [queueTick, setQueueTick] = useState(0);
+  const [isQueueRestored, setIsQueueRestored] = useState(false);
+  // Source files of queued jobs, kept until the job completes so it can be retried
+  const uploadFiles = useRef(new Map<string, File>());
+  const activeJobs = useRef(new Map<string, AbortController>());
+  const reviewChain = useRef<Promise<unknown>>(Promise.resolve());
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'transactions' | 'entities' | 'pnl' | 'balance_sheet' | 'cash_flow' | 'trial_balance' | 'general_ledger' | 'journal' | 'assets' | 'loans' | 'documents'>('balance_sheet'); // Default to Balance Sheet for the user
   const [toast, setToast] = useState<{message: string, type: 'success' | 'error'} | null>(null);
   const [businessName, setBusinessName] = useState(localStorage.getItem('cf_biz_name') || 'LITIGATION SERVICES CORP');
   
   const [categories, setCategories] = useState<Category[]>(CUSTOM_CATEGORIES);
   const [rules, setRules] = useState<CategorizationRule[]>([]);
   const [profiles, setProfiles] = useState<EntityProfile[]>([]);
-  const [bsAdjustments, setBsAdjustments] = useState<BalanceSheetAdjustment[]>([]);
+  // Every stored row, unfiltered. Null while the ledger view itself is unfiltered, so `transactions` is the whole ledger.
+  const [fullLedger, setFullLedger] = useState<Transaction[] | null>(null);
+  const [documents, setDocuments] = useState<SourceDocument[]>([]);
+  const [accounts, setAccounts] = useState<BankAccount[]>([]);
+  // Import jobs outlive the render that started them, so they read accounts through this
+  const accountsRef = useRef(accounts);
+  accountsRef.current = accounts;
+  // Account new uploads are filed under; empty lets each statement's own account number decide
+  const [uploadAccountId, setUploadAccountId] = useState('');
+  const [journalEntries, setJournalEntries] = useState<JournalEntry[]>([]);
+  const [journalAudit, setJournalAudit] = useState<JournalAuditEvent[]>([]);
+  const [fixedAssets, setFixedAssets] = useState<FixedAsset[]>([]);
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [lenderThresholds, setLenderThresholds] = useState(getLenderThresholds);
+  const [fiscalYearStart, setFiscalYearStart] = useState(getFiscalYearStart);
+  const [periodCloseLog, setPeriodCloseLog] = useState<PeriodCloseEvent[]>([]);
+  const [reportSnapshots, setReportSnapshots] = useState<ReportSnapshot[]>([]);
+  // Ledger transaction waiting to be turned into a fixed asset
+  const [assetSource, setAssetSource] = useState<Transaction | null>(null);
   const [bsOverrides, setBsOverrides] = useState<Record<string, number>>({});
 
   const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
+  const [isAccountManagerOpen, setIsAccountManagerOpen] = useState(false);
   const [isDbConfigOpen, setIsDbConfigOpen] = useState(false);
   const [filters, setFilters] = useState<TransactionFilter>({
     startDate: '', endDate: '', category: '', minAmount: '', maxAmount: '', search: ''
   });
 
   const isConfigured = db.isSupabaseConfigured();
+  const reviewingStatus = processingQueue.find(s => s.id === reviewingId && s.status === 'review');
+  const unreconciledDocuments = unreconciledFileNames(documents, processingQueue);
+  // Balances and reports run on the whole ledger; filters only narrow what the ledger view shows
+  const ledger = fullLedger ?? transactions;
+  const accountBalances = useMemo(() => computeAccountBalances(accounts, ledger), [accounts, ledger]);
+  const closedThrough = currentClosedThrough(periodCloseLog);
 
   const loadData = useCallback(async (currentFilters?: TransactionFilter) => {
     if (!db.isSupabaseConfigured()) return;
     setIsFetching(true);
     try {
-      const [txs, rls, profs, cats, totalCount] = await Promise.all([
+      const isFiltered = !!currentFilters && Object.entries(currentFilters).some(([key, value]) => key !== 'preset' && !!value);
+      const [txs, allTxs, rls, profs, cats, totalCount, docs, accts, journal, audit, assets, loanList, closeLog, snapshots] = await Promise.all([
         db.getTransactions(currentFilters),
+        isFiltered ? db.getTransactions() : Promise.resolve(null),
         db.getRules(),
         db.getProfiles(),
         db.getCategories(),
-        db.getTransactionsTotalInDb()
+        db.getTransactionsTotalInDb(),
+        db.getDocuments(),
+        db.getAccounts(),
+        db.getJournalEntries(),
+        db.getJournalAudit(),
+        db.getFixedAssets(),
+        db.getLoans(),
+        db.getPeriodCloseLog(),
+        db.getReportSnapshots()
       ]);
       
       // If DB is empty, keep our demo data, otherwise use DB data
@@ -109,9 +206,18 @@ export default function App() {
         setTransactions(txs);
         setTotalDbCount(totalCount);
       }
+      setFullLedger(allTxs && allTxs.length > 0 ? allTxs : null);
       
       setRules(rls);
       setProfiles(profs);
+      setDocuments(docs);
+      setAccounts(accts);
+      setJournalEntries(journal);
+      setJournalAudit(audit);
+      setFixedAssets(assets);
+      setLoans(loanList);
+      setPeriodCloseLog(closeLog);
+      setReportSnapshots(snapshots);
       
       if (cats.length > 0) setCategories(cats);
     } catch (err) {
@@ -135,6 +241,29 @@ export default function App() {
     if (isInitialized && isConfigured) loadData(filters);
   }, [filters, isInitialized, isConfigured, loadData]);
 
+  // Bring back jobs left in the queue by a previous session; interrupted work resumes
+  useEffect(() => {
+    queueStore.loadJobs()
+      .then(jobs => {
+        jobs.filter(j => !j.file).forEach(j => queueStore.deleteJob(j.status.id));
+        const restored = jobs.filter(j => j.file).map(({ status, file }): ProcessingStatus => {
+          uploadFiles.current.set(status.id, file!);
+          const chunks = status.chunks?.map(c => c.status === 'processing' ? { ...c, status: 'pending' as const } : c);
+          if (status.status === 'processing') return { ...status, chunks, status: 'pending', message: 'Resumed after reload' };
+          if (status.status === 'review') return { ...status, data: URL.createObjectURL(file!) };
+          return { ...status, chunks };
+        });
+        if (restored.length > 0) setProcessingQueue(prev => [...restored, ...prev]);
+      })
+      .catch(err => console.error("Queue restore failed", err))
+      .finally(() => setIsQueueRestored(true));
+  }, []);
+
+  useEffect(() => {
+    if (!isQueueRestored) return;
+    queueStore.syncJobs(processingQueue).catch(err => console.error("Queue persistence failed", err));
+  }, [processingQueue, isQueueRestored]);
+
   const updateBusinessName = (name: string) => {
     setBusinessName(name);
     localStorage.setItem('cf_biz_name', name);
@@ -145,11 +274,316 @@ export default function App() {
     setTimeout(() => setToast(null), 3000);
   };
 
+  // Every save re-checks the lock against the stored close log; this check covers offline mode and gives a clear message
+  const ensureOpen = (dates: string[]) => {
+    if (!closedThrough || !dates.some(d => isDateLocked(d, closedThrough))) return true;
+    showToast(lockedMessage(closedThrough), 'error');
+    return false;
+  };
+
+  // Dates of every row and split line filed under a category
+  const categoryDates = (name: string) => expandSplits(ledger).filter(t => t.category === name).map(t => t.date);
+
+  // Local edits apply to the filtered view and the full ledger alike
+  const updateLoadedRows = (update: (rows: Transaction[]) => Transaction[]) => {
+    setTransactions(update);
+    setFullLedger(prev => prev && update(prev));
+  };
+
+  // Imported history older than an account's opening date is already inside its opening balance
+  const rollBackOpenings = async (rows: Transaction[]) => {
+    for (const account of accountsRef.current) {
+      const moved = rollBackOpening(account, rows);
+      if (!moved) continue;
+      try {
+        const saved = await db.upsertAccount(moved);
+        if (saved) setAccounts(prev => prev.map(a => a.id === saved.id ? saved : a));
+      } catch (err) {
+        console.error("Opening balance update failed", err);
+      }
+    }
+  };
+
   const handleTransactionUpdate = async (t: Transaction) => {
-    setTransactions(prev => prev.map(old => old.id === t.id ? t : old));
+    const previous = transactions.find(old => old.id === t.id);
+    if (!ensureOpen([t.date, previous?.date || ''])) return;
+    updateLoadedRows(prev => prev.map(old => old.id === t.id ? t : old));
     if (db.isSupabaseConfigured()) await db.upsertTransactions([t]);
   };
 
+  // Uploads run in parallel, so duplicate prompts wait their turn and open one at a time
+  const askDuplicateReview = (review: Omit<DuplicateReview, 'resolve'>) => {
+    const next = reviewChain.current.then(() => new Promise<string[] | null>(resolve =>
+      setDuplicateReview({
+        ...review,
+        resolve: dropIds => {
+          setDuplicateReview(null);
+          resolve(dropIds);
+        }
+      })
+    ));
+    reviewChain.current = next;
+    return next;
+  };
+
+  // Pauses an import until the user has decided which flagged rows to skip.
+  // Resolves with the rows to save, or null when the import was cancelled.
+  const reviewDuplicates = async (incoming: Transaction[], fileName: string, documentSeen: boolean): Promise<Transaction[] | null> => {
+    if (incoming.length === 0) return incoming;
+    const existing = db.isSupabaseConfigured()
+      ? await db.getTransactions({ ...getComparisonWindow(incoming), category: '', minAmount: '', maxAmount: '', search: '' })
+      : transactions;
+    const matches = findImportDuplicates(incoming, existing, documentSeen);
+    if (matches.length === 0) return incoming;
+
+    const dropIds = await askDuplicateReview({ mode: 'import', title: fileName, matches, totalCount: incoming.length });
+    if (!dropIds) return null;
+    return incoming.filter(t => !dropIds.includes(t.id));
+  };
+
+  const handleFindDuplicates = async () => {
+    const ledger = (db.isSupabaseConfigured() ? await db.getTransactions() : transactions).filter(t => !isDateLocked(t.date, closedThrough));
+    const matches = findLedgerDuplicates(ledger);
+    const dropIds = await askDuplicateReview({ mode: 'ledger', title: `${ledger.length} records scanned`, matches, totalCount: ledger.length });
+    if (!dropIds || dropIds.length === 0) return;
+
+    try {
+      if (db.isSupabaseConfigured()) await db.deleteTransactions(dropIds);
+      updateLoadedRows(prev => prev.filter(t => !dropIds.includes(t.id)));
+      if (db.isSupabaseConfigured()) await loadData(filters);
+      showToast(`Removed ${dropIds.length} duplicates.`);
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to remove duplicates.', 'error');
+    }
+  };
+
+  // Pairs equal and opposite rows across bank accounts and saves them as suggested transfers.
+  // Returns how many pairs were found.
+  const matchTransfers = async (window?: { startDate: string; endDate: string }): Promise<number> => {
+    const ledger = db.isSupabaseConfigured()
+      ? await db.getTransactions(window ? { ...window, category: '', minAmount: '', maxAmount: '', search: '' } : undefined)
+      : transactions;
+    const linked = findTransferPairs(ledger.filter(t => !isDateLocked(t.date, closedThrough))).flatMap(linkTransferPair);
+    if (linked.length === 0) return 0;
+    if (db.isSupabaseConfigured()) await db.upsertTransactions(linked);
+    const byId = new Map(linked.map(t => [t.id, t]));
+    updateLoadedRows(prev => prev.map(t => byId.get(t.id) || t));
+    return linked.length / 2;
+  };
+
+  // Run after every import; a failed match must not fail the import itself
+  const matchImportedTransfers = async (imported: Transaction[]) => {
+    if (imported.length === 0 || accounts.length < 2) return;
+    try {
+      await matchTransfers(getComparisonWindow(imported));
+    } catch (err) {
+      console.error("Transfer matching failed", err);
+    }
+  };
+
+  const handleDetectTransfers = async () => {
+    try {
+      const found = await matchTransfers();
+      showToast(found > 0 ? `Matched ${found} transfers.` : 'No new transfers found.');
+    } catch (err) {
+      console.error(err);
+      showToast('Transfer matching failed.', 'error');
+    }
+  };
+
+  const setTransferStatus = async (t: Transaction, status: 'confirmed' | 'rejected') => {
+    const ids = [t.id, t.transferId!];
+    const leg = transactions.find(row => row.id === t.transferId);
+    if (!ensureOpen([t.date, leg?.date || ''])) return;
+    try {
+      if (db.isSupabaseConfigured()) await db.updateTransferStatus(ids, status);
+      updateLoadedRows(prev => prev.map(row => !ids.includes(row.id) ? row : {
+        ...row,
+        transferStatus: status,
+        transferId: status === 'rejected' ? undefined : row.transferId,
+      }));
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to update transfer.', 'error');
+    }
+  };
+
+  const handleSaveSplits = async (t: Transaction, splits: TransactionSplit[]) => {
+    if (!ensureOpen([t.date])) throw new Error(lockedMessage(closedThrough!));
+    try {
+      if (db.isSupabaseConfigured()) {
+        await db.saveSplits(t.id, splits);
+        await loadData(filters);
+      } else {
+        updateLoadedRows(prev => prev.map(row => row.id === t.id ? { ...row, splits: splits.length ? splits : undefined } : row));
+      }
+      showToast(splits.length ? `Split into ${splits.length} lines.` : 'Split removed.');
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to save split.', 'error');
+      throw err;
+    }
+  };
+
+  // Without a database the journal and its audit trail live in memory only
+  const recordJournalEvent = (entryId: string, action: JournalAuditEvent['action'], summary: string) => {
+    setJournalAudit(prev => [{ id: `audit-${Date.now()}`, entryId, action, summary, at: new Date().toISOString() }, ...prev]);
+  };
+
+  const handleSaveJournalEntry = async (entry: JournalEntry) => {
+    const previous = journalEntries.find(e => e.id === entry.id);
+    const dates = [entry.date, previous?.date || '', entry.reversing && entry.date ? reversalDate(entry.date) : ''];
+    if (!ensureOpen(dates)) throw new Error(lockedMessage(closedThrough!));
+    const isNew = !previous;
+    try {
+      if (db.isSupabaseConfigured()) {
+        const saved = await db.saveJournalEntry(entry, describeEntry(entry));
+        if (saved) setJournalEntries(prev => [saved, ...prev.filter(e => e.id !== entry.id)]);
+        setJournalAudit(await db.getJournalAudit());
+      } else {
+        const now = new Date().toISOString();
+        const saved = { ...entry, createdAt: entry.createdAt || now, updatedAt: now };
+        setJournalEntries(prev => [saved, ...prev.filter(e => e.id !== entry.id)]);
+        recordJournalEvent(entry.id, isNew ? 'created' : 'updated', describeEntry(entry));
+      }
+      showToast(isNew ? 'Journal entry posted.' : 'Journal entry updated.');
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to save journal entry.', 'error');
+      throw err;
+    }
+  };
+
+  const handleDeleteJournalEntry = async (entry: JournalEntry) => {
+    if (!ensureOpen([entry.date])) return;
+    try {
+      if (db.isSupabaseConfigured()) {
+        await db.deleteJournalEntry(entry.id, describeEntry(entry));
+        setJournalAudit(await db.getJournalAudit());
+      } else {
+        recordJournalEvent(entry.id, 'deleted', describeEntry(entry));
+      }
+      setJournalEntries(prev => prev.filter(e => e.id !== entry.id));
+      showToast('Journal entry deleted.');
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to delete journal entry.', 'error');
+    }
+  };
+
+  const handleSaveFixedAsset = async (asset: FixedAsset) => {
+    const previous = fixedAssets.find(a => a.id === asset.id);
+    const purchase = asset.transactionId ? ledger.find(t => t.id === asset.transactionId) : undefined;
+    if (!ensureOpen([asset.acquisitionDate, previous?.acquisitionDate || '', purchase?.date || ''])) throw new Error(lockedMessage(closedThrough!));
+    try {
+      const saved = db.isSupabaseConfigured() ? await db.upsertFixedAsset(asset) : asset;
+      if (saved) setFixedAssets(prev => [...prev.filter(a => a.id !== asset.id), saved]);
+      showToast(`"${asset.name}" saved to the asset register.`);
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to save fixed asset.', 'error');
+      throw err;
+    }
+  };
+
+  const handleDeleteFixedAsset = async (id: string) => {
+    if (!ensureOpen([fixedAssets.find(a => a.id === id)?.acquisitionDate || ''])) return;
+    try {
+      if (db.isSupabaseConfigured()) await db.deleteFixedAsset(id);
+      setFixedAssets(prev => prev.filter(a => a.id !== id));
+      showToast('Fixed asset removed.');
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to delete fixed asset.', 'error');
+    }
+  };
+
+  const recordPeriodClose = async (event: Omit<PeriodCloseEvent, 'id' | 'at'>) => {
+    const saved = db.isSupabaseConfigured()
+      ? await db.recordPeriodClose(event)
+      : { ...event, id: `close-${Date.now()}`, at: new Date().toISOString() };
+    if (saved) setPeriodCloseLog(prev => [saved, ...prev]);
+  };
+
+  const handleClosePeriod = async (date: string) => {
+    try {
+      await recordPeriodClose({ action: 'closed', closedThrough: date });
+      showToast(`Books closed through ${date}.`);
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to close period.', 'error');
+      throw err;
+    }
+  };
+
+  const handleReopenPeriod = async (date: string | null, reason: string) => {
+    try {
+      await recordPeriodClose({ action: 'reopened', closedThrough: date, reason });
+      showToast(date ? `Reopened everything after ${date}.` : 'All periods reopened.');
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to reopen period.', 'error');
+      throw err;
+    }
+  };
+
+  const handleFinalizeReport = async (snapshot: ReportSnapshot) => {
+    try {
+      const saved = db.isSupabaseConfigured() ? await db.saveReportSnapshot(snapshot) : snapshot;
+      if (saved) setReportSnapshots(prev => [saved, ...prev]);
+      showToast(`Report finalized · #${snapshot.hash.slice(0, 12)}`);
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to finalize report.', 'error');
+      throw err;
+    }
+  };
+
+  const updateFiscalYearStart = (month: number) => {
+    setFiscalYearStart(month);
+    saveFiscalYearStart(month);
+  };
+
+  const updateLenderThresholds = (thresholds: Record<LenderMetricId, MetricThreshold>) => {
+    setLenderThresholds(thresholds);
+    saveLenderThresholds(thresholds);
+  };
+
+  // Payments never predate a loan's start, so the start date covers the payments it splits
+  const handleSaveLoan = async (loan: Loan) => {
+    const previous = loans.find(l => l.id === loan.id);
+    if (!ensureOpen([loan.startDate, previous?.startDate || ''])) throw new Error(lockedMessage(closedThrough!));
+    try {
+      const saved = db.isSupabaseConfigured() ? await db.upsertLoan(loan) : loan;
+      if (saved) setLoans(prev => [...prev.filter(l => l.id !== loan.id), saved]);
+      showToast(`Loan "${loan.name}" saved.`);
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to save loan.', 'error');
+      throw err;
+    }
+  };
+
+  const handleDeleteLoan = async (id: string) => {
+    if (!ensureOpen([loans.find(l => l.id === id)?.startDate || ''])) return;
+    try {
+      if (db.isSupabaseConfigured()) await db.deleteLoan(id);
+      setLoans(prev => prev.filter(l => l.id !== id));
+      showToast('Loan removed.');
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to delete loan.', 'error');
+    }
+  };
+
+  const clearAssetSource = useCallback(() => setAssetSource(null), []);
+
+  const handleCreateAssetFromTransaction = (t: Transaction) => {
+    setAssetSource(t);
+    setActiveTab('assets');
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     if (!isConfigured) {
       setIsDbConfigOpen(true);
@@ -165,30 +599,397 @@ export default function App() {
       fileName: file.name,
       fileType: file.type,
       data: '',
-      status: 'pending'
+      status: 'pending',
+      accountId: uploadAccountId || undefined
     }));
+    newStatuses.forEach((status, i) => {
+      uploadFiles.current.set(status.id, files[i]);
+      queueStore.saveJob(status, files[i]).catch(err => console.error("Queue persistence failed", err));
+    });
     setProcessingQueue(prev => [...prev, ...newStatuses]);
+  };
 
-    for (const status of newStatuses) {
-      const file = files.find(f => f.name === status.fileName);
-      if (!file) continue;
-      
-      setProcessingQueue(prev => prev.map(s => s.id === status.id ? { ...s, status: 'processing' } : s));
-      try {
-        const base64 = await readFileAsBase64(file);
-        const extracted = await parseDocumentWithGemini(file, base64);
-        
-        await db.upsertTransactions(extracted);
-        await loadData(filters);
-        
-        setProcessingQueue(prev => prev.map(s => s.id === status.id ? { ...s, status: 'completed', transactionCount: extracted.length } : s));
-        showToast(`Extracted ${extracted.length} records.`);
-      } catch (err: any) {
+  // Starts pending jobs while slots are free. Rate-limited jobs sit out until their retryAt.
+  useEffect(() => {
+    const now = Date.now();
+    const ready = processingQueue.filter(s =>
+      s.status === 'pending' &&
+      !activeJobs.current.has(s.id) &&
+      !csvQueue.some(c => c.statusId === s.id) &&
+      uploadFiles.current.has(s.id) &&
+      (!s.retryAt || s.retryAt <= now)
+    );
+    ready.slice(0, Math.max(concurrency - activeJobs.current.size, 0)).forEach(runJob);
+
+    const waiting = processingQueue.filter(s => s.status === 'pending' && s.retryAt && s.retryAt > now);
+    if (waiting.length === 0) return;
+    const timer = setTimeout(() => setQueueTick(t => t + 1), Math.min(...waiting.map(s => s.retryAt!)) - now);
+    return () => clearTimeout(timer);
+  }, [processingQueue, csvQueue, concurrency, queueTick]);
+
+  const runJob = async (status: ProcessingStatus) => {
+    const file = uploadFiles.current.get(status.id);
+    if (!file) return;
+
+    if (isCsvFile(file)) {
+      setProcessingQueue(prev => prev.map(s => s.id === status.id ? { ...s, message: 'Awaiting column mapping' } : s));
+      setCsvQueue(prev => [...prev, { statusId: status.id, file }]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    activeJobs.current.set(status.id, controller);
+    setProcessingQueue(prev => prev.map(s => s.id === status.id ? { ...s, status: 'processing', message: undefined, retryAt: undefined } : s));
+    try {
+      let extracted: Transaction[];
+      let details: Partial<ProcessingStatus> = {};
+      let found = 0;
+      const fileHash = status.fileHash || await hashFile(file);
+
+      if (isStructuredStatement(file)) {
+        // Structured exports are parsed locally; bank references already in the ledger are skipped
+        const statement = await parseStructuredStatement(file);
+        const accountId = await resolveAccount(status, statement.accountNumber, statement.openingBalance, statement.statementStart, statement.accountKind);
+        const existing = await db.getExistingExternalIds(
+          statement.transactions.map(t => t.externalId).filter((id): id is string => !!id),
+          accountId
+        );
+        extracted = matchProfiles(
+          statement.transactions.filter(t => !t.externalId || !existing.has(t.externalId)),
+          profiles
+        ).map(t => ({ ...t, accountId }));
+        details = {
+          accountId,
+          accountNumber: statement.accountNumber,
+          statementStart: statement.statementStart,
+          statementEnd: statement.statementEnd,
+          ledgerBalance: statement.ledgerBalance,
+          openingBalance: statement.openingBalance,
+          closingBalance: statement.closingBalance,
+          // Checked against every row on the statement, including ones already in the ledger
+          reconciliation: reconcileStatement(
+            statement.transactions,
+            statement.openingBalance,
+            statement.closingBalance,
+            accountsRef.current.find(a => a.id === accountId) || { kind: statement.accountKind || 'checking' }
+          ),
+        };
+        found = statement.transactions.length;
+      } else {
+        // AI rows are staged for review; nothing is saved until a reviewer accepts them
+        const pageCount = isPdfFile(file) ? await getPdfPageCount(file) : 0;
+        setProcessingQueue(prev => prev.map(s => s.id === status.id ? { ...s, pageCount: pageCount || (file.type.startsWith('image/') ? 1 : undefined) } : s));
+        if (status.chunks || needsChunking(pageCount)) {
+          // A resumed job keeps the page ranges that already came back
+          await runChunkedExtraction(status.id, file, fileHash, status.chunks || planChunks(pageCount), signal);
+        } else {
+          const base64 = await readFileAsBase64(file);
+          stageExtraction(status.id, file, fileHash, await parseDocumentWithGemini(file, base64, signal));
+        }
+        return;
+      }
+
+      const toSave = await reviewDuplicates(extracted, file.name, await wasImported(fileHash));
+      signal.throwIfAborted();
+      if (!toSave) {
+        setProcessingQueue(prev => prev.map(s => s.id === status.id ? { ...s, ...details, status: 'cancelled' } : s));
+        return;
+      }
+
+      const documentId = await registerSource(file, fileHash, details, extracted);
+      if (toSave.length > 0) await db.upsertTransactions(toSave.map(t => ({ ...t, documentId })));
+      await rollBackOpenings(toSave);
+      await matchImportedTransfers(toSave);
+      rememberImportedDocument(fileHash, file.name);
+      uploadFiles.current.delete(status.id);
+      await loadData(filters);
+
+      const skipped = found - toSave.length;
+      setProcessingQueue(prev => prev.map(s => s.id === status.id ? { ...s, ...details, documentId, status: 'completed', transactionCount: toSave.length, message: skipped > 0 ? `${skipped} duplicates skipped` : undefined } : s));
+      showToast(`Extracted ${toSave.length} records.`);
+    } catch (err: any) {
+      const attempts = (status.attempts || 0) + 1;
+      if (signal.aborted) {
+        setProcessingQueue(prev => prev.map(s => s.id === status.id ? { ...s, status: 'cancelled', message: 'Cancelled' } : s));
+      } else if (isRateLimitError(err) && attempts <= RATE_LIMIT_RETRIES) {
+        // withRetry already backed off inside the call; carry on with the same doubling schedule
+        const wait = getRetryDelay(RATE_LIMIT_RETRIES + attempts - 1);
+        setProcessingQueue(prev => prev.map(s => s.id === status.id ? { ...s, status: 'pending', attempts, retryAt: Date.now() + wait, message: `Rate limited, retrying in ${Math.round(wait / 1000)}s` } : s));
+      } else {
         setProcessingQueue(prev => prev.map(s => s.id === status.id ? { ...s, status: 'error', message: err instanceof Error ? err.message : 'Failed' } : s));
       }
+    } finally {
+      activeJobs.current.delete(status.id);
+      setQueueTick(t => t + 1);
+    }
+  };
+
+  const handleCancelJob = (status: ProcessingStatus) => {
+    const controller = activeJobs.current.get(status.id);
+    if (controller) {
+      controller.abort();
+      return;
+    }
+    setCsvQueue(prev => prev.filter(c => c.statusId !== status.id));
+    setProcessingQueue(prev => prev.map(s => s.id === status.id ? { ...s, status: 'cancelled', message: 'Cancelled', retryAt: undefined } : s));
+  };
+
+  const handleRetryJob = (status: ProcessingStatus) => {
+    if (!uploadFiles.current.has(status.id)) {
+      showToast('Original file is no longer available. Upload it again.', 'error');
+      return;
+    }
+    setProcessingQueue(prev => prev.map(s => s.id === status.id ? { ...s, status: 'pending', attempts: 0, retryAt: undefined, message: undefined } : s));
+  };
+
+  const handleRetryAllFailed = () => {
+    setProcessingQueue(prev => prev.map(s => s.status === 'error' && uploadFiles.current.has(s.id) ? { ...s, status: 'pending', attempts: 0, retryAt: undefined, message: undefined } : s));
+  };
+
+  const handleClearFinished = () => {
+    // Without a stored document, a failed balance check lives only on its queue entry, so it stays
+    const finished = processingQueue.filter(s =>
+      (s.status === 'completed' || s.status === 'cancelled') &&
+      (!isUnreconciled(s) || documents.some(d => d.id === s.documentId))
+    );
+    finished.forEach(s => {
+      uploadFiles.current.delete(s.id);
+      queueStore.deleteJob(s.id).catch(err => console.error("Queue persistence failed", err));
+    });
+    setProcessingQueue(prev => prev.filter(s => !finished.some(f => f.id === s.id)));
+  };
+
+  const handleConcurrencyChange = (value: number) => {
+    setConcurrency(value);
+    queueStore.saveUploadConcurrency(value);
+  };
+
+  // Picks the bank account a statement's rows belong to: the one chosen at upload, else the
+  // account whose last four digits match the statement, else a new account created from it
+  const resolveAccount = async (status: ProcessingStatus, accountNumber?: string, openingBalance?: number, openingDate?: string, kind?: BankAccountKind): Promise<string | undefined> => {
+    if (status.accountId) return status.accountId;
+    if (!accountNumber) return undefined;
+    const known = matchAccount(accounts, accountNumber);
+    if (known) return known.id;
+    const draft = draftAccountFromStatement(accountNumber, openingBalance, openingDate, kind);
+    if (!draft.last4) return undefined;
+    try {
+      const created = await db.upsertAccount(draft);
+      if (!created) return undefined;
+      setAccounts(prev => [...prev, created]);
+      return created.id;
+    } catch (err) {
+      console.error("Account creation failed", err);
+      return undefined;
+    }
+  };
+
+  const handleSaveAccount = async (account: BankAccount) => {
+    try {
+      const saved = await db.upsertAccount(account);
+      if (!saved) return;
+      setAccounts(prev => prev.some(a => a.id === account.id) ? prev.map(a => a.id === account.id ? saved : a) : [...prev, saved]);
+      showToast(`Saved ${accountLabel(saved)}.`);
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to save bank account.', 'error');
+    }
+  };
+
+  const handleDeleteAccount = async (id: string) => {
+    if (!ensureOpen(ledger.filter(t => t.accountId === id).map(t => t.date))) return;
+    try {
+      await db.deleteAccount(id);
+      setAccounts(prev => prev.filter(a => a.id !== id));
+      if (uploadAccountId === id) setUploadAccountId('');
+      if (filters.accountId === id) setFilters(prev => ({ ...prev, accountId: '' }));
+      else await loadData(filters);
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to delete bank account.', 'error');
+    }
+  };
+
+  // Whole-file duplicate check. The document registry is shared by every browser; the
+  // localStorage list only stands in when no database is configured.
+  const wasImported = async (fileHash: string) => {
+    if (!fileHash) return false;
+    if (db.isSupabaseConfigured()) return !!(await db.findDocumentByHash(fileHash));
+    return !!getImportedDocument(fileHash);
+  };
+
+  // Records the uploaded file in the document registry and returns the id its rows
+  // should carry. A registry failure is logged but does not block the import.
+  const registerSource = async (file: File, fileHash: string, info: Partial<ProcessingStatus>, rows: Transaction[]): Promise<string | undefined> => {
+    const dates = rows.map(t => t.date).sort();
+    try {
+      const doc = await db.registerDocument({
+        hash: fileHash,
+        fileName: file.name,
+        fileType: file.type,
+        pageCount: info.pageCount,
+        statementStart: info.statementStart || dates[0],
+        statementEnd: info.statementEnd || dates[dates.length - 1],
+        accountNumber: info.accountNumber,
+        reconciliation: info.reconciliation,
+      }, file);
+      if (doc) setDocuments(prev => [doc, ...prev.filter(d => d.id !== doc.id)]);
+      return doc?.id;
+    } catch (err) {
+      console.error("Document registration failed", err);
+      return undefined;
+    }
+  };
+
+  const handleOpenDocument = async (doc: SourceDocument) => {
+    const url = await db.getDocumentUrl(doc);
+    if (url) window.open(url, '_blank', 'noopener');
+    else showToast('Original file was not stored for this document.', 'error');
+  };
+
+  const handleCsvImport = async (extracted: Transaction[]) => {
+    const current = csvQueue[0];
+    if (!current) return;
+    try {
+      const fileHash = await hashFile(current.file);
+      const toSave = await reviewDuplicates(extracted, current.file.name, await wasImported(fileHash));
+      // Cancelling the review leaves the wizard open so the mapping can be adjusted
+      if (!toSave) return;
+
+      const documentId = await registerSource(current.file, fileHash, {}, extracted);
+      const accountId = processingQueue.find(s => s.id === current.statusId)?.accountId;
+      if (toSave.length > 0) await db.upsertTransactions(toSave.map(t => ({ ...t, documentId, accountId })));
+      await rollBackOpenings(toSave.map(t => ({ ...t, accountId })));
+      await matchImportedTransfers(toSave);
+      rememberImportedDocument(fileHash, current.file.name);
+      uploadFiles.current.delete(current.statusId);
+      await loadData(filters);
+      const skipped = extracted.length - toSave.length;
+      setProcessingQueue(prev => prev.map(s => s.id === current.statusId ? { ...s, documentId, status: 'completed', message: skipped > 0 ? `${skipped} duplicates skipped` : undefined, transactionCount: toSave.length } : s));
+      showToast(`Imported ${toSave.length} records.`);
+      setCsvQueue(prev => prev.slice(1));
+    } catch (err: any) {
+      setProcessingQueue(prev => prev.map(s => s.id === current.statusId ? { ...s, status: 'error', message: err instanceof Error ? err.message : 'Failed' } : s));
+      showToast('CSV import failed.', 'error');
+    }
+  };
+
+  const handleCsvCancel = () => {
+    const current = csvQueue[0];
+    if (!current) return;
+    setProcessingQueue(prev => prev.map(s => s.id === current.statusId ? { ...s, status: 'cancelled', message: undefined } : s));
+    setCsvQueue(prev => prev.slice(1));
+  };
+
+  const stageExtraction = (statusId: string, file: File, fileHash: string, statement: ExtractedStatement) => {
+    setProcessingQueue(prev => prev.map(s => s.id === statusId ? {
+      ...s,
+      status: 'review',
+      data: URL.createObjectURL(file),
+      fileHash,
+      stagedRows: statement.rows,
+      openingBalance: statement.openingBalance,
+      closingBalance: statement.closingBalance,
+      statementStart: statement.statementStart,
+      statementEnd: statement.statementEnd,
+      message: `${statement.rows.length} rows awaiting review`
+    } : s));
+  };
+
+  // Extracts a long PDF one page range at a time. Chunks that already succeeded are
+  // kept on the status record, so a retry only re-sends the ranges that failed.
+  const runChunkedExtraction = async (statusId: string, file: File, fileHash: string, chunks: ExtractionChunk[], signal: AbortSignal) => {
+    setProcessingQueue(prev => prev.map(s => s.id === statusId ? { ...s, status: 'processing', fileHash, chunks, pageCount: chunks[chunks.length - 1].endPage, message: undefined } : s));
+    const results = await extractChunks(file, chunks, chunk => {
+      setProcessingQueue(prev => prev.map(s => s.id === statusId ? { ...s, chunks: (s.chunks || []).map(c => c.index === chunk.index ? chunk : c) } : s));
+    }, signal);
+    signal.throwIfAborted();
+
+    const failed = results.filter(c => c.status === 'error');
+    if (failed.length > 0) {
+      setProcessingQueue(prev => prev.map(s => s.id === statusId ? { ...s, status: 'error', message: `${failed.length} of ${results.length} page ranges failed` } : s));
+      return;
+    }
+    stageExtraction(statusId, file, fileHash, mergeChunks(results));
+  };
+
+  const handleStagedRowsChange = (statusId: string, rows: ExtractedRow[]) => {
+    setProcessingQueue(prev => prev.map(s => s.id === statusId ? { ...s, stagedRows: rows } : s));
+  };
+
+  const closeReview = (status: ProcessingStatus, changes: Partial<ProcessingStatus>) => {
+    if (status.data) URL.revokeObjectURL(status.data);
+    uploadFiles.current.delete(status.id);
+    setProcessingQueue(prev => prev.map(s => s.id === status.id ? { ...s, ...changes, data: '', stagedRows: undefined } : s));
+    setReviewingId(null);
+  };
+
+  const handleCommitReview = async (status: ProcessingStatus) => {
+    const accepted = (status.stagedRows || []).filter(r => r.decision === 'accepted').map(r => r.transaction);
+    try {
+      const fileHash = status.fileHash || '';
+      const toSave = await reviewDuplicates(accepted, status.fileName, await wasImported(fileHash));
+      // Cancelling the duplicate check keeps the staged rows so the review can continue
+      if (!toSave) return;
+
+      const reconciliation = reconcileStatement(accepted, status.openingBalance, status.closingBalance, accountsRef.current.find(a => a.id === status.accountId));
+      const file = uploadFiles.current.get(status.id);
+      const documentId = file && fileHash ? await registerSource(file, fileHash, { ...status, reconciliation }, accepted) : undefined;
+      if (toSave.length > 0) await db.upsertTransactions(toSave.map(t => ({ ...t, documentId, accountId: status.accountId })));
+      await rollBackOpenings(toSave.map(t => ({ ...t, accountId: status.accountId })));
+      await matchImportedTransfers(toSave);
+      if (fileHash) rememberImportedDocument(fileHash, status.fileName);
+      await loadData(filters);
+
+      const dropped = (status.stagedRows || []).length - toSave.length;
+      closeReview(status, {
+        status: 'completed',
+        documentId,
+        transactionCount: toSave.length,
+        message: dropped > 0 ? `${dropped} rows dropped` : undefined,
+        reconciliation,
+      });
+      showToast(`Saved ${toSave.length} reviewed records.`);
+    } catch (err: any) {
+      console.error(err);
+      showToast('Failed to save reviewed records.', 'error');
+    }
+  };
+
+  const handleDiscardReview = (status: ProcessingStatus) => {
+    closeReview(status, { status: 'cancelled', message: 'Extraction discarded' });
+  };
+
+  // The sign-off is written to the document record; the queue entry only mirrors it
+  const handleOverrideReconciliation = async (statusId: string, reason: string) => {
+    const status = processingQueue.find(s => s.id === statusId);
+    if (!status?.reconciliation) return;
+    const reconciliation = overrideReconciliation(status.reconciliation, reason);
+    try {
+      if (status.documentId) await saveDocumentReconciliation(status.documentId, reconciliation);
+      setProcessingQueue(prev => prev.map(s => s.id === statusId ? { ...s, reconciliation } : s));
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to save the sign-off.', 'error');
     }
   };
 
+  const handleOverrideDocumentReconciliation = async (doc: SourceDocument, reason: string) => {
+    if (!doc.reconciliation) return;
+    try {
+      await saveDocumentReconciliation(doc.id, overrideReconciliation(doc.reconciliation, reason));
+    } catch (err) {
+      console.error(err);
+      showToast('Failed to save the sign-off.', 'error');
+    }
+  };
+
+  const saveDocumentReconciliation = async (documentId: string, reconciliation: StatementReconciliation) => {
+    const saved = await db.saveDocumentReconciliation(documentId, reconciliation);
+    if (saved) setDocuments(prev => prev.map(d => d.id === saved.id ? saved : d));
+  };
+
   const handleUpdateCategoryType = (id: string, type: AccountType) => {
     setCategories(prev => prev.map(c => c.id === id ? { ...c, accountType: type } : c));
   };
@@ -204,7 +1005,7 @@ export default function App() {
 
   const ReportSwitcher = () => (
     <div className="flex items-center justify-center mb-6 print:hidden">
-      <div className="bg-slate-200/50 p-1.5 rounded-xl flex gap-1">
+      <div className="bg-slate-200/50 p-1.5 rounded-xl flex flex-wrap justify-center gap-1">
          <button 
            onClick={() => setActiveTab('pnl')}
            className={`px-6 py-2.5 rounded-lg text-xs font-black uppercase tracking-widest transition-all ${activeTab === 'pnl' ? 'bg-white text-indigo-600 shadow-md scale-105' : 'text-slate-500 hover:text-slate-700 hover:bg-slate-200/50'}`}
@@ -217,6 +1018,24 @@ export default function App() {
          >
            Balance Sheet
          </button>
+         <button 
+           onClick={() => setActiveTab('cash_flow')}
+           className={`px-6 py-2.5 rounded-lg text-xs font-black uppercase tracking-widest transition-all ${activeTab === 'cash_flow' ? 'bg-white text-indigo-600 shadow-md scale-105' : 'text-slate-500 hover:text-slate-700 hover:bg-slate-200/50'}`}
+         >
+           Cash Flow
+         </button>
+         <button 
+           onClick={() => setActiveTab('trial_balance')}
+           className={`px-6 py-2.5 rounded-lg text-xs font-black uppercase tracking-widest transition-all ${activeTab === 'trial_balance' ? 'bg-white text-indigo-600 shadow-md scale-105' : 'text-slate-500 hover:text-slate-700 hover:bg-slate-200/50'}`}
+         >
+           Trial Balance
+         </button>
+         <button 
+           onClick={() => setActiveTab('general_ledger')}
+           className={`px-6 py-2.5 rounded-lg text-xs font-black uppercase tracking-widest transition-all ${activeTab === 'general_ledger' ? 'bg-white text-indigo-600 shadow-md scale-105' : 'text-slate-500 hover:text-slate-700 hover:bg-slate-200/50'}`}
+         >
+           General Ledger
+         </button>
       </div>
     </div>
   );
@@ -334,7 +1153,7 @@ export default function App() {
           <button
              onClick={() => setActiveTab('pnl')}
               className={`flex flex-col items-center justify-center w-full h-full gap-1 transition-all ${
-                (activeTab === 'pnl' || activeTab === 'balance_sheet') ? 'text-indigo-400 scale-110 font-bold' : 'text-slate-500'
+                ['pnl', 'balance_sheet', 'cash_flow', 'trial_balance', 'general_ledger'].includes(activeTab) ? 'text-indigo-400 scale-110 font-bold' : 'text-slate-500'
               }`}
           >
              <FileBadge size={22} />
@@ -357,11 +1176,22 @@ export default function App() {
           </div>
           
           <div className="flex items-center gap-2">
+             {accounts.length > 0 && (
+               <select
+                 value={uploadAccountId}
+                 onChange={(e) => setUploadAccountId(e.target.value)}
+                 title="Bank account for new uploads"
+                 className="hidden sm:block bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 outline-none cursor-pointer"
+               >
+                 <option value="">Detect Account</option>
+                 {accounts.map(a => <option key={a.id} value={a.id}>{accountLabel(a)}</option>)}
+               </select>
+             )}
              <label className="cursor-pointer bg-slate-900 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg hover:bg-slate-800 transition flex items-center gap-2">
                 <UploadCloud className="w-3.5 h-3.5" />
                 <span className="hidden sm:inline">Add Statement</span>
                 <span className="sm:hidden">Upload</span>
-                <input type="file" multiple className="hidden" onChange={handleFileUpload} accept=".pdf,image/*" />
+                <input type="file" multiple className="hidden" onChange={handleFileUpload} accept=".pdf,image/*,.csv,.tsv,.ofx,.qfx,.qif,.xml,.sta,.mt940,.940" />
              </label>
           </div>
         </header>
@@ -379,28 +1209,49 @@ export default function App() {
               <FilterBar 
                 filters={filters} 
                 categories={categories} 
+                accounts={accounts}
                 onFilterChange={setFilters} 
+                fiscalYearStart={fiscalYearStart}
+                onFiscalYearStartChange={updateFiscalYearStart}
                 onClear={() => setFilters({startDate: '', endDate: '', category: '', minAmount: '', maxAmount: '', search: ''})} 
                 onOpenCategoryManager={() => setIsCategoryManagerOpen(true)}
+                onOpenAccountManager={() => setIsAccountManagerOpen(true)}
                 totalCount={totalDbCount}
                 filteredCount={transactions.length}
                 isLoading={isFetching}
               />
+              <PeriodClosePanel
+                log={periodCloseLog}
+                onClosePeriod={handleClosePeriod}
+                onReopenPeriod={handleReopenPeriod}
+              />
               <TransactionTable 
                 transactions={transactions} 
                 categories={categories} 
                 profiles={profiles}
                 onUpdateTransaction={handleTransactionUpdate} 
                 onDeleteTransaction={async (id) => {
-                  setTransactions(prev => prev.filter(t => t.id !== id));
+                  if (!ensureOpen([transactions.find(t => t.id === id)?.date || ''])) return;
+                  updateLoadedRows(prev => prev.filter(t => t.id !== id));
                   if (db.isSupabaseConfigured()) await db.deleteTransaction(id);
                 }}
                 onBulkUpdate={async (ids, updates) => {
-                  setTransactions(prev => prev.map(t => ids.includes(t.id) ? { ...t, ...updates } : t));
+                  if (!ensureOpen(transactions.filter(t => ids.includes(t.id)).map(t => t.date))) return;
+                  updateLoadedRows(prev => prev.map(t => ids.includes(t.id) ? { ...t, ...updates } : t));
                   const targets = transactions.filter(t => ids.includes(t.id)).map(t => ({ ...t, ...updates }));
                   if (db.isSupabaseConfigured()) await db.upsertTransactions(targets);
                 }}
                 onCreateProfile={handleCreateProfile}
+                onFindDuplicates={handleFindDuplicates}
+                onDetectTransfers={handleDetectTransfers}
+                onConfirmTransfer={(t) => setTransferStatus(t, 'confirmed')}
+                onBreakTransfer={(t) => setTransferStatus(t, 'rejected')}
+                onSaveSplits={handleSaveSplits}
+                onCreateAsset={handleCreateAssetFromTransaction}
+                documents={documents}
+                onOpenDocument={handleOpenDocument}
+                accounts={accounts}
+                closedThrough={closedThrough}
               />
             </div>
           </div>
@@ -420,9 +1271,10 @@ export default function App() {
                   return updated;
                 }}
                 onDeleteProfile={async (id) => {
+                  if (!ensureOpen(ledger.filter(t => t.entityId === id).map(t => t.date))) throw new Error(lockedMessage(closedThrough!));
                   await db.deleteProfile(id);
                   setProfiles(prev => prev.filter(p => p.id !== id));
-                  setTransactions(prev => prev.map(t => t.entityId === id ? { ...t, entityId: undefined, entityName: undefined } : t));
+                  updateLoadedRows(prev => prev.map(t => t.entityId === id ? { ...t, entityId: undefined, entityName: t.counterparty } : t));
                 }}
                 onRefreshData={() => loadData(filters)}
               />
@@ -436,9 +1288,13 @@ export default function App() {
                 <FilterBar 
                   filters={filters} 
                   categories={categories} 
+                  accounts={accounts}
                   onFilterChange={setFilters} 
+                  fiscalYearStart={fiscalYearStart}
+                  onFiscalYearStartChange={updateFiscalYearStart}
                   onClear={() => setFilters({startDate: '', endDate: '', category: '', minAmount: '', maxAmount: '', search: ''})} 
                   onOpenCategoryManager={() => setIsCategoryManagerOpen(true)}
+                  onOpenAccountManager={() => setIsAccountManagerOpen(true)}
                   totalCount={totalDbCount}
                   filteredCount={transactions.length}
                   isLoading={isFetching}
@@ -446,15 +1302,26 @@ export default function App() {
              </div>
              <FinancialReport 
               view="pnl"
-              transactions={transactions}
+              transactions={ledger}
               categories={categories}
-              bsAdjustments={bsAdjustments}
+              accounts={accounts}
+              journalEntries={journalEntries}
+              fixedAssets={fixedAssets}
+              loans={loans}
+              lenderThresholds={lenderThresholds}
+              onChangeLenderThresholds={updateLenderThresholds}
+              snapshots={reportSnapshots}
+              onFinalizeReport={handleFinalizeReport}
+              profiles={profiles}
+              documents={documents}
+              onLoadDocument={db.downloadDocument}
               bsOverrides={bsOverrides}
               filters={filters}
+              fiscalYearStart={fiscalYearStart}
+              unreconciledDocuments={unreconciledDocuments}
+              onResolveDocuments={() => setActiveTab('documents')}
               businessName={businessName}
               onUpdateBusinessName={updateBusinessName}
-              onAddAdjustment={(a) => setBsAdjustments([...bsAdjustments, a])}
-              onRemoveAdjustment={(id) => setBsAdjustments(bsAdjustments.filter(a => a.id !== id))}
               onOverride={(cat, val) => setBsOverrides(prev => ({ ...prev, [cat]: val as number }))}
             />
           </div>
@@ -466,9 +1333,13 @@ export default function App() {
                 <FilterBar 
                   filters={filters} 
                   categories={categories} 
+                  accounts={accounts}
                   onFilterChange={setFilters} 
+                  fiscalYearStart={fiscalYearStart}
+                  onFiscalYearStartChange={updateFiscalYearStart}
                   onClear={() => setFilters({startDate: '', endDate: '', category: '', minAmount: '', maxAmount: '', search: ''})} 
                   onOpenCategoryManager={() => setIsCategoryManagerOpen(true)}
+                  onOpenAccountManager={() => setIsAccountManagerOpen(true)}
                   totalCount={totalDbCount}
                   filteredCount={transactions.length}
                   isLoading={isFetching}
@@ -476,32 +1347,135 @@ export default function App() {
              </div>
              <FinancialReport 
               view="balance_sheet"
-              transactions={transactions}
+              transactions={ledger}
+              categories={categories}
+              accounts={accounts}
+              journalEntries={journalEntries}
+              fixedAssets={fixedAssets}
+              loans={loans}
+              lenderThresholds={lenderThresholds}
+              onChangeLenderThresholds={updateLenderThresholds}
+              snapshots={reportSnapshots}
+              onFinalizeReport={handleFinalizeReport}
+              bsOverrides={bsOverrides}
+              filters={filters}
+              fiscalYearStart={fiscalYearStart}
+              unreconciledDocuments={unreconciledDocuments}
+              onResolveDocuments={() => setActiveTab('documents')}
+              businessName={businessName}
+              onUpdateBusinessName={updateBusinessName}
+              onOverride={(cat, val) => setBsOverrides(prev => ({ ...prev, [cat]: val as number }))}
+            />
+          </div>
+
+          {/* Cash Flow, Trial Balance & General Ledger Tab */}
+          <div className={`absolute inset-0 overflow-y-auto p-4 lg:p-8 pb-32 print:relative print:inset-auto print:overflow-visible print:p-0 print:pb-0 ${activeTab === 'cash_flow' || activeTab === 'trial_balance' || activeTab === 'general_ledger' ? 'block' : 'hidden'}`}>
+             <div className="print:hidden mb-6">
+                <ReportSwitcher />
+                <FilterBar 
+                  filters={filters} 
+                  categories={categories} 
+                  accounts={accounts}
+                  onFilterChange={setFilters} 
+                  fiscalYearStart={fiscalYearStart}
+                  onFiscalYearStartChange={updateFiscalYearStart}
+                  onClear={() => setFilters({startDate: '', endDate: '', category: '', minAmount: '', maxAmount: '', search: ''})} 
+                  onOpenCategoryManager={() => setIsCategoryManagerOpen(true)}
+                  onOpenAccountManager={() => setIsAccountManagerOpen(true)}
+                  totalCount={totalDbCount}
+                  filteredCount={transactions.length}
+                  isLoading={isFetching}
+                />
+             </div>
+             <FinancialReport 
+              view={activeTab === 'cash_flow' || activeTab === 'general_ledger' ? activeTab : 'trial_balance'}
+              transactions={ledger}
               categories={categories}
-              bsAdjustments={bsAdjustments}
+              accounts={accounts}
+              journalEntries={journalEntries}
+              fixedAssets={fixedAssets}
+              loans={loans}
+              lenderThresholds={lenderThresholds}
+              onChangeLenderThresholds={updateLenderThresholds}
+              snapshots={reportSnapshots}
+              onFinalizeReport={handleFinalizeReport}
               bsOverrides={bsOverrides}
               filters={filters}
+              fiscalYearStart={fiscalYearStart}
+              unreconciledDocuments={unreconciledDocuments}
+              onResolveDocuments={() => setActiveTab('documents')}
               businessName={businessName}
               onUpdateBusinessName={updateBusinessName}
-              onAddAdjustment={(a) => setBsAdjustments([...bsAdjustments, a])}
-              onRemoveAdjustment={(id) => setBsAdjustments(bsAdjustments.filter(a => a.id !== id))}
               onOverride={(cat, val) => setBsOverrides(prev => ({ ...prev, [cat]: val as number }))}
             />
           </div>
 
+          {/* Journal Tab */}
+          <div className={`absolute inset-0 overflow-y-auto p-4 lg:p-8 pb-32 print:hidden ${activeTab === 'journal' ? 'block' : 'hidden'}`}>
+            <JournalEntries
+              entries={journalEntries}
+              audit={journalAudit}
+              categories={categories}
+              accounts={accounts}
+              onSave={handleSaveJournalEntry}
+              onDelete={handleDeleteJournalEntry}
+              closedThrough={closedThrough}
+            />
+          </div>
+
+          {/* Fixed Assets Tab */}
+          <div className={`absolute inset-0 overflow-y-auto p-4 lg:p-8 pb-32 print:hidden ${activeTab === 'assets' ? 'block' : 'hidden'}`}>
+            <FixedAssetRegister
+              assets={fixedAssets}
+              categories={categories}
+              pendingTransaction={assetSource}
+              onPendingConsumed={clearAssetSource}
+              onSave={handleSaveFixedAsset}
+              onDelete={handleDeleteFixedAsset}
+            />
+          </div>
+
+          {/* Loans Tab */}
+          <div className={`absolute inset-0 overflow-y-auto p-4 lg:p-8 pb-32 print:hidden ${activeTab === 'loans' ? 'block' : 'hidden'}`}>
+            <LoanRegister
+              loans={loans}
+              categories={categories}
+              transactions={ledger}
+              onSave={handleSaveLoan}
+              onDelete={handleDeleteLoan}
+            />
+          </div>
+
           {/* Documents Tab */}
           <div className={`absolute inset-0 overflow-y-auto p-4 lg:p-8 pb-32 print:hidden ${activeTab === 'documents' ? 'block' : 'hidden'}`}>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {processingQueue.map(status => (
-                <div key={status.id} className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100">
-                  <div className={`p-3 rounded-2xl inline-block mb-4 ${status.status === 'completed' ? 'bg-emerald-50 text-emerald-600' : 'bg-indigo-50 text-indigo-600'}`}>
-                    <FileText className="w-6 h-6" />
-                  </div>
-                  <h4 className="font-black text-slate-800 truncate mb-1 text-sm">{status.fileName}</h4>
-                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{status.status}</p>
-                </div>
-              ))}
-            </div>
+            {reviewingStatus ? (
+              <ExtractionReview
+                status={reviewingStatus}
+                categories={categories}
+                accounts={accounts}
+                onChangeRows={(rows) => handleStagedRowsChange(reviewingStatus.id, rows)}
+                onChangeAccount={(accountId) => setProcessingQueue(prev => prev.map(s => s.id === reviewingStatus.id ? { ...s, accountId } : s))}
+                onCommit={() => handleCommitReview(reviewingStatus)}
+                onDiscard={() => handleDiscardReview(reviewingStatus)}
+                onClose={() => setReviewingId(null)}
+              />
+            ) : (
+            <UploadQueue
+              queue={processingQueue}
+              concurrency={concurrency}
+              canRetry={(id) => uploadFiles.current.has(id)}
+              onConcurrencyChange={handleConcurrencyChange}
+              onCancel={handleCancelJob}
+              onRetry={handleRetryJob}
+              onRetryAllFailed={handleRetryAllFailed}
+              onClearFinished={handleClearFinished}
+              onReview={(status) => setReviewingId(status.id)}
+              onOverrideReconciliation={handleOverrideReconciliation}
+            />
+            )}
+            {!reviewingStatus && documents.length > 0 && (
+              <DocumentRegistry documents={documents} transactions={transactions} onOpen={handleOpenDocument} onOverrideReconciliation={handleOverrideDocumentReconciliation} />
+            )}
           </div>
         </div>
       </main>
@@ -517,22 +1491,55 @@ export default function App() {
           }
         }}
         onRename={async (old, next) => {
-          if (db.isSupabaseConfigured()) {
-            await db.bulkUpdateTransactionCategory(old, next);
-            loadData(filters);
+          if (!ensureOpen(categoryDates(old))) return;
+          try {
+            if (db.isSupabaseConfigured()) {
+              await db.bulkUpdateTransactionCategory(old, next);
+              loadData(filters);
+            }
+          } catch (err) {
+            console.error(err);
+            showToast('Failed to rename category.', 'error');
           }
         }}
         onDelete={async (name) => {
-          if (db.isSupabaseConfigured()) {
-            await db.deleteCategory(name);
-            loadData(filters);
+          if (!ensureOpen(categoryDates(name))) return;
+          try {
+            if (db.isSupabaseConfigured()) {
+              await db.deleteCategory(name);
+              loadData(filters);
+            }
+          } catch (err) {
+            console.error(err);
+            showToast('Failed to delete category.', 'error');
           }
         }}
         onUpdateType={handleUpdateCategoryType}
       />
       
+      <AccountManager
+        isOpen={isAccountManagerOpen}
+        onClose={() => setIsAccountManagerOpen(false)}
+        accounts={accounts}
+        balances={accountBalances}
+        onSave={handleSaveAccount}
+        onDelete={handleDeleteAccount}
+      />
+      
       <DatabaseConfigModal isOpen={isDbConfigOpen} onClose={() => setIsDbConfigOpen(false)} onSuccess={() => { loadData(filters); }} />
 
+      <CsvImportWizard file={csvQueue[0]?.file || null} onClose={handleCsvCancel} onImport={handleCsvImport} />
+
+      <DuplicateReviewModal
+        isOpen={!!duplicateReview}
+        mode={duplicateReview?.mode || 'import'}
+        title={duplicateReview?.title || ''}
+        matches={duplicateReview?.matches || []}
+        totalCount={duplicateReview?.totalCount || 0}
+        onConfirm={(dropIds) => duplicateReview?.resolve(dropIds)}
+        onClose={() => duplicateReview?.resolve(null)}
+      />
+
       {toast && (
         <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-[200] flex items-center gap-3 px-6 py-4 rounded-2xl shadow-2xl animate-slide-up bg-slate-900 text-white border border-white/10 print:hidden">
           <CheckCircle2 className="w-5 h-5 text-emerald-400" />
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { X, Edit2, Trash2, Landmark, CreditCard, PiggyBank, Wallet } from 'lucide-react';
+import { BankAccount, BankAccountKind } from '../types';
+import { ACCOUNT_KIND_LABELS, isLiabilityAccount } from '../services/accountService';
+
+interface AccountManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  accounts: BankAccount[];
+  balances: Record<string, number>;
+  onSave: (account: BankAccount) => void;
+  onDelete: (id: string) => void;
+}
+
+const emptyDraft = (): BankAccount => ({
+  id: `acct-${Date.now()}`,
+  name: '',
+  kind: 'checking',
+  institution: '',
+  last4: '',
+  openingBalance: 0,
+  openingDate: new Date().toISOString().split('T')[0],
+});
+
+const KIND_ICONS: Record<BankAccountKind, React.ReactNode> = {
+  checking: <Wallet className="w-3.5 h-3.5 text-indigo-500" />,
+  savings: <PiggyBank className="w-3.5 h-3.5 text-emerald-500" />,
+  credit_card: <CreditCard className="w-3.5 h-3.5 text-amber-500" />,
+  loan: <Landmark className="w-3.5 h-3.5 text-rose-500" />,
+};
+
+const AccountManager: React.FC<AccountManagerProps> = ({ isOpen, onClose, accounts, balances, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<BankAccount>(emptyDraft);
+  const [isEditing, setIsEditing] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<BankAccount>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const resetDraft = () => {
+    setDraft(emptyDraft());
+    setIsEditing(false);
+  };
+
+  const handleSave = () => {
+    const name = draft.name.trim();
+    if (!name) return;
+    const last4 = (draft.last4 || '').replace(/\D/g, '').slice(-4);
+    if (last4 && accounts.some(a => a.id !== draft.id && a.last4 === last4)) {
+      alert(`Another account already ends in ${last4}.`);
+      return;
+    }
+    onSave({ ...draft, name, institution: draft.institution?.trim() || undefined, last4: last4 || undefined });
+    resetDraft();
+  };
+
+  const inputClass = "w-full px-4 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-bold focus:border-indigo-500 outline-none transition-all shadow-sm";
+  const labelClass = "text-[9px] font-black uppercase tracking-widest text-slate-400";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 z-[100] flex items-center justify-center p-4 backdrop-blur-md animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-xl overflow-hidden flex flex-col max-h-[85vh] animate-scale-up border border-slate-100">
+        <div className="px-8 py-6 border-b border-slate-50 flex justify-between items-center">
+          <div>
+            <h3 className="font-black text-slate-800 text-xl tracking-tight">Bank Accounts</h3>
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mt-1">Statement Sources & Opening Balances</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-300 hover:text-slate-600 transition-all"><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="px-8 py-6 bg-slate-50/50 border-b border-slate-100 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2 space-y-1">
+              <p className={labelClass}>Account Name</p>
+              <input type="text" placeholder="Operating Account..." className={inputClass} value={draft.name} onChange={e => update({ name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>Institution</p>
+              <input type="text" placeholder="Bank name" className={inputClass} value={draft.institution || ''} onChange={e => update({ institution: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>Last 4 Digits</p>
+              <input type="text" inputMode="numeric" maxLength={4} placeholder="1234" className={inputClass} value={draft.last4 || ''} onChange={e => update({ last4: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>{isLiabilityAccount(draft) ? 'Opening Amount Owed' : 'Opening Balance'}</p>
+              <input type="number" step="0.01" className={inputClass} value={draft.openingBalance} onChange={e => update({ openingBalance: parseFloat(e.target.value) || 0 })} />
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>As Of</p>
+              <input type="date" className={inputClass} value={draft.openingDate} onChange={e => update({ openingDate: e.target.value })} />
+            </div>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {(Object.keys(ACCOUNT_KIND_LABELS) as BankAccountKind[]).map(kind => (
+              <button
+                key={kind}
+                onClick={() => update({ kind })}
+                className={`py-2 px-1 rounded-xl text-[8px] font-black uppercase tracking-tighter border-2 transition-all ${draft.kind === kind ? 'bg-indigo-600 text-white border-indigo-600 shadow-md' : 'bg-white text-slate-400 border-slate-100'}`}
+              >
+                {ACCOUNT_KIND_LABELS[kind]}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={!draft.name.trim()}
+              className="flex-1 bg-slate-900 text-white px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 disabled:opacity-30 transition-all shadow-lg active:scale-95"
+            >
+              {isEditing ? 'Save Changes' : 'Add Bank Account'}
+            </button>
+            {isEditing && (
+              <button onClick={resetDraft} className="px-6 py-3 bg-slate-100 text-slate-600 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all">
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="overflow-y-auto flex-1 px-4 py-2">
+          {accounts.length === 0 && (
+            <p className="p-8 text-center text-[10px] font-black uppercase tracking-widest text-slate-300">No bank accounts yet</p>
+          )}
+          <div className="space-y-1">
+            {accounts.map(account => (
+              <div key={account.id} className="flex items-center justify-between p-4 rounded-2xl transition-all group hover:bg-slate-50">
+                {confirmDelete === account.id ? (
+                  <div className="flex-1 flex items-center justify-between gap-4 animate-fade-in">
+                    <span className="text-[10px] font-black text-rose-600 uppercase tracking-tight">Delete? Its transactions become unassigned.</span>
+                    <div className="flex gap-2">
+                      <button onClick={() => { onDelete(account.id); setConfirmDelete(null); }} className="px-3 py-1.5 bg-rose-600 text-white text-[9px] font-black uppercase rounded-lg">Delete</button>
+                      <button onClick={() => setConfirmDelete(null)} className="px-3 py-1.5 bg-slate-100 text-slate-600 text-[9px] font-black uppercase rounded-lg">Cancel</button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div className="p-2 bg-slate-50 rounded-xl border border-slate-100">{KIND_ICONS[account.kind]}</div>
+                      <div className="min-w-0">
+                        <span className="text-slate-700 text-xs font-black uppercase tracking-tight truncate block">
+                          {account.name}{account.last4 && <span className="text-slate-300"> ••{account.last4}</span>}
+                        </span>
+                        <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest">
+                          {ACCOUNT_KIND_LABELS[account.kind]}{account.institution ? ` · ${account.institution}` : ''}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className={`text-xs font-black tabular-nums ${isLiabilityAccount(account) ? 'text-amber-600' : 'text-slate-800'}`}>
+                        ${(balances[account.id] ?? account.openingBalance).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      </span>
+                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-all">
+                        <button onClick={() => { setDraft({ ...account }); setIsEditing(true); }} className="p-2 text-slate-300 hover:text-indigo-600"><Edit2 className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => setConfirmDelete(account.id)} className="p-2 text-slate-300 hover:text-rose-600"><Trash2 className="w-3.5 h-3.5" /></button>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountManager;
@@ -0,0 +1,348 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, FileSpreadsheet, ArrowRight, ArrowLeft, Save, Trash2, Loader2, AlertCircle, CheckCircle2, ChevronDown } from 'lucide-react';
+import { Transaction, TransactionType, CsvColumnMapping, CsvMappingPreset, CsvDateFormat, CsvAmountMode } from '../types';
+import {
+  CSV_DATE_FORMATS, detectDelimiter, parseCsv, suggestMapping, mapCsvRows,
+  headerSignature, getCsvPresets, saveCsvPreset, deleteCsvPreset
+} from '../services/csvService';
+
+interface CsvImportWizardProps {
+  file: File | null;
+  onClose: () => void;
+  onImport: (transactions: Transaction[]) => Promise<void>;
+}
+
+const DELIMITERS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+const CsvImportWizard: React.FC<CsvImportWizardProps> = ({ file, onClose, onImport }) => {
+  const [text, setText] = useState('');
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [step, setStep] = useState<'map' | 'preview'>('map');
+  const [presets, setPresets] = useState<CsvMappingPreset[]>(getCsvPresets());
+  const [presetName, setPresetName] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Load the file and pre-fill the mapping from a matching bank preset or header guess
+  useEffect(() => {
+    if (!file) return;
+    setStep('map');
+    setPresetName('');
+    file.text().then(content => {
+      const delimiter = detectDelimiter(content);
+      const rows = parseCsv(content, delimiter);
+      const signature = headerSignature(rows[0] || []);
+      const preset = getCsvPresets().find(p => p.headerSignature === signature);
+      setText(content);
+      setMapping(preset ? preset.mapping : suggestMapping(rows, delimiter));
+      if (preset) setPresetName(preset.name);
+    });
+  }, [file]);
+
+  const rows = useMemo(() => (mapping ? parseCsv(text, mapping.delimiter) : []), [text, mapping?.delimiter]);
+  const columns = useMemo(() => {
+    const width = Math.max(0, ...rows.slice(0, 20).map(r => r.length));
+    return Array.from({ length: width }, (_, i) => (mapping?.hasHeader && rows[0]?.[i]) || `Column ${i + 1}`);
+  }, [rows, mapping?.hasHeader]);
+
+  const result = useMemo(() => (mapping ? mapCsvRows(rows, mapping) : { transactions: [], errors: [] }), [rows, mapping]);
+
+  const totals = useMemo(() => {
+    let income = 0, expense = 0;
+    result.transactions.forEach(t => {
+      if (t.type === TransactionType.INCOME) income += t.amount; else expense += t.amount;
+    });
+    return { income, expense };
+  }, [result]);
+
+  if (!file || !mapping) return null;
+
+  const update = (changes: Partial<CsvColumnMapping>) => setMapping(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const existing = presets.find(p => p.name === name);
+    setPresets(saveCsvPreset({
+      id: existing?.id || `preset-${Date.now()}`,
+      name,
+      mapping,
+      headerSignature: mapping.hasHeader ? headerSignature(rows[0] || []) : undefined,
+    }));
+  };
+
+  const handleApplyPreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return;
+    setMapping(preset.mapping);
+    setPresetName(preset.name);
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await onImport(result.transactions);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const selectBase = "w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-900 focus:border-indigo-500 outline-none appearance-none cursor-pointer";
+  const labelBase = "text-[10px] font-black uppercase text-slate-400 tracking-widest ml-1 mb-1 block";
+
+  const ColumnSelect = ({ label, value, onChange }: { label: string; value: number; onChange: (v: number) => void }) => (
+    <div>
+      <label className={labelBase}>{label}</label>
+      <div className="relative">
+        <select className={selectBase} value={value} onChange={e => onChange(parseInt(e.target.value))}>
+          {columns.map((c, i) => <option key={i} value={i}>{c}</option>)}
+        </select>
+        <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-300 pointer-events-none" />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 z-[100] flex items-center justify-center p-4 backdrop-blur-md animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-scale-up border border-slate-100">
+        <div className="px-8 py-6 border-b border-slate-50 flex justify-between items-center shrink-0">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="bg-indigo-600 p-2 rounded-xl">
+              <FileSpreadsheet className="w-5 h-5 text-white" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="font-black text-slate-800 tracking-tight truncate">{file.name}</h3>
+              <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">
+                {step === 'map' ? 'Step 1 · Column Mapping' : 'Step 2 · Preview'}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-300 hover:text-slate-600 transition-all">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-6 overflow-y-auto">
+          {step === 'map' ? (
+            <>
+              {/* Bank Presets */}
+              <div className="bg-slate-50 p-4 rounded-2xl border border-slate-100 flex flex-col md:flex-row gap-3 md:items-end">
+                <div className="flex-1">
+                  <label className={labelBase}>Bank Preset</label>
+                  <div className="relative">
+                    <select className={`${selectBase} bg-white`} value={presets.find(p => p.name === presetName)?.id || ''} onChange={e => handleApplyPreset(e.target.value)}>
+                      <option value="">-- Detected Automatically --</option>
+                      {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                    <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-300 pointer-events-none" />
+                  </div>
+                </div>
+                <div className="flex-1">
+                  <label className={labelBase}>Save As</label>
+                  <input
+                    className="w-full p-3 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-900 focus:border-indigo-500 outline-none"
+                    placeholder="e.g. Chase Business Checking"
+                    value={presetName}
+                    onChange={e => setPresetName(e.target.value)}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={handleSavePreset} disabled={!presetName.trim()} className="p-3 bg-slate-900 text-white rounded-xl hover:bg-slate-800 disabled:opacity-30 transition">
+                    <Save className="w-4 h-4" />
+                  </button>
+                  {presets.some(p => p.name === presetName) && (
+                    <button
+                      onClick={() => {
+                        const preset = presets.find(p => p.name === presetName);
+                        if (preset) setPresets(deleteCsvPreset(preset.id));
+                        setPresetName('');
+                      }}
+                      className="p-3 bg-rose-50 text-rose-600 rounded-xl hover:bg-rose-100 transition"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {/* File Layout */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className={labelBase}>Delimiter</label>
+                  <div className="relative">
+                    <select className={selectBase} value={mapping.delimiter} onChange={e => update({ delimiter: e.target.value })}>
+                      {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+                    </select>
+                    <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-300 pointer-events-none" />
+                  </div>
+                </div>
+                <div>
+                  <label className={labelBase}>Date Format</label>
+                  <div className="relative">
+                    <select className={selectBase} value={mapping.dateFormat} onChange={e => update({ dateFormat: e.target.value as CsvDateFormat })}>
+                      {CSV_DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                    </select>
+                    <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-300 pointer-events-none" />
+                  </div>
+                </div>
+                <div className="flex items-end">
+                  <label className="flex items-center gap-3 p-3 w-full bg-slate-50 border border-slate-200 rounded-xl cursor-pointer">
+                    <input type="checkbox" checked={mapping.hasHeader} onChange={e => update({ hasHeader: e.target.checked })} className="accent-indigo-600" />
+                    <span className="text-xs font-bold text-slate-700">First row is a header</span>
+                  </label>
+                </div>
+              </div>
+
+              {/* Column Mapping */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <ColumnSelect label="Date Column" value={mapping.dateColumn} onChange={v => update({ dateColumn: v })} />
+                <ColumnSelect label="Description Column" value={mapping.descriptionColumn} onChange={v => update({ descriptionColumn: v })} />
+                <div>
+                  <label className={labelBase}>Amount Layout</label>
+                  <div className="relative">
+                    <select className={selectBase} value={mapping.amountMode} onChange={e => update({ amountMode: e.target.value as CsvAmountMode })}>
+                      <option value="signed">Single Signed Amount</option>
+                      <option value="debit_credit">Separate Debit / Credit</option>
+                    </select>
+                    <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-300 pointer-events-none" />
+                  </div>
+                </div>
+                {mapping.amountMode === 'signed' ? (
+                  <>
+                    <ColumnSelect label="Amount Column" value={mapping.amountColumn} onChange={v => update({ amountColumn: v })} />
+                    <div className="flex items-end md:col-span-2">
+                      <label className="flex items-center gap-3 p-3 w-full bg-slate-50 border border-slate-200 rounded-xl cursor-pointer">
+                        <input type="checkbox" checked={mapping.invertSign} onChange={e => update({ invertSign: e.target.checked })} className="accent-indigo-600" />
+                        <span className="text-xs font-bold text-slate-700">Positive amounts are charges (credit card export)</span>
+                      </label>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <ColumnSelect label="Debit (Money Out)" value={mapping.debitColumn} onChange={v => update({ debitColumn: v })} />
+                    <ColumnSelect label="Credit (Money In)" value={mapping.creditColumn} onChange={v => update({ creditColumn: v })} />
+                  </>
+                )}
+              </div>
+
+              {/* Raw Sample */}
+              <div className="overflow-x-auto border border-slate-100 rounded-2xl">
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="bg-slate-50">
+                      {columns.map((c, i) => (
+                        <th key={i} className="px-3 py-2 text-[9px] font-black uppercase tracking-widest text-slate-400 whitespace-nowrap">{c}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {rows.slice(mapping.hasHeader ? 1 : 0, mapping.hasHeader ? 6 : 5).map((r, i) => (
+                      <tr key={i}>
+                        {columns.map((_, j) => (
+                          <td key={j} className="px-3 py-2 text-[10px] font-bold text-slate-600 whitespace-nowrap">{r[j]}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="bg-slate-50 p-4 rounded-2xl">
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Records</p>
+                  <p className="text-xl font-black text-slate-900">{result.transactions.length}</p>
+                </div>
+                <div className="bg-emerald-50 p-4 rounded-2xl">
+                  <p className="text-[9px] font-black text-emerald-600 uppercase tracking-widest mb-1">Money In</p>
+                  <p className="text-xl font-black text-emerald-700">${totals.income.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+                </div>
+                <div className="bg-rose-50 p-4 rounded-2xl">
+                  <p className="text-[9px] font-black text-rose-600 uppercase tracking-widest mb-1">Money Out</p>
+                  <p className="text-xl font-black text-rose-700">${totals.expense.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+                </div>
+              </div>
+
+              {result.errors.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 p-4 rounded-2xl space-y-1">
+                  <p className="text-xs font-black text-amber-800 flex items-center gap-2">
+                    <AlertCircle className="w-4 h-4" /> {result.errors.length} rows skipped
+                  </p>
+                  {result.errors.slice(0, 5).map(e => (
+                    <p key={e.row} className="text-[10px] font-bold text-amber-700 pl-6">Row {e.row}: {e.reason}</p>
+                  ))}
+                </div>
+              )}
+
+              <div className="overflow-x-auto border border-slate-100 rounded-2xl">
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="bg-slate-50 text-[9px] font-black uppercase text-slate-400 tracking-widest">
+                      <th className="px-4 py-3">Date</th>
+                      <th className="px-4 py-3">Description</th>
+                      <th className="px-4 py-3 text-right">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {result.transactions.slice(0, 100).map(t => (
+                      <tr key={t.id}>
+                        <td className="px-4 py-2 text-xs font-bold text-slate-500 tabular-nums whitespace-nowrap">{t.date}</td>
+                        <td className="px-4 py-2 text-xs font-black text-slate-800 truncate max-w-[300px]">{t.description}</td>
+                        <td className={`px-4 py-2 text-right text-xs font-black tabular-nums ${t.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-slate-900'}`}>
+                          {t.type === TransactionType.INCOME ? '+' : '-'}${t.amount.toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {result.transactions.length > 100 && (
+                  <p className="text-center py-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                    + {result.transactions.length - 100} more
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-50 flex justify-between items-center shrink-0">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {result.transactions.length} importable · {result.errors.length} skipped
+          </span>
+          <div className="flex gap-3">
+            {step === 'preview' && (
+              <button onClick={() => setStep('map')} className="px-5 py-3 bg-slate-100 text-slate-600 rounded-xl text-xs font-black uppercase tracking-widest hover:bg-slate-200 flex items-center gap-2">
+                <ArrowLeft className="w-4 h-4" /> Back
+              </button>
+            )}
+            {step === 'map' ? (
+              <button
+                onClick={() => setStep('preview')}
+                disabled={result.transactions.length === 0}
+                className="px-5 py-3 bg-slate-900 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-slate-800 disabled:opacity-30 flex items-center gap-2"
+              >
+                Preview <ArrowRight className="w-4 h-4" />
+              </button>
+            ) : (
+              <button
+                onClick={handleImport}
+                disabled={isImporting || result.transactions.length === 0}
+                className="px-5 py-3 bg-indigo-600 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-indigo-500 disabled:opacity-30 flex items-center gap-2"
+              >
+                {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+                Import {result.transactions.length} Records
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportWizard;
@@ -6,6 +6,8 @@ import {
 } from 'recharts';
 import { Transaction, TransactionType } from '../types';
 import { TrendingUp, TrendingDown, DollarSign, Wallet, AlertCircle, CheckCircle2, ShieldAlert } from 'lucide-react';
+import { isTransfer } from '../services/transferService';
+import { expandSplits } from '../services/splitService';
 
 interface DashboardProps {
   transactions: Transaction[];
@@ -21,8 +23,11 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions }) => {
     let totalExpense = 0;
     let uncategorizedCount = 0;
     const categoryTotals: Record<string, number> = {};
+    // Split rows count once per line so each line's category is scored
+    const rows = expandSplits(transactions);
 
-    transactions.forEach(t => {
+    rows.forEach(t => {
+      if (isTransfer(t)) return;
       const isUncategorized = t.category === 'Uncategorized' || !t.categoryId;
       if (isUncategorized) uncategorizedCount++;
 
@@ -34,8 +39,8 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions }) => {
       }
     });
 
-    const healthScore = transactions.length > 0 
-      ? Math.round(((transactions.length - uncategorizedCount) / transactions.length) * 100) 
+    const healthScore = rows.length > 0 
+      ? Math.round(((rows.length - uncategorizedCount) / rows.length) * 100) 
       : 100;
 
     return {
@@ -58,7 +63,7 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions }) => {
     const data: Record<string, { month: string; income: number; expense: number; sortKey: string }> = {};
     
     transactions.forEach(t => {
-      if (!t.date) return;
+      if (!t.date || isTransfer(t)) return;
       
       // Use string slicing YYYY-MM to avoid timezone shifts affecting the month bucket
       const monthKey = t.date.substring(0, 7); // "2023-12"
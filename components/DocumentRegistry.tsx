@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react';
+import { FileText, ExternalLink, Archive } from 'lucide-react';
+import { SourceDocument, Transaction } from '../types';
+import ReconciliationBadge from './ReconciliationBadge';
+
+interface DocumentRegistryProps {
+  documents: SourceDocument[];
+  transactions: Transaction[];
+  onOpen: (doc: SourceDocument) => void;
+  onOverrideReconciliation: (doc: SourceDocument, reason: string) => void;
+}
+
+const DocumentRegistry: React.FC<DocumentRegistryProps> = ({ documents, transactions, onOpen, onOverrideReconciliation }) => {
+  // Counts only rows in the currently loaded ledger view
+  const linkedCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    transactions.forEach(t => {
+      if (t.documentId) counts[t.documentId] = (counts[t.documentId] || 0) + 1;
+    });
+    return counts;
+  }, [transactions]);
+
+  return (
+    <div className="mt-8 bg-white rounded-[2rem] border border-slate-100 shadow-sm overflow-hidden">
+      <div className="px-8 py-5 border-b border-slate-50 flex items-center gap-3">
+        <div className="bg-slate-900 p-2 rounded-xl">
+          <Archive className="w-4 h-4 text-white" />
+        </div>
+        <div>
+          <h3 className="font-black text-slate-800 tracking-tight">Source Documents</h3>
+          <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">{documents.length} on file</p>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50 text-[9px] font-black uppercase text-slate-400 tracking-widest">
+              <th className="px-8 py-3">File</th>
+              <th className="px-4 py-3">Statement Period</th>
+              <th className="px-4 py-3">Account</th>
+              <th className="px-4 py-3 text-right">Pages</th>
+              <th className="px-4 py-3 text-right">Linked Rows</th>
+              <th className="px-4 py-3">Uploaded</th>
+              <th className="px-8 py-3 w-12"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {documents.map(doc => (
+              <tr key={doc.id} className="hover:bg-slate-50/50 transition-all">
+                <td className="px-8 py-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <FileText className="w-4 h-4 text-slate-300 shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-xs font-black text-slate-800 truncate max-w-[240px]">{doc.fileName}</p>
+                      <p className="text-[9px] font-bold text-slate-300 uppercase tracking-tight font-mono" title={doc.hash}>{doc.hash.substring(0, 12)}</p>
+                      {doc.reconciliation && (
+                        <ReconciliationBadge reconciliation={doc.reconciliation} onOverride={(reason) => onOverrideReconciliation(doc, reason)} />
+                      )}
+                    </div>
+                  </div>
+                </td>
+                <td className="px-4 py-3 text-xs font-bold text-slate-500 tabular-nums whitespace-nowrap">
+                  {doc.statementStart ? `${doc.statementStart} → ${doc.statementEnd || '…'}` : '—'}
+                </td>
+                <td className="px-4 py-3 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                  {doc.accountNumber ? `••${doc.accountNumber.slice(-4)}` : '—'}
+                </td>
+                <td className="px-4 py-3 text-xs font-bold text-slate-500 tabular-nums text-right">{doc.pageCount ?? '—'}</td>
+                <td className="px-4 py-3 text-xs font-black text-slate-800 tabular-nums text-right">{linkedCounts[doc.id] || 0}</td>
+                <td className="px-4 py-3 text-xs font-bold text-slate-500 tabular-nums whitespace-nowrap">{doc.uploadedAt.substring(0, 10)}</td>
+                <td className="px-8 py-3">
+                  <button
+                    onClick={() => onOpen(doc)}
+                    disabled={!doc.storagePath}
+                    title={doc.storagePath ? 'Open original' : 'Original file not stored'}
+                    className="p-2 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-300"
+                  >
+                    <ExternalLink size={14} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentRegistry;
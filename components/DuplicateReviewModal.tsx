@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { X, Copy, Loader2, CheckSquare, ShieldAlert, Trash2, CheckCircle2 } from 'lucide-react';
+import { DuplicateMatch, Transaction, TransactionType } from '../types';
+
+interface DuplicateReviewModalProps {
+  isOpen: boolean;
+  mode: 'import' | 'ledger';
+  title: string;
+  matches: DuplicateMatch[];
+  totalCount: number;
+  onConfirm: (dropIds: string[]) => Promise<void> | void;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<DuplicateMatch['reason'], string> = {
+  reference: 'Same Bank Ref',
+  exact: 'Exact Match',
+  probable: 'Probable',
+  document: 'File Imported Before',
+};
+
+const Row: React.FC<{ t: Transaction; muted?: boolean }> = ({ t, muted }) => (
+  <div className={`flex items-center justify-between gap-4 ${muted ? 'opacity-60' : ''}`}>
+    <div className="min-w-0">
+      <p className="text-xs font-black text-slate-800 truncate">{t.description}</p>
+      <p className="text-[9px] font-bold text-slate-400 uppercase tracking-tight tabular-nums">{t.date}{t.externalId ? ` · Ref ${t.externalId}` : ''}</p>
+    </div>
+    <span className={`text-xs font-black tabular-nums shrink-0 ${t.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-slate-900'}`}>
+      {t.type === TransactionType.INCOME ? '+' : '-'}${t.amount.toFixed(2)}
+    </span>
+  </div>
+);
+
+const DuplicateReviewModal: React.FC<DuplicateReviewModalProps> = ({ isOpen, mode, title, matches, totalCount, onConfirm, onClose }) => {
+  const [dropIds, setDropIds] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Confident matches start selected; probable ones need an explicit decision
+  useEffect(() => {
+    setDropIds(new Set(matches.filter(m => m.reason !== 'probable').map(m => m.candidate.id)));
+  }, [matches]);
+
+  if (!isOpen) return null;
+
+  const toggle = (id: string) => {
+    setDropIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm(Array.from(dropIds));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 z-[110] flex items-center justify-center p-4 backdrop-blur-md animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden animate-scale-up border border-slate-100">
+        <div className="px-8 py-6 border-b border-slate-50 flex justify-between items-center shrink-0">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="bg-amber-500 p-2 rounded-xl">
+              <Copy className="w-5 h-5 text-white" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="font-black text-slate-800 tracking-tight truncate">{mode === 'import' ? 'Possible Duplicates' : 'Ledger Duplicate Scan'}</h3>
+              <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest truncate">{title}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-300 hover:text-slate-600 transition-all">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-4 overflow-y-auto">
+          <div className="bg-amber-50 border border-amber-200 p-4 rounded-2xl flex items-start gap-3">
+            <ShieldAlert className="w-5 h-5 text-amber-600 shrink-0 mt-0.5" />
+            <p className="text-xs font-bold text-amber-800 leading-relaxed">
+              {mode === 'import'
+                ? `${matches.length} of ${totalCount} incoming records already appear in the ledger. Checked rows will not be saved.`
+                : `${matches.length} records look like copies of an earlier entry. Checked rows will be deleted.`}
+            </p>
+          </div>
+
+          {matches.length === 0 && (
+            <div className="py-16 text-center">
+              <CheckCircle2 className="w-12 h-12 text-emerald-200 mx-auto mb-4" />
+              <p className="text-slate-400 text-xs font-black uppercase tracking-widest">No duplicates found</p>
+            </div>
+          )}
+
+          {matches.map(m => {
+            const isDropped = dropIds.has(m.candidate.id);
+            return (
+              <div key={m.candidate.id} className={`p-4 rounded-2xl border-2 transition-all ${isDropped ? 'border-amber-200 bg-amber-50/30' : 'border-slate-100'}`}>
+                <div className="flex items-start gap-4">
+                  <button
+                    onClick={() => toggle(m.candidate.id)}
+                    className={`p-1.5 rounded-lg border-2 transition-all shrink-0 ${isDropped ? 'bg-amber-500 border-amber-500 text-white' : 'bg-white border-slate-200 text-transparent'}`}
+                  >
+                    <CheckSquare size={14} />
+                  </button>
+                  <div className="flex-1 min-w-0 space-y-3">
+                    <div className="flex items-center gap-2">
+                      <span className={`text-[8px] px-1.5 py-0.5 rounded font-black uppercase ${m.reason === 'probable' ? 'bg-slate-100 text-slate-500' : 'bg-amber-100 text-amber-700'}`}>
+                        {REASON_LABELS[m.reason]}
+                      </span>
+                      <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{Math.round(m.score * 100)}% confidence</span>
+                    </div>
+                    <Row t={m.candidate} />
+                    {m.original && (
+                      <div className="pl-4 border-l-2 border-slate-100">
+                        <p className="text-[8px] font-black uppercase tracking-widest text-slate-300 mb-1">{mode === 'import' ? 'Already in ledger' : 'Kept original'}</p>
+                        <Row t={m.original} muted />
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-50 flex justify-between items-center shrink-0">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{dropIds.size} selected</span>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-5 py-3 bg-slate-100 text-slate-600 rounded-xl text-xs font-black uppercase tracking-widest hover:bg-slate-200">
+              {mode === 'import' ? 'Cancel Import' : 'Close'}
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={isSaving || (mode === 'ledger' && dropIds.size === 0)}
+              className={`px-5 py-3 text-white rounded-xl text-xs font-black uppercase tracking-widest disabled:opacity-30 flex items-center gap-2 ${mode === 'import' ? 'bg-indigo-600 hover:bg-indigo-500' : 'bg-rose-600 hover:bg-rose-500'}`}
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : mode === 'import' ? <CheckCircle2 className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+              {mode === 'import' ? `Save ${totalCount - dropIds.size} Records` : `Delete ${dropIds.size} Duplicates`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateReviewModal;
@@ -132,7 +132,7 @@ const EntityProfiles: React.FC<EntityProfilesProps> = ({
   const handleUnlinkTransaction = async (t: Transaction) => {
     setAssigningId(t.id);
     try {
-      const updated = { ...t, entityId: undefined, entityName: undefined };
+      const updated = { ...t, entityId: undefined, entityName: t.counterparty };
       await onUpdateTransaction(updated);
       setToast({ message: "Transaction unlinked.", type: 'success' });
     } catch (e) {
@@ -0,0 +1,241 @@
+import React, { useState, useMemo } from 'react';
+import { ArrowLeft, Check, X, CheckCheck, Loader2, FileText, Trash2, Undo2, Eye, Scale } from 'lucide-react';
+import { ProcessingStatus, ExtractedRow, Transaction, TransactionType, Category, BankAccount } from '../types';
+import { accountLabel } from '../services/accountService';
+import { reconcileStatement } from '../services/reconciliationService';
+
+interface ExtractionReviewProps {
+  status: ProcessingStatus;
+  categories: Category[];
+  accounts: BankAccount[];
+  onChangeRows: (rows: ExtractedRow[]) => void;
+  onChangeAccount: (accountId: string | undefined) => void;
+  onCommit: () => Promise<void>;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+const HIGH_CONFIDENCE = 0.9;
+
+const confidenceClass = (c: number) =>
+  c >= HIGH_CONFIDENCE ? 'bg-emerald-50 text-emerald-600' : c >= 0.7 ? 'bg-amber-50 text-amber-600' : 'bg-rose-50 text-rose-600';
+
+const ExtractionReview: React.FC<ExtractionReviewProps> = ({ status, categories, accounts, onChangeRows, onChangeAccount, onCommit, onDiscard, onClose }) => {
+  const [activePage, setActivePage] = useState(1);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const rows = status.stagedRows || [];
+
+  const counts = useMemo(() => ({
+    accepted: rows.filter(r => r.decision === 'accepted').length,
+    rejected: rows.filter(r => r.decision === 'rejected').length,
+    pending: rows.filter(r => r.decision === 'pending').length,
+  }), [rows]);
+
+  // Rows not yet dropped should add up to the statement's printed closing balance
+  const balanceCheck = useMemo(
+    () => reconcileStatement(
+      rows.filter(r => r.decision !== 'rejected').map(r => r.transaction),
+      status.openingBalance,
+      status.closingBalance,
+      accounts.find(a => a.id === status.accountId)
+    ),
+    [rows, status.openingBalance, status.closingBalance, status.accountId, accounts]
+  );
+
+  const updateRow = (index: number, changes: Partial<ExtractedRow>) => {
+    onChangeRows(rows.map((r, i) => (i === index ? { ...r, ...changes } : r)));
+  };
+
+  // Editing a row counts as reviewing it, so it is accepted at the same time
+  const editTransaction = (index: number, changes: Partial<Transaction>) => {
+    const row = rows[index];
+    updateRow(index, { transaction: { ...row.transaction, ...changes }, decision: 'accepted' });
+  };
+
+  const acceptWhere = (predicate: (r: ExtractedRow) => boolean) => {
+    onChangeRows(rows.map(r => (r.decision === 'pending' && predicate(r) ? { ...r, decision: 'accepted' } : r)));
+  };
+
+  const handleCommit = async () => {
+    setIsCommitting(true);
+    try {
+      await onCommit();
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const isPdf = status.fileType === 'application/pdf' || status.fileName.toLowerCase().endsWith('.pdf');
+  const cellInput = "w-full bg-transparent border border-transparent hover:border-slate-200 focus:border-indigo-500 rounded-lg px-2 py-1.5 text-xs font-bold text-slate-800 outline-none";
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-white rounded-3xl p-6 border border-slate-100 shadow-sm flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div className="flex items-center gap-4 min-w-0">
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 transition-all">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div className="min-w-0">
+            <h3 className="font-black text-slate-800 tracking-tight truncate">{status.fileName}</h3>
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+              <span className="text-emerald-600">{counts.accepted} accepted</span> · {counts.pending} pending · <span className="text-rose-500">{counts.rejected} dropped</span>
+            </p>
+            {balanceCheck && (
+              <p className={`text-[10px] font-black uppercase tracking-widest mt-1 flex items-center gap-1.5 ${balanceCheck.status === 'passed' ? 'text-emerald-600' : 'text-rose-500'}`}>
+                <Scale className="w-3 h-3" />
+                {balanceCheck.status === 'passed'
+                  ? 'Rows match closing balance'
+                  : `Off by $${balanceCheck.discrepancy.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} vs closing balance`}
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={status.accountId || ''}
+            onChange={(e) => onChangeAccount(e.target.value || undefined)}
+            className="px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 outline-none cursor-pointer"
+          >
+            <option value="">No Bank Account</option>
+            {accounts.map(a => <option key={a.id} value={a.id}>{accountLabel(a)}</option>)}
+          </select>
+          <button onClick={() => acceptWhere(r => r.confidence >= HIGH_CONFIDENCE)} className="px-4 py-2.5 bg-emerald-50 text-emerald-700 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-emerald-100 transition flex items-center gap-2">
+            <Check className="w-3.5 h-3.5" /> Accept ≥ {Math.round(HIGH_CONFIDENCE * 100)}%
+          </button>
+          <button onClick={() => acceptWhere(() => true)} className="px-4 py-2.5 bg-slate-100 text-slate-700 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition flex items-center gap-2">
+            <CheckCheck className="w-3.5 h-3.5" /> Accept All
+          </button>
+          <button onClick={onDiscard} className="px-4 py-2.5 bg-rose-50 text-rose-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-rose-100 transition flex items-center gap-2">
+            <Trash2 className="w-3.5 h-3.5" /> Discard
+          </button>
+          <button
+            onClick={handleCommit}
+            disabled={isCommitting || counts.accepted === 0}
+            className="px-4 py-2.5 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 disabled:opacity-30 transition flex items-center gap-2"
+          >
+            {isCommitting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <CheckCheck className="w-3.5 h-3.5" />}
+            Save {counts.accepted} to Ledger
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {/* Extracted Rows */}
+        <div className="bg-white rounded-[2rem] border border-slate-100 shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="bg-slate-50 text-[9px] font-black uppercase text-slate-400 tracking-widest">
+                  <th className="px-3 py-3">Conf.</th>
+                  <th className="px-3 py-3">Date</th>
+                  <th className="px-3 py-3 min-w-[180px]">Description</th>
+                  <th className="px-3 py-3">Account</th>
+                  <th className="px-3 py-3 text-right">Amount</th>
+                  <th className="px-3 py-3 w-20"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {rows.map((row, i) => {
+                  const t = row.transaction;
+                  return (
+                    <tr
+                      key={t.id}
+                      onClick={() => row.page && setActivePage(row.page)}
+                      className={`transition-all ${row.decision === 'rejected' ? 'opacity-40' : ''} ${row.decision === 'accepted' ? 'bg-emerald-50/30' : ''}`}
+                    >
+                      <td className="px-3 py-2">
+                        <span className={`text-[9px] px-1.5 py-0.5 rounded font-black tabular-nums ${confidenceClass(row.confidence)}`}>
+                          {Math.round(row.confidence * 100)}%
+                        </span>
+                        {row.page && <p className="text-[8px] font-black text-slate-300 uppercase mt-1">p.{row.page}</p>}
+                      </td>
+                      <td className="px-1 py-2">
+                        <input type="date" className={`${cellInput} tabular-nums`} value={t.date} onChange={e => editTransaction(i, { date: e.target.value })} />
+                      </td>
+                      <td className="px-1 py-2">
+                        <input className={cellInput} value={t.description} onChange={e => editTransaction(i, { description: e.target.value })} />
+                      </td>
+                      <td className="px-1 py-2">
+                        <select
+                          className={`${cellInput} uppercase text-[10px] cursor-pointer`}
+                          value={t.category}
+                          onChange={e => {
+                            const cat = categories.find(c => c.name === e.target.value);
+                            editTransaction(i, { category: e.target.value, categoryId: cat?.id });
+                          }}
+                        >
+                          {!categories.some(c => c.name === t.category) && <option value={t.category}>{t.category}</option>}
+                          {categories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+                        </select>
+                      </td>
+                      <td className="px-1 py-2">
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={() => editTransaction(i, { type: t.type === TransactionType.INCOME ? TransactionType.EXPENSE : TransactionType.INCOME })}
+                            className={`text-xs font-black w-4 ${t.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-slate-900'}`}
+                          >
+                            {t.type === TransactionType.INCOME ? '+' : '-'}
+                          </button>
+                          <input
+                            type="number"
+                            step="0.01"
+                            className={`${cellInput} text-right tabular-nums w-24`}
+                            value={t.amount}
+                            onChange={e => editTransaction(i, { amount: Math.abs(parseFloat(e.target.value) || 0) })}
+                          />
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="flex justify-end gap-1">
+                          {row.decision === 'pending' ? (
+                            <>
+                              <button onClick={() => updateRow(i, { decision: 'accepted' })} className="p-1.5 text-slate-300 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all">
+                                <Check size={14} />
+                              </button>
+                              <button onClick={() => updateRow(i, { decision: 'rejected' })} className="p-1.5 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-all">
+                                <X size={14} />
+                              </button>
+                            </>
+                          ) : (
+                            <button onClick={() => updateRow(i, { decision: 'pending' })} className="p-1.5 text-slate-300 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-all">
+                              <Undo2 size={14} />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {rows.length === 0 && (
+              <div className="py-20 text-center">
+                <FileText className="w-12 h-12 text-slate-100 mx-auto mb-4" />
+                <p className="text-slate-400 text-xs font-black uppercase tracking-widest">Nothing was extracted</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Source Document */}
+        <div className="bg-white rounded-[2rem] border border-slate-100 shadow-sm overflow-hidden xl:sticky xl:top-0 h-[70vh] flex flex-col">
+          <div className="px-6 py-3 border-b border-slate-50 flex items-center justify-between">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2"><Eye className="w-3.5 h-3.5" /> Source</span>
+            {isPdf && <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Page {activePage}</span>}
+          </div>
+          {!status.data ? (
+            <div className="flex-1 flex items-center justify-center text-[10px] font-black uppercase tracking-widest text-slate-300">Source not available</div>
+          ) : isPdf ? (
+            <iframe key={activePage} src={`${status.data}#page=${activePage}`} title={status.fileName} className="flex-1 w-full" />
+          ) : (
+            <div className="flex-1 overflow-auto p-4 bg-slate-50">
+              <img src={status.data} alt={status.fileName} className="max-w-full mx-auto shadow-lg" />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExtractionReview;
@@ -1,14 +1,21 @@
 
 import React, { useEffect, useState, useMemo } from 'react';
-import { Filter, X, Search, Calendar, Settings, ChevronDown, Loader2, RefreshCw, Terminal, Cloud } from 'lucide-react';
-import { TransactionFilter, Category } from '../types';
+import { Filter, X, Search, Calendar, Settings, ChevronDown, Loader2, RefreshCw, Terminal, Cloud, Landmark } from 'lucide-react';
+import { TransactionFilter, Category, BankAccount, DatePreset, UNASSIGNED_ACCOUNT } from '../types';
+import { accountLabel } from '../services/accountService';
+import { DATE_PRESET_LABELS, MONTH_NAMES, presetRange } from '../services/fiscalService';
 
 interface FilterBarProps {
   filters: TransactionFilter;
   categories: Category[];
+  accounts: BankAccount[];
   onFilterChange: (filters: TransactionFilter) => void;
+  // Month the fiscal year starts in, 1-12; drives the YTD, quarter and fiscal year presets
+  fiscalYearStart: number;
+  onFiscalYearStartChange: (month: number) => void;
   onClear: () => void;
   onOpenCategoryManager: () => void;
+  onOpenAccountManager: () => void;
   totalCount: number;
   filteredCount: number;
   isLoading?: boolean;
@@ -17,9 +24,13 @@ interface FilterBarProps {
 const FilterBar: React.FC<FilterBarProps> = ({ 
   filters, 
   categories, 
+  accounts,
   onFilterChange, 
+  fiscalYearStart,
+  onFiscalYearStartChange,
   onClear, 
   onOpenCategoryManager,
+  onOpenAccountManager,
   totalCount,
   filteredCount,
   isLoading = false
@@ -45,6 +56,21 @@ const FilterBar: React.FC<FilterBarProps> = ({
     });
   };
 
+  const applyPreset = (preset: DatePreset, startMonth = fiscalYearStart) => {
+    const range = preset === 'custom' ? { startDate: filters.startDate, endDate: filters.endDate } : presetRange(preset, startMonth);
+    onFilterChange({ ...filters, ...range, preset, search: localSearch, minAmount: localMin, maxAmount: localMax });
+  };
+
+  // Editing a date by hand leaves the preset behind
+  const handleDate = (key: 'startDate' | 'endDate', value: string) => {
+    onFilterChange({ ...filters, [key]: value, preset: 'custom', search: localSearch, minAmount: localMin, maxAmount: localMax });
+  };
+
+  const handleFiscalYearStart = (month: number) => {
+    onFiscalYearStartChange(month);
+    if (filters.preset && filters.preset !== 'custom') applyPreset(filters.preset, month);
+  };
+
   useEffect(() => {
     const timer = setTimeout(() => {
       if (
@@ -58,7 +84,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
     return () => clearTimeout(timer);
   }, [localSearch, localMin, localMax, filters, onFilterChange]);
 
-  const hasActiveFilters = Object.values(filters).some(v => v !== '');
+  const hasActiveFilters = Object.values(filters).some(v => !!v);
   const inputBase = "w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2.5 text-sm font-bold text-slate-900 outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all disabled:opacity-50 placeholder:text-slate-400";
 
   return (
@@ -107,19 +133,44 @@ const FilterBar: React.FC<FilterBarProps> = ({
         </div>
 
         <div className={`${isExpanded ? 'block' : 'hidden'} md:block space-y-4`}>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap gap-1.5">
+              {(Object.keys(DATE_PRESET_LABELS) as DatePreset[]).map(preset => (
+                <button
+                  key={preset}
+                  onClick={() => applyPreset(preset)}
+                  disabled={isLoading}
+                  className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition disabled:opacity-50 ${filters.preset === preset ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+                >
+                  {DATE_PRESET_LABELS[preset]}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-400">
+              <Calendar className="w-3.5 h-3.5" /> Fiscal year starts
+              <select
+                value={fiscalYearStart}
+                onChange={(e) => handleFiscalYearStart(Number(e.target.value))}
+                className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-[10px] font-black text-slate-700 outline-none focus:border-indigo-500 cursor-pointer"
+              >
+                {MONTH_NAMES.map((name, i) => <option key={name} value={i + 1}>{name}</option>)}
+              </select>
+            </label>
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-12 gap-4">
-            <div className="md:col-span-4">
+            <div className="md:col-span-3">
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-300" />
                 <input type="text" placeholder="Search description..." className={`${inputBase} pl-9`} value={localSearch} onChange={(e) => setLocalSearch(e.target.value)} disabled={isLoading} />
               </div>
             </div>
 
-            <div className="md:col-span-5">
+            <div className="md:col-span-4">
               <div className="flex items-center gap-2">
-                <input type="date" className={inputBase} value={filters.startDate} onChange={(e) => handleImmediate('startDate', e.target.value)} disabled={isLoading} />
+                <input type="date" className={inputBase} value={filters.startDate} onChange={(e) => handleDate('startDate', e.target.value)} disabled={isLoading} />
                 <span className="text-slate-300 font-black text-[9px]">TO</span>
-                <input type="date" className={inputBase} value={filters.endDate} onChange={(e) => handleImmediate('endDate', e.target.value)} disabled={isLoading} />
+                <input type="date" className={inputBase} value={filters.endDate} onChange={(e) => handleDate('endDate', e.target.value)} disabled={isLoading} />
               </div>
             </div>
 
@@ -137,6 +188,22 @@ const FilterBar: React.FC<FilterBarProps> = ({
                 </button>
               </div>
             </div>
+
+            <div className="md:col-span-2">
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <select className={`${inputBase} appearance-none pr-10 cursor-pointer`} value={filters.accountId || ''} onChange={(e) => handleImmediate('accountId', e.target.value)} disabled={isLoading}>
+                    <option value="">All Banks</option>
+                    <option value={UNASSIGNED_ACCOUNT}>Unassigned</option>
+                    {accounts.map(a => <option key={a.id} value={a.id}>{accountLabel(a)}</option>)}
+                  </select>
+                  <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-300 pointer-events-none" />
+                </div>
+                <button onClick={onOpenAccountManager} title="Bank accounts" className="p-2.5 bg-slate-50 border border-slate-200 text-slate-400 hover:text-indigo-600 rounded-xl transition-colors shrink-0">
+                  <Landmark className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
           </div>
         </div>
       </div>
@@ -1,65 +1,197 @@
-import React, { useState, useMemo, useRef } from 'react';
-import { ProfitLossStatement, BalanceSheet } from './FinancialStatements';
-import { Transaction, BalanceSheetAdjustment, TransactionType, Category, TransactionFilter } from '../types';
+import React, { useState, useMemo } from 'react';
+import { ProfitLossStatement, BalanceSheet, CashFlowStatement, TrialBalanceReport, GeneralLedgerReport, ComparativeStatement } from './FinancialStatements';
+import { Transaction, TransactionType, Category, TransactionFilter, BankAccount, JournalEntry, FixedAsset, Loan, LenderMetricId, MetricThreshold, ComparativePeriodSet, ReportSnapshot, EntityProfile, SourceDocument, PackageLayout, PackageSectionId } from '../types';
 import { generateFinancialNarrative } from '../services/geminiService';
-import { FileBadge, Printer, Sparkles, Loader2, ShieldCheck, CheckCircle2, Landmark, Edit2, Calendar, Download } from 'lucide-react';
+import { isTransfer } from '../services/transferService';
+import { expandSplits } from '../services/splitService';
+import { withReversals, entriesInRange, buildJournal, buildTrialBalance, buildGeneralLedger, compareAccounts, TRANSFER_CLEARING } from '../services/journalService';
+import { depreciationEntries } from '../services/depreciationService';
+import { applyLoanSplits, currentPortionsByAccount } from '../services/loanService';
+import { computeLenderMetrics } from '../services/lenderMetricsService';
+import { PERIOD_SET_LABELS, buildComparativePeriods, comparativeProfitAndLoss, comparativeBalanceSheet } from '../services/comparativeService';
+import { buildCashFlow, cashAccountNames } from '../services/cashFlowService';
+import { describePeriod, formatLongDate, MONTH_NAMES } from '../services/fiscalService';
+import { profitAndLoss, balanceSheet } from '../services/statementService';
+import { createSnapshot, snapshotFigures } from '../services/snapshotService';
+import { topCounterparties, documentsInPeriod, lenderMetricsSection, counterpartiesSection, documentIndexSection } from '../services/loanPackageService';
+import { PdfSection, buildReportPdf, downloadPdf, pdfFileName, profitAndLossSection, balanceSheetSection, cashFlowSection, narrativeSection, trialBalanceSection, generalLedgerSection, comparativeSection } from '../services/reportPdfService';
+import LenderMetricsPanel from './LenderMetricsPanel';
+import ReportSnapshots from './ReportSnapshots';
+import LoanPackageBuilder from './LoanPackageBuilder';
+import { FileBadge, Printer, Sparkles, Loader2, ShieldCheck, CheckCircle2, Landmark, Edit2, Calendar, Download, AlertTriangle } from 'lucide-react';
 
 interface FinancialReportProps {
-  view: 'pnl' | 'balance_sheet';
+  view: 'pnl' | 'balance_sheet' | 'cash_flow' | 'trial_balance' | 'general_ledger';
+  // The whole ledger, not the filtered view; each report applies the date window itself
   transactions: Transaction[];
   categories?: Category[];
+  accounts?: BankAccount[];
   filters: TransactionFilter;
+  // Month the fiscal year starts in, 1-12
+  fiscalYearStart?: number;
+  // Statements whose balances do not add up and have not been signed off
+  unreconciledDocuments?: string[];
+  onResolveDocuments?: () => void;
   businessName: string;
   onUpdateBusinessName: (name: string) => void;
-  bsAdjustments: BalanceSheetAdjustment[];
+  journalEntries?: JournalEntry[];
+  fixedAssets?: FixedAsset[];
+  loans?: Loan[];
+  lenderThresholds: Record<LenderMetricId, MetricThreshold>;
+  onChangeLenderThresholds: (thresholds: Record<LenderMetricId, MetricThreshold>) => void;
   bsOverrides: Record<string, number>;
-  onAddAdjustment: (adj: BalanceSheetAdjustment) => void;
-  onRemoveAdjustment: (id: string) => void;
   onOverride: (cat: string, val: number | undefined) => void;
+  snapshots?: ReportSnapshot[];
+  onFinalizeReport?: (snapshot: ReportSnapshot) => Promise<void>;
+  profiles?: EntityProfile[];
+  documents?: SourceDocument[];
+  // Original file bytes for the package appendix; null when the file was never stored
+  onLoadDocument?: (doc: SourceDocument) => Promise<Uint8Array | null>;
 }
 
 const FinancialReport: React.FC<FinancialReportProps> = ({
   view,
   transactions,
   categories = [],
+  accounts = [],
   filters,
+  fiscalYearStart = 1,
+  unreconciledDocuments = [],
+  onResolveDocuments,
   businessName,
   onUpdateBusinessName,
-  bsAdjustments,
+  journalEntries = [],
+  fixedAssets = [],
+  loans = [],
+  lenderThresholds,
+  onChangeLenderThresholds,
   bsOverrides,
-  onAddAdjustment,
-  onRemoveAdjustment,
-  onOverride
+  onOverride,
+  snapshots = [],
+  onFinalizeReport,
+  profiles = [],
+  documents = [],
+  onLoadDocument
 }) => {
   const [narrative, setNarrative] = useState<string>('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [isEditingName, setIsEditingName] = useState(false);
   const [tempName, setTempName] = useState(businessName);
   const [isDownloading, setIsDownloading] = useState(false);
-  
-  const reportRef = useRef<HTMLDivElement>(null);
+  const [periodSet, setPeriodSet] = useState<ComparativePeriodSet | ''>('');
+
+  // Loan payments are split over the full history so interest follows the running balance
+  const loanAdjusted = useMemo(() => applyLoanSplits(transactions, loans), [transactions, loans]);
+
+  const currentPortions = useMemo(
+    () => currentPortionsByAccount(loans, transactions, filters.endDate || undefined),
+    [loans, transactions, filters.endDate]
+  );
 
   // Filter Logic specific to report type
   const filteredTransactions = useMemo(() => {
-    return transactions.filter(t => {
+    return loanAdjusted.filter(t => {
       // String comparison for dates (YYYY-MM-DD) is safer and avoids timezone dropping
       if (view === 'pnl') {
         if (filters.startDate && t.date < filters.startDate) return false;
         if (filters.endDate && t.date > filters.endDate) return false;
       } else {
-        // Balance Sheet: As of End Date
+        // Balance Sheet and ledger reports: As of End Date
         if (filters.endDate && t.date > filters.endDate) return false;
       }
       return true;
     });
-  }, [transactions, filters, view]);
+  }, [loanAdjusted, filters, view]);
+
+  // Manual entries use the same window as the transactions, including automatic reversals.
+  // Depreciation is charged for every month ended so far.
+  const adjustingEntries = useMemo(
+    () => [...withReversals(journalEntries), ...depreciationEntries(fixedAssets, new Date().toISOString().split('T')[0])],
+    [journalEntries, fixedAssets]
+  );
+
+  const periodEntries = useMemo(() => {
+    return view === 'pnl'
+      ? entriesInRange(adjustingEntries, filters.startDate, filters.endDate)
+      : entriesInRange(adjustingEntries, undefined, filters.endDate);
+  }, [adjustingEntries, filters, view]);
+
+  const lenderMetrics = useMemo(() => {
+    const to = filters.endDate || new Date().toISOString().split('T')[0];
+    const entries = buildJournal({
+      transactions: loanAdjusted.filter(t => t.date <= to),
+      categories,
+      accounts,
+      manualEntries: entriesInRange(adjustingEntries, undefined, to),
+    });
+    return computeLenderMetrics({
+      entries,
+      from: filters.startDate || undefined,
+      to,
+      loans,
+      currentPortions,
+      cashAccounts: cashAccountNames(accounts),
+      thresholds: lenderThresholds,
+    });
+  }, [loanAdjusted, categories, accounts, adjustingEntries, filters, loans, currentPortions, lenderThresholds]);
+
+  // Both statements as currently shown, independent of which one is on screen
+  const statements = useMemo(() => {
+    const { startDate, endDate } = filters;
+    const inPeriod = (date: string) => (!startDate || date >= startDate) && (!endDate || date <= endDate);
+    const pnl = profitAndLoss(buildJournal({
+      transactions: loanAdjusted.filter(t => inPeriod(t.date)),
+      categories,
+      manualEntries: entriesInRange(adjustingEntries, startDate, endDate),
+    }));
+    const toDate = buildJournal({
+      transactions: loanAdjusted.filter(t => !endDate || t.date <= endDate),
+      categories,
+      accounts,
+      manualEntries: entriesInRange(adjustingEntries, undefined, endDate),
+    });
+    const bs = balanceSheet(toDate, { accounts, overrides: bsOverrides, currentPortions });
+    // Cash flow needs the history before the window too, for beginning cash
+    return { pnl, bs, cashFlow: buildCashFlow(toDate, accounts, startDate || undefined, endDate || undefined) };
+  }, [loanAdjusted, categories, accounts, adjustingEntries, filters, bsOverrides, currentPortions]);
+
+  const liveFigures = useMemo(() => snapshotFigures(statements.pnl, statements.bs), [statements]);
+
+  const businessSnapshots = useMemo(() => snapshots.filter(s => s.businessName === businessName), [snapshots, businessName]);
+
+  const handleFinalize = async () => {
+    if (!onFinalizeReport) return;
+    const snapshot = await createSnapshot({
+      businessName,
+      period: describePeriod(filters.startDate, filters.endDate, 'activity'),
+      filters,
+      figures: liveFigures,
+      adjustments: entriesInRange(adjustingEntries, undefined, filters.endDate),
+      overrides: bsOverrides,
+      narrative: narrative || undefined,
+    });
+    await onFinalizeReport(snapshot);
+  };
+
+  const canCompare = view === 'pnl' || view === 'balance_sheet';
+
+  // Comparative columns ignore the start date and run back from the end date over the whole
+  // ledger; only the current column follows the filter window
+  const comparative = useMemo(() => {
+    if (!periodSet || !canCompare) return null;
+    const periods = buildComparativePeriods(periodSet, filters.endDate || new Date().toISOString().split('T')[0], fiscalYearStart);
+    const entries = buildJournal({ transactions: loanAdjusted, categories, accounts, manualEntries: adjustingEntries });
+    const data = view === 'pnl' ? comparativeProfitAndLoss(entries, periods) : comparativeBalanceSheet(entries, periods);
+    return { periods, ...data };
+  }, [periodSet, canCompare, view, filters.endDate, fiscalYearStart, loanAdjusted, categories, accounts, adjustingEntries]);
 
   const summaryData = useMemo(() => {
     let totalIncome = 0;
     let totalExpense = 0;
     const expenseCats: Record<string, number> = {};
 
-    filteredTransactions.forEach(t => {
+    expandSplits(filteredTransactions).forEach(t => {
+      if (isTransfer(t)) return;
       if (t.type === TransactionType.INCOME) {
         totalIncome += t.amount;
       } else {
@@ -79,7 +211,7 @@ const FinancialReport: React.FC<FinancialReportProps> = ({
   const handleGenerateNarrative = async () => {
     setIsGenerating(true);
     try {
-      const text = await generateFinancialNarrative(summaryData);
+      const text = await generateFinancialNarrative({ ...summaryData, metrics: lenderMetrics });
       setNarrative(text);
     } catch (err) {
       console.error(err);
@@ -95,45 +227,133 @@ const FinancialReport: React.FC<FinancialReportProps> = ({
     setIsEditingName(false);
   };
 
+  const isBlocked = unreconciledDocuments.length > 0;
+
+  // The statement views export the memo and both statements as one pack; the others export what is on screen
+  const pdfSections = (): PdfSection[] => {
+    const period = describePeriod(filters.startDate, filters.endDate, 'activity');
+    const asOf = describePeriod(filters.startDate, filters.endDate, 'balance');
+    const entries = () => buildJournal({ transactions: filteredTransactions, categories, accounts, manualEntries: periodEntries });
+
+    if (comparative) {
+      return [comparativeSection({
+        title: view === 'pnl' ? 'Comparative Profit & Loss' : 'Comparative Balance Sheet',
+        period: `${PERIOD_SET_LABELS[periodSet as ComparativePeriodSet]} through ${formatLongDate(comparative.periods[comparative.periods.length - 1].to)}`,
+        periods: comparative.periods,
+        sections: comparative.sections,
+        netLabel: view === 'pnl' ? 'Net Operating Income' : 'Total Liab. & Equity',
+        net: comparative.net,
+        showTotal: periodSet === 'monthly',
+        showVariance: periodSet !== 'monthly',
+      })];
+    }
+    switch (view) {
+      case 'cash_flow':
+        return [cashFlowSection(statements.cashFlow, period)];
+      case 'trial_balance':
+        return [trialBalanceSection(
+          buildTrialBalance(entries()).filter(r => r.account !== TRANSFER_CLEARING || r.debit !== 0 || r.credit !== 0).sort(compareAccounts),
+          asOf
+        )];
+      case 'general_ledger':
+        return [generalLedgerSection(buildGeneralLedger(entries(), filters.startDate || undefined), period)];
+      default:
+        return [
+          ...(narrative ? [narrativeSection(narrative)] : []),
+          profitAndLossSection(statements.pnl, period),
+          balanceSheetSection(statements.bs, asOf),
+        ];
+    }
+  };
+
   const handleDownloadPDF = async () => {
-    if (!reportRef.current) return;
-    
-    // Set loading state immediately to show UI feedback
+    if (isBlocked) return;
     setIsDownloading(true);
+    try {
+      const sections = pdfSections();
+      const isPack = sections.length > 1;
+      const bytes = await buildReportPdf({ businessName, title: isPack ? 'Financial Statements' : sections[0].title, sections });
+      downloadPdf(bytes, pdfFileName(businessName, isPack ? 'financial_statements' : view));
+    } catch (e) {
+      console.error("PDF Generation failed", e);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
 
-    // Defer the heavy PDF generation to the next tick to allow the UI (spinner) to update first
-    setTimeout(async () => {
-      try {
-        const element = reportRef.current;
-        // @ts-ignore
-        if (typeof window.html2pdf !== 'undefined') {
-            const opt = {
-              margin: 0.5,
-              filename: `${businessName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_${view}.pdf`,
-              image: { type: 'jpeg', quality: 0.98 },
-              // Optimized scale to 1.5 (down from 2) for significantly faster generation while maintaining readability
-              html2canvas: { scale: 1.5, useCORS: true, logging: false },
-              jsPDF: { unit: 'in', format: 'letter', orientation: 'portrait' }
-            };
-            // @ts-ignore
-            await window.html2pdf().from(element).set(opt).save();
-        } else {
-            window.print();
+  const packageDocuments = useMemo(
+    () => documentsInPeriod(documents, filters.startDate, filters.endDate),
+    [documents, filters.startDate, filters.endDate]
+  );
+
+  const handleExportPackage = async (layout: PackageLayout, documentIds: string[]) => {
+    if (isBlocked) return;
+    const period = describePeriod(filters.startDate, filters.endDate, 'activity');
+    const asOf = describePeriod(filters.startDate, filters.endDate, 'balance');
+    const appendix = packageDocuments.filter(d => documentIds.includes(d.id));
+
+    const build: Record<PackageSectionId, () => Promise<PdfSection[]>> = {
+      memo: async () => narrative ? [narrativeSection(narrative)] : [],
+      pnl: async () => [profitAndLossSection(statements.pnl, period)],
+      balance_sheet: async () => [balanceSheetSection(statements.bs, asOf)],
+      cash_flow: async () => [cashFlowSection(statements.cashFlow, period)],
+      lender_metrics: async () => [lenderMetricsSection(lenderMetrics, lenderThresholds, period)],
+      counterparties: async () => {
+        const inPeriod = loanAdjusted.filter(t => (!filters.startDate || t.date >= filters.startDate) && (!filters.endDate || t.date <= filters.endDate));
+        return [counterpartiesSection(
+          topCounterparties(inPeriod, profiles, TransactionType.INCOME),
+          topCounterparties(inPeriod, profiles, TransactionType.EXPENSE),
+          period
+        )];
+      },
+      documents: async () => {
+        if (appendix.length === 0) return [];
+        const originals: PdfSection[] = [];
+        // One at a time to keep memory down on large statements
+        for (const doc of appendix) {
+          originals.push({
+            kind: 'document',
+            title: `Appendix: ${doc.fileName}`,
+            period: doc.statementStart && doc.statementEnd ? `${doc.statementStart} to ${doc.statementEnd}` : undefined,
+            fileType: doc.fileType,
+            bytes: onLoadDocument ? await onLoadDocument(doc) : null,
+          });
         }
-      } catch (e) {
-        console.error("PDF Generation failed", e);
-      } finally {
-        setIsDownloading(false);
-      }
-    }, 100);
+        return [documentIndexSection(appendix), ...originals];
+      },
+    };
+
+    const sections: PdfSection[] = [];
+    for (const { id, enabled } of layout.sections) {
+      if (enabled) sections.push(...await build[id]());
+    }
+
+    const bankAccounts = accounts.map(a => [a.name, a.institution, a.last4 && `...${a.last4}`].filter(Boolean).join(' '));
+    const bytes = await buildReportPdf({
+      businessName,
+      title: 'Loan Package',
+      sections,
+      contents: layout.contents,
+      cover: layout.cover ? {
+        title: 'Loan Package',
+        subtitle: 'Financial statements and supporting documents',
+        details: [
+          { label: 'Reporting Period', value: period },
+          { label: 'Balance Sheet', value: asOf },
+          { label: 'Fiscal Year', value: `Begins ${MONTH_NAMES[fiscalYearStart - 1]}` },
+          ...(bankAccounts.length ? [{ label: 'Bank Accounts', value: bankAccounts.join(', ') }] : []),
+          ...(appendix.length ? [{ label: 'Source Documents', value: `${appendix.length} statement${appendix.length > 1 ? 's' : ''} in the appendix` }] : []),
+        ],
+      } : undefined,
+    });
+    downloadPdf(bytes, pdfFileName(businessName, 'loan_package'));
   };
 
-  const activeDateRange = useMemo(() => {
-    if (filters.startDate && filters.endDate) return `${filters.startDate} to ${filters.endDate}`;
-    if (filters.startDate) return `Since ${filters.startDate}`;
-    if (filters.endDate) return `Up to ${filters.endDate}`;
-    return 'All Time';
-  }, [filters]);
+  // Balances are stated at a date; activity covers the filtered period
+  const activeDateRange = useMemo(
+    () => describePeriod(filters.startDate, filters.endDate, view === 'balance_sheet' || view === 'trial_balance' ? 'balance' : 'activity'),
+    [filters.startDate, filters.endDate, view]
+  );
 
   return (
     <div className="max-w-5xl mx-auto space-y-8 pb-24 print:pb-0 print:space-y-0">
@@ -171,6 +391,18 @@ const FinancialReport: React.FC<FinancialReportProps> = ({
           </div>
 
           <div className="flex flex-wrap gap-3">
+             {canCompare && (
+                <select
+                  value={periodSet}
+                  onChange={(e) => setPeriodSet(e.target.value as ComparativePeriodSet | '')}
+                  className="px-4 py-3 bg-white border border-slate-200 rounded-xl text-xs font-black uppercase tracking-widest text-slate-600 outline-none focus:border-indigo-500"
+                >
+                  <option value="">Single Period</option>
+                  {(Object.keys(PERIOD_SET_LABELS) as ComparativePeriodSet[])
+                    .filter(set => set !== 'monthly' || view === 'pnl')
+                    .map(set => <option key={set} value={set}>{PERIOD_SET_LABELS[set]}</option>)}
+                </select>
+             )}
              {view === 'pnl' && (
                 <button 
                   onClick={handleGenerateNarrative}
@@ -183,8 +415,9 @@ const FinancialReport: React.FC<FinancialReportProps> = ({
              )}
              <button 
                 onClick={handleDownloadPDF}
-                disabled={isDownloading}
-                className="flex items-center px-5 py-3 bg-slate-900 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-slate-800 transition active:scale-95 shadow-lg shadow-slate-200"
+                disabled={isDownloading || isBlocked}
+                title={isBlocked ? 'Resolve unreconciled statements first' : undefined}
+                className="flex items-center px-5 py-3 bg-slate-900 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-slate-800 disabled:opacity-30 transition active:scale-95 shadow-lg shadow-slate-200"
              >
                {isDownloading ? <Loader2 className="w-3.5 h-3.5 mr-2 animate-spin" /> : <Download className="w-3.5 h-3.5 mr-2" />}
                PDF
@@ -193,12 +426,92 @@ const FinancialReport: React.FC<FinancialReportProps> = ({
         </div>
       </div>
 
+      {isBlocked && (
+        <div className="bg-rose-50 border border-rose-200 p-5 rounded-2xl flex items-start gap-3 print:hidden">
+          <AlertTriangle className="w-5 h-5 text-rose-600 shrink-0 mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <p className="text-xs font-black text-rose-800 uppercase tracking-tight">Loan package blocked</p>
+            <p className="text-xs font-bold text-rose-700 mt-1 leading-relaxed">
+              {unreconciledDocuments.length} statement{unreconciledDocuments.length > 1 ? 's do' : ' does'} not reconcile to the printed closing balance: {unreconciledDocuments.join(', ')}. Fix the extracted rows or sign off the difference before exporting.
+            </p>
+          </div>
+          {onResolveDocuments && (
+            <button onClick={onResolveDocuments} className="px-4 py-2 bg-rose-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-rose-500 shrink-0">
+              Resolve
+            </button>
+          )}
+        </div>
+      )}
+
+      {(view === 'pnl' || view === 'balance_sheet') && (
+        <LenderMetricsPanel metrics={lenderMetrics} thresholds={lenderThresholds} onChangeThresholds={onChangeLenderThresholds} />
+      )}
+
+      {(view === 'pnl' || view === 'balance_sheet') && onFinalizeReport && (
+        <ReportSnapshots snapshots={businessSnapshots} liveFigures={liveFigures} onFinalize={handleFinalize} isBlocked={isBlocked} />
+      )}
+
+      {view === 'pnl' && (
+        <LoanPackageBuilder documents={packageDocuments} hasNarrative={!!narrative} onExport={handleExportPackage} isBlocked={isBlocked} />
+      )}
+
+      {view === 'pnl' && narrative && (
+        <div className="bg-indigo-50/50 rounded-3xl p-8 border border-indigo-100 print:hidden">
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-indigo-600 flex items-center gap-2 mb-4">
+            <Sparkles className="w-3.5 h-3.5" /> AI Credit Memo
+          </h3>
+          <div className="text-sm font-medium text-slate-700 leading-relaxed whitespace-pre-line">{narrative}</div>
+        </div>
+      )}
+
       {/* Printable Report Area */}
-      <div ref={reportRef} className="bg-white print:bg-white">
-        {view === 'pnl' ? (
+      <div className="bg-white print:bg-white">
+        {comparative ? (
+          <ComparativeStatement
+            title={view === 'pnl' ? 'Comparative Profit & Loss' : 'Comparative Balance Sheet'}
+            periods={comparative.periods}
+            sections={comparative.sections}
+            netLabel={view === 'pnl' ? 'Net Operating Income' : 'Total Liab. & Equity'}
+            net={comparative.net}
+            showTotal={periodSet === 'monthly'}
+            showVariance={periodSet !== 'monthly'}
+            businessName={businessName}
+            dateRange={`${PERIOD_SET_LABELS[periodSet as ComparativePeriodSet]} through ${formatLongDate(comparative.periods[comparative.periods.length - 1].to)}`}
+          />
+        ) : view === 'pnl' ? (
           <ProfitLossStatement 
             transactions={filteredTransactions}
             categories={categories}
+            manualEntries={periodEntries}
+            businessName={businessName}
+            dateRange={activeDateRange}
+          />
+        ) : view === 'cash_flow' ? (
+          <CashFlowStatement
+            transactions={filteredTransactions}
+            categories={categories}
+            accounts={accounts}
+            manualEntries={periodEntries}
+            startDate={filters.startDate}
+            businessName={businessName}
+            dateRange={activeDateRange}
+          />
+        ) : view === 'trial_balance' ? (
+          <TrialBalanceReport
+            transactions={filteredTransactions}
+            categories={categories}
+            accounts={accounts}
+            manualEntries={periodEntries}
+            businessName={businessName}
+            dateRange={activeDateRange}
+          />
+        ) : view === 'general_ledger' ? (
+          <GeneralLedgerReport
+            transactions={filteredTransactions}
+            categories={categories}
+            accounts={accounts}
+            manualEntries={periodEntries}
+            startDate={filters.startDate}
             businessName={businessName}
             dateRange={activeDateRange}
           />
@@ -206,10 +519,10 @@ const FinancialReport: React.FC<FinancialReportProps> = ({
           <BalanceSheet 
             transactions={filteredTransactions}
             categories={categories}
-            adjustments={bsAdjustments}
+            accounts={accounts}
+            manualEntries={periodEntries}
             overrides={bsOverrides}
-            onAddAdjustment={onAddAdjustment}
-            onRemoveAdjustment={onRemoveAdjustment}
+            currentPortions={currentPortions}
             onOverride={onOverride}
             businessName={businessName}
             dateRange={activeDateRange}
@@ -1,102 +1,45 @@
 
 import React, { useMemo, useState, useEffect } from 'react';
-import { Transaction, TransactionType, BalanceSheetAdjustment, AccountType, Category } from '../types';
-import { ShieldCheck, Info, AlertCircle } from 'lucide-react';
+import { Transaction, AccountType, Category, BankAccount, JournalEntry, CashFlowLine, ComparativePeriod, ComparativeSection } from '../types';
+import { buildCashFlow } from '../services/cashFlowService';
+import { variance } from '../services/comparativeService';
+import { profitAndLoss, balanceSheet } from '../services/statementService';
+import { buildJournal, buildTrialBalance, buildGeneralLedger, isTrialBalanced, compareAccounts, TRANSFER_CLEARING } from '../services/journalService';
+import { ShieldCheck, Info, AlertCircle, CheckCircle2 } from 'lucide-react';
 
 interface FinancialStatementsProps {
   transactions: Transaction[];
   categories?: Category[];
+  // Posted manual journal entries, already limited to the statement's period
+  manualEntries?: JournalEntry[];
   businessName?: string;
   dateRange?: string;
 }
 
 interface BalanceSheetProps extends FinancialStatementsProps {
-  adjustments: BalanceSheetAdjustment[];
+  accounts?: BankAccount[];
   overrides?: Record<string, number>;
-  onAddAdjustment: (adj: BalanceSheetAdjustment) => void;
-  onRemoveAdjustment: (id: string) => void;
+  // Loan principal due within twelve months, by liability account
+  currentPortions?: Record<string, number>;
   onOverride?: (category: string, amount: number | undefined) => void;
 }
 
-// STRICT MAPPING based on user's database list
-// This is used as a fallback or for system defaults
-const DATABASE_MAPPING: Record<string, AccountType> = {
-  // Assets
-  'Inventory': AccountType.CURRENT_ASSET,
-  
-  // Liabilities
-  'Loans': AccountType.LONG_TERM_LIAB,
-  
-  // Equity
-  'Withdrawal': AccountType.EQUITY,
-  
-  // Income (Explicit)
-  'Sales Revenue': AccountType.INCOME,
-  'Services Income': AccountType.INCOME,
-  
-  // Expenses (Explicit)
-  'Bank Fees': AccountType.EXPENSE,
-  'Dinning': AccountType.EXPENSE, // Handling the typo in DB
-  'Dining': AccountType.EXPENSE,
-  'Marketing': AccountType.EXPENSE,
-  'Office Supplies': AccountType.EXPENSE,
-  'Payroll': AccountType.EXPENSE,
-  'Professional Fees': AccountType.EXPENSE,
-  'Rent': AccountType.EXPENSE,
-  'Repairs & Maintenance': AccountType.EXPENSE,
-  'Travel': AccountType.EXPENSE,
-  'Utilities': AccountType.EXPENSE,
-  'Uncategorized': AccountType.EXPENSE
-};
+interface LedgerReportProps extends FinancialStatementsProps {
+  accounts?: BankAccount[];
+  // Balance sheet accounts carry their balance from before this date into the report
+  startDate?: string;
+}
 
-const FIXED_ASSET_KEYWORDS = [
-  'equipment', 'computer', 'furniture', 'vehicle', 'property', 
-  'machinery', 'building', 'improvement', 'hardware', 'laptop', 
-  'server', 'fixture', 'land', 'renovation', 'truck', 'auto', 'macbook', 'pc'
-];
-
-const LONG_TERM_LIAB_KEYWORDS = [
-  'mortgage', 'note payable', 'financing', 'term loan', 
-  'sba', 'eidl', 'line of credit', 'debt', 'borrowing', 'credit facility', 'bond'
-];
-
-const CURRENT_LIAB_KEYWORDS = [
-  'credit card', 'amex', 'chase', 'visa', 'mastercard', 'accounts payable', 
-  'tax payable', 'accrued', 'short-term', 'overdraft'
-];
-
-// Helper to determine account type based on Category Object OR Keyword Fallback
-const getAccountClassification = (categoryName: string, categories: Category[]): AccountType | 'PL_ITEM' => {
-  const normName = categoryName.trim();
-  
-  // 1. PRIORITY: Check Dynamic Categories (User Preference)
-  // This allows users to override defaults. If they say "Computer Hardware" is an Expense, it obeys.
-  const matchedCat = categories.find(c => c.name.toLowerCase() === normName.toLowerCase());
-  if (matchedCat?.accountType) {
-    if (matchedCat.accountType === AccountType.INCOME || matchedCat.accountType === AccountType.EXPENSE) {
-      return 'PL_ITEM';
-    }
-    return matchedCat.accountType;
-  }
-
-  // 2. Check Strict Mapping (Fallback for system defaults)
-  if (DATABASE_MAPPING[normName]) {
-    const mappedType = DATABASE_MAPPING[normName];
-    if (mappedType === AccountType.INCOME || mappedType === AccountType.EXPENSE) {
-      return 'PL_ITEM';
-    }
-    return mappedType;
-  }
-
-  // 3. Fallback to Keyword Search (Last Resort)
-  // Only if the category is unknown/new
-  const lowerCat = normName.toLowerCase();
-  if (FIXED_ASSET_KEYWORDS.some(k => lowerCat.includes(k))) return AccountType.FIXED_ASSET;
-  if (LONG_TERM_LIAB_KEYWORDS.some(k => lowerCat.includes(k))) return AccountType.LONG_TERM_LIAB;
-  if (CURRENT_LIAB_KEYWORDS.some(k => lowerCat.includes(k))) return AccountType.CURRENT_LIABILITY;
-
-  // Default to P&L Item (Expense) if unsure
-  return 'PL_ITEM';
+const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  [AccountType.CURRENT_ASSET]: 'Current Asset',
+  [AccountType.FIXED_ASSET]: 'Fixed Asset',
+  [AccountType.ASSET]: 'Asset',
+  [AccountType.CURRENT_LIABILITY]: 'Current Liability',
+  [AccountType.LONG_TERM_LIAB]: 'Long-Term Liability',
+  [AccountType.LIABILITY]: 'Liability',
+  [AccountType.EQUITY]: 'Equity',
+  [AccountType.INCOME]: 'Income',
+  [AccountType.EXPENSE]: 'Expense',
 };
 
 const MoneyValue: React.FC<{ 
@@ -123,7 +66,7 @@ const MoneyValue: React.FC<{
 
 const StatementHeader: React.FC<{ title: string; businessName?: string; dateRange?: string }> = ({ title, businessName, dateRange }) => {
   const name = businessName || localStorage.getItem('cf_biz_name') || 'LITIGATION SERVICES CORP';
-  const period = dateRange || 'Fiscal Period Ending Dec 2024';
+  const period = dateRange || 'All Periods on Record';
 
   return (
     <div className="text-center mb-16">
@@ -134,30 +77,11 @@ const StatementHeader: React.FC<{ title: string; businessName?: string; dateRang
   );
 };
 
-export const ProfitLossStatement: React.FC<FinancialStatementsProps> = ({ transactions, categories = [], businessName, dateRange }) => {
-  const data = useMemo(() => {
-    const income: Record<string, number> = {};
-    const expenses: Record<string, number> = {};
-    let totalIncome = 0;
-    let totalExpense = 0;
-
-    transactions.forEach(t => {
-      const classification = getAccountClassification(t.category, categories);
-      
-      // Only include P&L items
-      if (classification !== 'PL_ITEM') return;
-
-      if (t.type === TransactionType.INCOME) {
-        income[t.category] = (income[t.category] || 0) + t.amount;
-        totalIncome += t.amount;
-      } else {
-        expenses[t.category] = (expenses[t.category] || 0) + t.amount;
-        totalExpense += t.amount;
-      }
-    });
-
-    return { income, expenses, totalIncome, totalExpense, netProfit: totalIncome - totalExpense };
-  }, [transactions, categories]);
+export const ProfitLossStatement: React.FC<FinancialStatementsProps> = ({ transactions, categories = [], manualEntries = [], businessName, dateRange }) => {
+  const data = useMemo(
+    () => profitAndLoss(buildJournal({ transactions, categories, manualEntries })),
+    [transactions, categories, manualEntries]
+  );
 
   return (
     <div className="max-w-4xl mx-auto bg-white p-12 md:p-20 shadow-2xl border border-slate-100 print:shadow-none print:border-none print:p-0">
@@ -166,13 +90,13 @@ export const ProfitLossStatement: React.FC<FinancialStatementsProps> = ({ transa
       <section className="mb-12">
         <h3 className="text-xs font-black text-slate-900 border-b-4 border-slate-900 pb-1 mb-6 uppercase tracking-widest">I. OPERATING REVENUE</h3>
         <div className="space-y-4 pl-6">
-          {Object.entries(data.income).map(([cat, amount]) => (
-            <div key={cat} className="flex justify-between text-xs font-bold text-slate-600">
-              <span className="uppercase tracking-tight">{cat}</span>
-              <MoneyValue value={amount as number} />
+          {data.income.map(({ name, amount }) => (
+            <div key={name} className="flex justify-between text-xs font-bold text-slate-600">
+              <span className="uppercase tracking-tight">{name}</span>
+              <MoneyValue value={amount} />
             </div>
           ))}
-          {Object.keys(data.income).length === 0 && <div className="text-[10px] text-slate-300 italic">No revenue recorded</div>}
+          {data.income.length === 0 && <div className="text-[10px] text-slate-300 italic">No revenue recorded</div>}
           <div className="flex justify-between font-black pt-6 text-slate-900 uppercase text-[11px] border-t border-slate-100">
             <span className="tracking-widest">Total Operating Revenue</span>
             <MoneyValue value={data.totalIncome} isTotal />
@@ -183,13 +107,13 @@ export const ProfitLossStatement: React.FC<FinancialStatementsProps> = ({ transa
       <section className="mb-12">
         <h3 className="text-xs font-black text-slate-900 border-b-4 border-slate-900 pb-1 mb-6 uppercase tracking-widest">II. OPERATING EXPENSES</h3>
         <div className="space-y-4 pl-6">
-          {Object.entries(data.expenses).sort(([,a],[,b]) => (b as number)-(a as number)).map(([cat, amount]) => (
-            <div key={cat} className="flex justify-between text-xs font-bold text-slate-600">
-              <span className="uppercase tracking-tight">{cat}</span>
-              <MoneyValue value={amount as number} />
+          {data.expenses.map(({ name, amount }) => (
+            <div key={name} className="flex justify-between text-xs font-bold text-slate-600">
+              <span className="uppercase tracking-tight">{name}</span>
+              <MoneyValue value={amount} />
             </div>
           ))}
-          {Object.keys(data.expenses).length === 0 && <div className="text-[10px] text-slate-300 italic">No expenses recorded</div>}
+          {data.expenses.length === 0 && <div className="text-[10px] text-slate-300 italic">No expenses recorded</div>}
           <div className="flex justify-between font-black pt-6 text-slate-900 uppercase text-[11px] border-t border-slate-100">
             <span className="tracking-widest">Total Operating Expenses</span>
             <MoneyValue value={data.totalExpense} isTotal />
@@ -208,113 +132,17 @@ export const ProfitLossStatement: React.FC<FinancialStatementsProps> = ({ transa
 export const BalanceSheet: React.FC<BalanceSheetProps> = ({ 
   transactions, 
   categories = [],
-  adjustments, 
+  accounts = [],
+  manualEntries = [],
   overrides = {}, 
+  currentPortions = {},
   businessName,
   dateRange
 }) => {
-  const data = useMemo(() => {
-    let cashIn = 0, cashOut = 0;
-    const assets: Record<string, number> = {};
-    const liabilities: Record<string, number> = {};
-    const currentAssets: Record<string, number> = {};
-    const currentLiabs: Record<string, number> = {};
-    const equityItems: Record<string, number> = {};
-    
-    let operatingIncome = 0, operatingExpense = 0;
-
-    transactions.forEach(t => {
-      const classification = getAccountClassification(t.category, categories);
-
-      // --- LOGIC: Bucket transaction based on Classification ---
-      
-      // FIXED ASSETS
-      if (classification === AccountType.FIXED_ASSET || classification === AccountType.ASSET) {
-         const impact = t.type === TransactionType.EXPENSE ? t.amount : -t.amount;
-         assets[t.category] = (assets[t.category] || 0) + impact;
-      }
-      
-      // CURRENT ASSETS (e.g. Inventory)
-      else if (classification === AccountType.CURRENT_ASSET) {
-         const impact = t.type === TransactionType.EXPENSE ? t.amount : -t.amount;
-         currentAssets[t.category] = (currentAssets[t.category] || 0) + impact;
-      }
-
-      // LONG TERM LIABILITIES
-      else if (classification === AccountType.LONG_TERM_LIAB || classification === AccountType.LIABILITY) {
-         const impact = t.type === TransactionType.INCOME ? t.amount : -t.amount;
-         liabilities[t.category] = (liabilities[t.category] || 0) + impact;
-      }
-
-      // CURRENT LIABILITIES
-      else if (classification === AccountType.CURRENT_LIABILITY) {
-         const impact = t.type === TransactionType.INCOME ? t.amount : -t.amount;
-         currentLiabs[t.category] = (currentLiabs[t.category] || 0) + impact;
-      }
-
-      // EQUITY
-      else if (classification === AccountType.EQUITY) {
-         const impact = t.type === TransactionType.INCOME ? t.amount : -t.amount;
-         equityItems[t.category] = (equityItems[t.category] || 0) + impact;
-      }
-
-      // P&L ITEMS (Retained Earnings Calculation)
-      else {
-        if (t.type === TransactionType.INCOME) operatingIncome += t.amount; else operatingExpense += t.amount;
-      }
-      
-      // CASH CALCULATION (Independent of category)
-      if (t.type === TransactionType.INCOME) cashIn += t.amount; else cashOut += t.amount;
-    });
-
-    // --- AGGREGATION ---
-
-    const cashBalance = cashIn - cashOut;
-    const finalCash = overrides['Cash & Equivalents'] !== undefined ? overrides['Cash & Equivalents'] : cashBalance;
-
-    const currentAssetsList: any[] = [{ name: 'Cash & Equivalents', amount: finalCash }];
-    Object.entries(currentAssets).forEach(([name, amount]) => currentAssetsList.push({ name, amount }));
-
-    const fixedAssetsList: any[] = [];
-    Object.entries(assets).forEach(([name, amount]) => fixedAssetsList.push({ name, amount }));
-
-    const currentLiabilitiesList: any[] = [];
-    Object.entries(currentLiabs).forEach(([name, amount]) => currentLiabilitiesList.push({ name, amount }));
-
-    const longTermLiabilitiesList: any[] = [];
-    Object.entries(liabilities).forEach(([name, amount]) => longTermLiabilitiesList.push({ name, amount }));
-    
-    const equityList: any[] = [];
-    Object.entries(equityItems).forEach(([name, amount]) => equityList.push({ name, amount }));
-
-    // Add manual adjustments
-    adjustments.forEach(adj => {
-      if (adj.type === 'ASSET') currentAssetsList.push({ name: adj.name, amount: adj.amount });
-      else longTermLiabilitiesList.push({ name: adj.name, amount: adj.amount });
-    });
-
-    const totalCurrentAssets = currentAssetsList.reduce((s, a) => s + a.amount, 0);
-    const totalFixedAssets = fixedAssetsList.reduce((s, a) => s + a.amount, 0);
-    const totalAssets = totalCurrentAssets + totalFixedAssets;
-
-    const retainedEarnings = operatingIncome - operatingExpense;
-    const totalEquityItems = equityList.reduce((s, e) => s + e.amount, 0);
-    
-    const totalLiabilities = currentLiabilitiesList.reduce((s, l) => s + l.amount, 0) + longTermLiabilitiesList.reduce((s, l) => s + l.amount, 0);
-    const totalEquity = retainedEarnings + totalEquityItems;
-
-    return { 
-      currentAssets: currentAssetsList, 
-      fixedAssets: fixedAssetsList, 
-      currentLiabilities: currentLiabilitiesList, 
-      longTermLiabilities: longTermLiabilitiesList,
-      equityList,
-      totalCurrentAssets, totalFixedAssets, totalAssets,
-      totalLiabilities,
-      retainedEarnings, 
-      totalLiabAndEquity: totalLiabilities + totalEquity
-    };
-  }, [transactions, adjustments, overrides, categories]);
+  const data = useMemo(
+    () => balanceSheet(buildJournal({ transactions, categories, accounts, manualEntries }), { accounts, overrides, currentPortions }),
+    [transactions, manualEntries, overrides, currentPortions, categories, accounts]
+  );
 
   return (
     <div className="max-w-4xl mx-auto bg-white p-12 md:p-20 shadow-2xl border border-slate-100 min-h-[1000px] print:shadow-none print:border-none print:p-0">
@@ -346,8 +174,8 @@ export const BalanceSheet: React.FC<BalanceSheetProps> = ({
               <div className="space-y-3 pl-6">
                 {data.fixedAssets.map((a, i) => (
                   <div key={i} className="flex justify-between text-xs font-bold text-slate-600">
-                    <span className="uppercase tracking-tight">{a.name}</span>
-                    <MoneyValue value={a.amount} />
+                    <span className="uppercase tracking-tight">{a.amount < 0 ? `Less: ${a.name}` : a.name}</span>
+                    <MoneyValue value={a.amount} negativeRed />
                   </div>
                 ))}
                 {data.fixedAssets.length === 0 && (
@@ -451,3 +279,292 @@ export const BalanceSheet: React.FC<BalanceSheetProps> = ({
     </div>
   );
 };
+
+export const TrialBalanceReport: React.FC<LedgerReportProps> = ({ transactions, categories = [], accounts = [], manualEntries = [], businessName, dateRange }) => {
+  const data = useMemo(() => {
+    const rows = buildTrialBalance(buildJournal({ transactions, categories, accounts, manualEntries }))
+      .filter(r => r.account !== TRANSFER_CLEARING || r.debit !== 0 || r.credit !== 0)
+      .sort(compareAccounts);
+    const totalDebit = rows.reduce((s, r) => s + r.debit, 0);
+    const totalCredit = rows.reduce((s, r) => s + r.credit, 0);
+    return { rows, totalDebit, totalCredit, isBalanced: isTrialBalanced(rows) };
+  }, [transactions, categories, accounts, manualEntries]);
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white p-12 md:p-20 shadow-2xl border border-slate-100 print:shadow-none print:border-none print:p-0">
+      <StatementHeader title="Trial Balance" businessName={businessName} dateRange={dateRange} />
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b-4 border-slate-900">
+            <th className="text-left pb-2 font-black uppercase tracking-widest text-slate-900">Account</th>
+            <th className="text-left pb-2 font-black uppercase tracking-widest text-slate-400 text-[10px]">Type</th>
+            <th className="text-right pb-2 font-black uppercase tracking-widest text-slate-900 w-32">Debit</th>
+            <th className="text-right pb-2 font-black uppercase tracking-widest text-slate-900 w-32">Credit</th>
+          </tr>
+        </thead>
+        <tbody>
+          {data.rows.map(row => (
+            <tr key={`${row.accountType}|${row.account}`} className="border-b border-slate-50">
+              <td className="py-3 font-bold text-slate-600 uppercase tracking-tight">{row.account}</td>
+              <td className="py-3 text-[9px] font-black text-slate-400 uppercase tracking-widest">{ACCOUNT_TYPE_LABELS[row.accountType]}</td>
+              <td className="py-3 text-right">{row.debit ? <MoneyValue value={row.debit} /> : <span className="text-slate-300">—</span>}</td>
+              <td className="py-3 text-right">{row.credit ? <MoneyValue value={row.credit} /> : <span className="text-slate-300">—</span>}</td>
+            </tr>
+          ))}
+          {data.rows.length === 0 && (
+            <tr><td colSpan={4} className="py-8 text-center text-[10px] text-slate-300 italic">No postings recorded</td></tr>
+          )}
+        </tbody>
+        <tfoot>
+          <tr className="font-black uppercase">
+            <td colSpan={2} className="pt-6 text-[11px] tracking-widest text-slate-900">Totals</td>
+            <td className="pt-6 text-right"><MoneyValue value={data.totalDebit} isGrandTotal /></td>
+            <td className="pt-6 text-right"><MoneyValue value={data.totalCredit} isGrandTotal /></td>
+          </tr>
+        </tfoot>
+      </table>
+
+      <div className={`mt-12 flex items-center gap-2 p-4 rounded-2xl text-[10px] font-black uppercase tracking-widest ${data.isBalanced ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700'}`}>
+        {data.isBalanced ? <CheckCircle2 size={14} /> : <AlertCircle size={14} />}
+        {data.isBalanced ? 'Debits equal credits' : `Out of balance by $${Math.abs(data.totalDebit - data.totalCredit).toFixed(2)}`}
+      </div>
+    </div>
+  );
+};
+
+export const GeneralLedgerReport: React.FC<LedgerReportProps> = ({ transactions, categories = [], accounts = [], manualEntries = [], startDate, businessName, dateRange }) => {
+  const ledger = useMemo(
+    () => buildGeneralLedger(buildJournal({ transactions, categories, accounts, manualEntries }), startDate || undefined),
+    [transactions, categories, accounts, manualEntries, startDate]
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white p-12 md:p-20 shadow-2xl border border-slate-100 print:shadow-none print:border-none print:p-0">
+      <StatementHeader title="General Ledger" businessName={businessName} dateRange={dateRange} />
+
+      {ledger.length === 0 && <div className="text-center text-[10px] text-slate-300 italic">No postings recorded</div>}
+
+      <div className="space-y-12">
+        {ledger.map(account => (
+          <section key={`${account.accountType}|${account.account}`} className="break-inside-avoid-page">
+            <div className="flex justify-between items-end border-b-4 border-slate-900 pb-1 mb-3">
+              <h3 className="text-xs font-black text-slate-900 uppercase tracking-widest">{account.account}</h3>
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{ACCOUNT_TYPE_LABELS[account.accountType]}</span>
+            </div>
+            <table className="w-full text-[11px]">
+              <thead>
+                <tr className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                  <th className="text-left py-1 w-24">Date</th>
+                  <th className="text-left py-1">Description</th>
+                  <th className="text-right py-1 w-24">Debit</th>
+                  <th className="text-right py-1 w-24">Credit</th>
+                  <th className="text-right py-1 w-28">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-slate-50 italic">
+                  <td className="py-2" />
+                  <td className="py-2 font-bold text-slate-400 uppercase tracking-tight">Opening Balance</td>
+                  <td /><td />
+                  <td className="py-2 text-right"><MoneyValue value={account.openingBalance} negativeRed /></td>
+                </tr>
+                {account.postings.map((p, i) => (
+                  <tr key={`${p.entryId}-${i}`} className="border-b border-slate-50">
+                    <td className="py-2 font-bold text-slate-500 tabular-nums">{p.date}</td>
+                    <td className="py-2 font-bold text-slate-600 truncate max-w-0">{p.memo}</td>
+                    <td className="py-2 text-right">{p.debit ? <MoneyValue value={p.debit} /> : null}</td>
+                    <td className="py-2 text-right">{p.credit ? <MoneyValue value={p.credit} /> : null}</td>
+                    <td className="py-2 text-right"><MoneyValue value={p.balance} negativeRed /></td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-black uppercase">
+                  <td colSpan={4} className="pt-3 text-[10px] tracking-widest text-slate-900">Closing Balance</td>
+                  <td className="pt-3 text-right"><MoneyValue value={account.closingBalance} isTotal negativeRed /></td>
+                </tr>
+              </tfoot>
+            </table>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const CashFlowSection: React.FC<{ title: string; lines: CashFlowLine[]; total: number; totalLabel: string; empty: string; lead?: React.ReactNode }> = ({ title, lines, total, totalLabel, empty, lead }) => (
+  <section className="mb-12">
+    <h3 className="text-xs font-black text-slate-900 border-b-4 border-slate-900 pb-1 mb-6 uppercase tracking-widest">{title}</h3>
+    <div className="space-y-4 pl-6">
+      {lead}
+      {lines.map(l => (
+        <div key={l.account} className="flex justify-between text-xs font-bold text-slate-600">
+          <span className="uppercase tracking-tight">{l.amount < 0 ? `(${l.account})` : l.account}</span>
+          <MoneyValue value={l.amount} negativeRed />
+        </div>
+      ))}
+      {lines.length === 0 && !lead && <div className="text-[10px] text-slate-300 italic">{empty}</div>}
+      <div className="flex justify-between font-black pt-6 text-slate-900 uppercase text-[11px] border-t border-slate-100">
+        <span className="tracking-widest">{totalLabel}</span>
+        <MoneyValue value={total} isTotal negativeRed />
+      </div>
+    </div>
+  </section>
+);
+
+export const CashFlowStatement: React.FC<LedgerReportProps> = ({ transactions, categories = [], accounts = [], manualEntries = [], startDate, businessName, dateRange }) => {
+  const data = useMemo(
+    () => buildCashFlow(buildJournal({ transactions, categories, accounts, manualEntries }), accounts, startDate || undefined),
+    [transactions, categories, accounts, manualEntries, startDate]
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white p-12 md:p-20 shadow-2xl border border-slate-100 print:shadow-none print:border-none print:p-0">
+      <StatementHeader title="Statement of Cash Flows" businessName={businessName} dateRange={dateRange} />
+
+      <CashFlowSection
+        title="I. Operating Activities"
+        lines={data.operating}
+        total={data.netOperating}
+        totalLabel="Net Cash from Operating Activities"
+        empty="No working capital changes"
+        lead={
+          <div className="flex justify-between text-xs font-bold text-slate-600">
+            <span className="uppercase tracking-tight italic">Net Income</span>
+            <MoneyValue value={data.netIncome} negativeRed />
+          </div>
+        }
+      />
+      <CashFlowSection
+        title="II. Investing Activities"
+        lines={data.investing}
+        total={data.netInvesting}
+        totalLabel="Net Cash from Investing Activities"
+        empty="No fixed asset activity"
+      />
+      <CashFlowSection
+        title="III. Financing Activities"
+        lines={data.financing}
+        total={data.netFinancing}
+        totalLabel="Net Cash from Financing Activities"
+        empty="No loan or equity activity"
+      />
+
+      <div className="mt-16 border-t-8 border-slate-900 pt-6 space-y-3">
+        <div className="flex justify-between text-xs font-black uppercase tracking-tight">
+          <span>Net Change in Cash</span>
+          <MoneyValue value={data.netChange} negativeRed />
+        </div>
+        <div className="flex justify-between text-xs font-bold text-slate-600 uppercase tracking-tight">
+          <span>Cash at Beginning of Period</span>
+          <MoneyValue value={data.beginningCash} negativeRed />
+        </div>
+        <div className="flex justify-between items-center italic">
+          <span className="text-sm font-black uppercase tracking-tighter">Cash at End of Period</span>
+          <MoneyValue value={data.endingCash} isGrandTotal negativeRed />
+        </div>
+      </div>
+
+      <div className={`mt-12 flex items-center gap-2 p-4 rounded-2xl text-[10px] font-black uppercase tracking-widest print:hidden ${data.isReconciled ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700'}`}>
+        {data.isReconciled ? <CheckCircle2 size={14} /> : <AlertCircle size={14} />}
+        {data.isReconciled ? 'Reconciles to the change in cash' : `Differs from the change in cash by $${Math.abs(data.beginningCash + data.netChange - data.endingCash).toFixed(2)}`}
+      </div>
+    </div>
+  );
+};
+
+interface ComparativeStatementProps {
+  title: string;
+  periods: ComparativePeriod[];
+  sections: ComparativeSection[];
+  netLabel: string;
+  net: number[];
+  // Month-by-month P&L adds a total column; period comparisons add variance columns
+  showTotal?: boolean;
+  showVariance?: boolean;
+  businessName?: string;
+  dateRange?: string;
+}
+
+const formatCell = (value: number) => {
+  const formatted = new Intl.NumberFormat('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(Math.abs(value));
+  return value < 0 ? `(${formatted})` : formatted;
+};
+
+const VarianceCells: React.FC<{ amounts: number[]; isTotal?: boolean }> = ({ amounts, isTotal }) => {
+  const { amount, percent } = variance(amounts);
+  const tone = amount < 0 ? 'text-rose-600' : 'text-slate-600';
+  return (
+    <>
+      <td className={`py-2 pl-3 text-right tabular-nums ${tone} ${isTotal ? 'font-black border-t-2 border-slate-900' : 'font-bold'}`}>{formatCell(amount)}</td>
+      <td className={`py-2 pl-3 text-right tabular-nums ${tone} ${isTotal ? 'font-black border-t-2 border-slate-900' : 'font-bold'}`}>
+        {percent === null ? '—' : `${(percent * 100).toFixed(1)}%`}
+      </td>
+    </>
+  );
+};
+
+export const ComparativeStatement: React.FC<ComparativeStatementProps> = ({ title, periods, sections, netLabel, net, showTotal, showVariance, businessName, dateRange }) => {
+  const sum = (amounts: number[]) => amounts.reduce((s, a) => s + a, 0);
+  const isWide = periods.length > 4;
+  const cell = `py-2 pl-3 text-right tabular-nums ${isWide ? 'text-[10px]' : ''}`;
+
+  return (
+    <div className={`${isWide ? 'max-w-none' : 'max-w-4xl'} mx-auto bg-white p-8 md:p-16 shadow-2xl border border-slate-100 print:shadow-none print:border-none print:p-0 overflow-x-auto`}>
+      <StatementHeader title={title} businessName={businessName} dateRange={dateRange} />
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b-4 border-slate-900">
+            <th className="text-left pb-2 font-black uppercase tracking-widest text-slate-900">Account</th>
+            {periods.map(p => (
+              <th key={p.label} className="text-right pb-2 pl-3 font-black uppercase tracking-widest text-slate-900 text-[10px] whitespace-nowrap">{p.label}</th>
+            ))}
+            {showTotal && <th className="text-right pb-2 pl-3 font-black uppercase tracking-widest text-slate-900 text-[10px]">Total</th>}
+            {showVariance && (
+              <>
+                <th className="text-right pb-2 pl-3 font-black uppercase tracking-widest text-slate-400 text-[10px]">$ Var</th>
+                <th className="text-right pb-2 pl-3 font-black uppercase tracking-widest text-slate-400 text-[10px]">% Var</th>
+              </>
+            )}
+          </tr>
+        </thead>
+        {sections.map(section => (
+          <tbody key={section.title}>
+            <tr>
+              <td colSpan={periods.length + 3} className="pt-8 pb-2 text-[10px] font-black uppercase tracking-widest text-slate-400 italic">{section.title}</td>
+            </tr>
+            {section.lines.map(line => (
+              <tr key={line.account} className="border-b border-slate-50">
+                <td className="py-2 pl-4 font-bold text-slate-600 uppercase tracking-tight whitespace-nowrap">{line.account}</td>
+                {line.amounts.map((a, i) => <td key={i} className={`${cell} font-bold text-slate-800`}>{formatCell(a)}</td>)}
+                {showTotal && <td className={`${cell} font-black text-slate-900`}>{formatCell(sum(line.amounts))}</td>}
+                {showVariance && <VarianceCells amounts={line.amounts} />}
+              </tr>
+            ))}
+            {section.lines.length === 0 && (
+              <tr><td colSpan={periods.length + 3} className="py-2 pl-4 text-[10px] text-slate-300 italic">Nothing recorded</td></tr>
+            )}
+            <tr className="uppercase">
+              <td className="py-2 font-black text-[10px] tracking-widest text-slate-900">Total {section.title}</td>
+              {section.totals.map((t, i) => <td key={i} className={`${cell} font-black text-slate-900 border-t-2 border-slate-900`}>{formatCell(t)}</td>)}
+              {showTotal && <td className={`${cell} font-black text-slate-900 border-t-2 border-slate-900`}>{formatCell(sum(section.totals))}</td>}
+              {showVariance && <VarianceCells amounts={section.totals} isTotal />}
+            </tr>
+          </tbody>
+        ))}
+        <tfoot>
+          <tr className="uppercase italic">
+            <td className="pt-8 font-black text-sm tracking-tighter text-slate-900">{netLabel}</td>
+            {net.map((n, i) => (
+              <td key={i} className={`${cell} pt-8 font-black border-b-4 border-double border-slate-900 ${n < 0 ? 'text-rose-600' : 'text-slate-900'}`}>{formatCell(n)}</td>
+            ))}
+            {showTotal && <td className={`${cell} pt-8 font-black border-b-4 border-double border-slate-900`}>{formatCell(sum(net))}</td>}
+            {showVariance && <VarianceCells amounts={net} isTotal />}
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
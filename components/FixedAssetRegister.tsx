@@ -0,0 +1,270 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Package, Plus, Edit2, Trash2, Loader2, ChevronDown, ChevronRight, AlertTriangle, X } from 'lucide-react';
+import { FixedAsset, Category, Transaction, AccountType, DepreciationMethod } from '../types';
+import { getAccountClassification } from '../services/classificationService';
+import { DEPRECIATION_METHOD_LABELS, depreciationSchedule, assetPosition, draftAssetFromTransaction } from '../services/depreciationService';
+
+interface FixedAssetRegisterProps {
+  assets: FixedAsset[];
+  categories: Category[];
+  // Transaction picked in the ledger to capitalize; the register opens a draft for it
+  pendingTransaction?: Transaction | null;
+  onPendingConsumed?: () => void;
+  onSave: (asset: FixedAsset) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+const emptyAsset = (): FixedAsset => ({
+  id: `asset-${Date.now()}`,
+  name: '',
+  category: 'Equipment',
+  acquisitionDate: new Date().toISOString().split('T')[0],
+  cost: 0,
+  usefulLifeMonths: 60,
+  salvageValue: 0,
+  method: 'straight_line',
+});
+
+const formatMoney = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const FixedAssetRegister: React.FC<FixedAssetRegisterProps> = ({ assets, categories, pendingTransaction, onPendingConsumed, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<FixedAsset | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const today = new Date().toISOString().split('T')[0];
+
+  useEffect(() => {
+    if (!pendingTransaction) return;
+    setDraft(draftAssetFromTransaction(pendingTransaction));
+    onPendingConsumed?.();
+  }, [pendingTransaction, onPendingConsumed]);
+
+  const fixedAssetCategories = useMemo(
+    () => categories.filter(c => getAccountClassification(c.name, categories) === AccountType.FIXED_ASSET).map(c => c.name),
+    [categories]
+  );
+
+  const rows = useMemo(() => assets
+    .map(asset => ({ asset, ...assetPosition(asset, today) }))
+    .sort((a, b) => a.asset.acquisitionDate.localeCompare(b.asset.acquisitionDate)), [assets, today]);
+
+  const totals = rows.reduce((t, r) => ({
+    cost: t.cost + r.asset.cost,
+    accumulated: t.accumulated + r.accumulated,
+    bookValue: t.bookValue + r.bookValue,
+  }), { cost: 0, accumulated: 0, bookValue: 0 });
+
+  const update = (patch: Partial<FixedAsset>) => setDraft(prev => prev && { ...prev, ...patch });
+
+  // A cost booked to an expense category is already on the P&L; depreciating it would count it twice
+  const isCapitalized = !!draft && getAccountClassification(draft.category, categories) === AccountType.FIXED_ASSET;
+  const isValid = !!draft && !!draft.name.trim() && !!draft.acquisitionDate && draft.cost > 0
+    && draft.salvageValue >= 0 && draft.salvageValue < draft.cost && draft.usefulLifeMonths >= 1;
+
+  const handleSave = async () => {
+    if (!draft || !isValid) return;
+    setIsSaving(true);
+    try {
+      await onSave({ ...draft, name: draft.name.trim() });
+      setDraft(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const yearlySchedule = (asset: FixedAsset) => {
+    const years = new Map<string, { amount: number; accumulated: number; bookValue: number }>();
+    depreciationSchedule(asset).forEach(p => {
+      const year = p.date.substring(0, 4);
+      const row = years.get(year) || { amount: 0, accumulated: 0, bookValue: 0 };
+      years.set(year, { amount: row.amount + p.amount, accumulated: p.accumulated, bookValue: p.bookValue });
+    });
+    return Array.from(years.entries());
+  };
+
+  const inputClass = "w-full px-4 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-bold focus:border-indigo-500 outline-none transition-all shadow-sm";
+  const labelClass = "text-[9px] font-black uppercase tracking-widest text-slate-400";
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm">
+        <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+          <div>
+            <h2 className="text-2xl font-black text-slate-900 tracking-tight flex items-center gap-3">
+              <Package className="w-6 h-6 text-indigo-500" /> Fixed Asset Register
+            </h2>
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mt-1">Cost, Depreciation & Book Value as of {today}</p>
+          </div>
+          {!draft && (
+            <button
+              onClick={() => setDraft(emptyAsset())}
+              className="px-5 py-3 bg-slate-900 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-slate-800 transition active:scale-95 flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" /> Add Asset
+            </button>
+          )}
+        </div>
+        <div className="grid grid-cols-3 gap-4 mt-6">
+          {[['Total Cost', totals.cost], ['Accumulated Depreciation', totals.accumulated], ['Net Book Value', totals.bookValue]].map(([label, value]) => (
+            <div key={label as string} className="bg-slate-50 rounded-2xl p-4 border border-slate-100">
+              <p className={labelClass}>{label}</p>
+              <p className="text-lg font-black text-slate-900 tabular-nums mt-1">${formatMoney(value as number)}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {draft && (
+        <div className="bg-white rounded-3xl border border-indigo-100 shadow-lg p-8 space-y-4 animate-fade-in">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="md:col-span-2 space-y-1">
+              <p className={labelClass}>Asset Name</p>
+              <input type="text" placeholder="Delivery Van..." className={inputClass} value={draft.name} onChange={e => update({ name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>Cost Account</p>
+              <select className={inputClass} value={draft.category} onChange={e => update({ category: e.target.value })}>
+                {!fixedAssetCategories.includes(draft.category) && <option value={draft.category}>{draft.category}</option>}
+                {fixedAssetCategories.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>Placed in Service</p>
+              <input type="date" className={inputClass} value={draft.acquisitionDate} onChange={e => update({ acquisitionDate: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>Cost</p>
+              <input type="number" step="0.01" min="0" className={inputClass} value={draft.cost} onChange={e => update({ cost: parseFloat(e.target.value) || 0 })} />
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>Salvage Value</p>
+              <input type="number" step="0.01" min="0" disabled={draft.method === 'section_179'} className={`${inputClass} disabled:opacity-40`} value={draft.salvageValue} onChange={e => update({ salvageValue: parseFloat(e.target.value) || 0 })} />
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>Useful Life (Months)</p>
+              <input type="number" step="1" min="1" disabled={draft.method === 'section_179'} className={`${inputClass} disabled:opacity-40`} value={draft.usefulLifeMonths} onChange={e => update({ usefulLifeMonths: parseInt(e.target.value) || 0 })} />
+            </div>
+            <div className="md:col-span-2 space-y-1">
+              <p className={labelClass}>Method</p>
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(DEPRECIATION_METHOD_LABELS) as DepreciationMethod[]).map(method => (
+                  <button
+                    key={method}
+                    onClick={() => update({ method })}
+                    className={`py-3 px-1 rounded-xl text-[9px] font-black uppercase tracking-widest border-2 transition-all ${draft.method === method ? 'bg-indigo-600 text-white border-indigo-600 shadow-md' : 'bg-white text-slate-400 border-slate-100'}`}
+                  >
+                    {DEPRECIATION_METHOD_LABELS[method]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {!isCapitalized && (
+            <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-100 rounded-xl text-[10px] font-bold text-amber-700">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              "{draft.category}" is not a fixed asset account, so the cost is already expensed on the P&L. Recategorize the purchase to a fixed asset category before depreciating it.
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <button onClick={() => setDraft(null)} className="px-6 py-3 bg-slate-100 text-slate-600 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !isValid}
+              className="px-6 py-3 bg-slate-900 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 disabled:opacity-30 transition-all flex items-center gap-2"
+            >
+              {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />} {assets.some(a => a.id === draft.id) ? 'Save Changes' : 'Add to Register'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-3xl border border-slate-100 shadow-sm overflow-hidden">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-50/50 border-b border-slate-100">
+            <tr className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+              <th className="text-left px-6 py-4">Asset</th>
+              <th className="text-left px-4 py-4">In Service</th>
+              <th className="text-left px-4 py-4">Method</th>
+              <th className="text-right px-4 py-4">Cost</th>
+              <th className="text-right px-4 py-4">Accumulated</th>
+              <th className="text-right px-4 py-4">Book Value</th>
+              <th className="px-4 py-4"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 && (
+              <tr><td colSpan={7} className="p-12 text-center text-[10px] font-black uppercase tracking-widest text-slate-300">No fixed assets recorded</td></tr>
+            )}
+            {rows.map(({ asset, accumulated, bookValue }) => (
+              <React.Fragment key={asset.id}>
+                <tr className="border-b border-slate-50 group hover:bg-slate-50/50">
+                  <td className="px-6 py-4">
+                    <button onClick={() => setExpandedId(expandedId === asset.id ? null : asset.id)} className="flex items-center gap-2 text-left">
+                      {expandedId === asset.id ? <ChevronDown className="w-3.5 h-3.5 text-slate-400" /> : <ChevronRight className="w-3.5 h-3.5 text-slate-400" />}
+                      <span>
+                        <span className="font-black text-slate-800 uppercase tracking-tight block">{asset.name}</span>
+                        <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{asset.category}</span>
+                      </span>
+                    </button>
+                  </td>
+                  <td className="px-4 py-4 font-bold text-slate-500 tabular-nums">{asset.acquisitionDate}</td>
+                  <td className="px-4 py-4 text-[9px] font-black text-slate-500 uppercase tracking-widest">{DEPRECIATION_METHOD_LABELS[asset.method]}</td>
+                  <td className="px-4 py-4 text-right font-bold text-slate-800 tabular-nums">${formatMoney(asset.cost)}</td>
+                  <td className="px-4 py-4 text-right font-bold text-slate-500 tabular-nums">(${formatMoney(accumulated)})</td>
+                  <td className="px-4 py-4 text-right font-black text-slate-900 tabular-nums">${formatMoney(bookValue)}</td>
+                  <td className="px-4 py-4">
+                    {confirmDelete === asset.id ? (
+                      <div className="flex gap-1 justify-end">
+                        <button onClick={() => { onDelete(asset.id); setConfirmDelete(null); }} className="px-3 py-1.5 bg-rose-600 text-white text-[9px] font-black uppercase rounded-lg">Delete</button>
+                        <button onClick={() => setConfirmDelete(null)} className="px-2 py-1.5 bg-slate-100 text-slate-600 rounded-lg"><X className="w-3 h-3" /></button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-1 justify-end opacity-0 group-hover:opacity-100 transition-all">
+                        <button onClick={() => setDraft({ ...asset })} className="p-2 text-slate-300 hover:text-indigo-600"><Edit2 className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => setConfirmDelete(asset.id)} className="p-2 text-slate-300 hover:text-rose-600"><Trash2 className="w-3.5 h-3.5" /></button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+                {expandedId === asset.id && (
+                  <tr className="bg-slate-50/50 border-b border-slate-100">
+                    <td colSpan={7} className="px-14 py-4">
+                      <table className="w-full max-w-lg text-[11px]">
+                        <thead>
+                          <tr className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                            <th className="text-left py-1">Year</th>
+                            <th className="text-right py-1">Depreciation</th>
+                            <th className="text-right py-1">Accumulated</th>
+                            <th className="text-right py-1">Book Value</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {yearlySchedule(asset).map(([year, row]) => (
+                            <tr key={year} className="border-t border-slate-100">
+                              <td className="py-1.5 font-black text-slate-600">{year}</td>
+                              <td className="py-1.5 text-right tabular-nums font-bold text-slate-700">${formatMoney(row.amount)}</td>
+                              <td className="py-1.5 text-right tabular-nums font-bold text-slate-500">${formatMoney(row.accumulated)}</td>
+                              <td className="py-1.5 text-right tabular-nums font-black text-slate-800">${formatMoney(row.bookValue)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default FixedAssetRegister;
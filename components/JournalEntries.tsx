@@ -0,0 +1,290 @@
+import React, { useMemo, useState } from 'react';
+import { BookOpen, Plus, Trash2, Edit2, Loader2, RotateCcw, History, X, Lock } from 'lucide-react';
+import { JournalEntry, JournalLine, JournalAuditEvent, Category, BankAccount, AccountType } from '../types';
+import { accountLabel } from '../services/accountService';
+import { CASH_ACCOUNT, OPENING_BALANCE_EQUITY, isEntryBalanced, entryTotal, resolveLedgerAccount } from '../services/journalService';
+import { isDateLocked } from '../services/periodCloseService';
+
+interface JournalEntriesProps {
+  entries: JournalEntry[];
+  audit: JournalAuditEvent[];
+  categories: Category[];
+  accounts: BankAccount[];
+  onSave: (entry: JournalEntry) => Promise<void>;
+  onDelete: (entry: JournalEntry) => Promise<void>;
+  // Entries dated on or before this day cannot be posted, edited or deleted
+  closedThrough?: string | null;
+}
+
+const emptyLine = (): JournalLine => ({ account: '', accountType: AccountType.EXPENSE, debit: 0, credit: 0 });
+
+const emptyEntry = (): JournalEntry => ({
+  id: `je-${Date.now()}`,
+  date: new Date().toISOString().split('T')[0],
+  memo: '',
+  source: 'manual',
+  reversing: false,
+  lines: [emptyLine(), emptyLine()],
+});
+
+const formatMoney = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const JournalEntries: React.FC<JournalEntriesProps> = ({ entries, audit, categories, accounts, onSave, onDelete, closedThrough }) => {
+  const [draft, setDraft] = useState<JournalEntry | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const bankNames = useMemo(() => accounts.map(accountLabel), [accounts]);
+  const categoryNames = useMemo(() => categories.map(c => c.name).sort((a, b) => a.localeCompare(b)), [categories]);
+
+  const sortedEntries = useMemo(() => [...entries].sort((a, b) => b.date.localeCompare(a.date)), [entries]);
+
+  const updateDraft = (patch: Partial<JournalEntry>) => setDraft(prev => prev && { ...prev, ...patch });
+
+  const updateLine = (index: number, changes: Partial<JournalLine>) => {
+    setDraft(prev => prev && { ...prev, lines: prev.lines.map((l, i) => (i === index ? { ...l, ...changes } : l)) });
+  };
+
+  const totalDebit = draft ? draft.lines.reduce((sum, l) => sum + l.debit, 0) : 0;
+  const totalCredit = draft ? draft.lines.reduce((sum, l) => sum + l.credit, 0) : 0;
+  const isComplete = !!draft && !!draft.date && draft.lines.length >= 2
+    && draft.lines.every(l => l.account && (l.debit > 0) !== (l.credit > 0));
+  const isBalanced = !!draft && isEntryBalanced(draft) && totalDebit > 0;
+  const isDraftLocked = !!draft && isDateLocked(draft.date, closedThrough);
+
+  const handleSave = async () => {
+    if (!draft || !isComplete || !isBalanced || isDraftLocked) return;
+    setIsSaving(true);
+    try {
+      await onSave({
+        ...draft,
+        memo: draft.memo?.trim() || undefined,
+        lines: draft.lines.map(l => ({
+          ...l,
+          ...resolveLedgerAccount(l.account, categories, accounts),
+          memo: l.memo?.trim() || undefined,
+        })),
+      });
+      setDraft(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const cellInput = "w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold text-slate-800 outline-none focus:border-indigo-500";
+  const labelClass = "text-[9px] font-black uppercase tracking-widest text-slate-400";
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-black text-slate-900 tracking-tight flex items-center gap-3">
+            <BookOpen className="w-6 h-6 text-indigo-500" /> Journal Entries
+          </h2>
+          <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mt-1">Accruals, Reclassifications & Adjusting Entries</p>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => setDraft(emptyEntry())}
+            className="px-5 py-3 bg-slate-900 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-slate-800 transition active:scale-95 flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" /> New Entry
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="bg-white rounded-3xl border border-indigo-100 shadow-lg overflow-hidden animate-fade-in">
+          <div className="px-8 py-6 bg-slate-50/50 border-b border-slate-100 grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+            <div className="md:col-span-3 space-y-1">
+              <p className={labelClass}>Entry Date</p>
+              <input type="date" className={cellInput} value={draft.date} onChange={e => updateDraft({ date: e.target.value })} />
+            </div>
+            <div className="md:col-span-6 space-y-1">
+              <p className={labelClass}>Memo</p>
+              <input type="text" placeholder="Accrue December rent..." className={cellInput} value={draft.memo || ''} onChange={e => updateDraft({ memo: e.target.value })} />
+            </div>
+            <label className="md:col-span-3 flex items-center gap-2 py-2 cursor-pointer" title="Posts the opposite entry on the first day of the next month">
+              <input type="checkbox" checked={!!draft.reversing} onChange={e => updateDraft({ reversing: e.target.checked })} className="w-4 h-4 accent-indigo-600" />
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-600">Auto-reverse next month</span>
+            </label>
+          </div>
+
+          <div className="px-8 py-6 space-y-3">
+            <div className="grid grid-cols-12 gap-2 px-1">
+              <span className={`${labelClass} col-span-4`}>Account</span>
+              <span className={`${labelClass} col-span-2 text-right`}>Debit</span>
+              <span className={`${labelClass} col-span-2 text-right`}>Credit</span>
+              <span className={`${labelClass} col-span-3`}>Line Memo</span>
+            </div>
+            {draft.lines.map((line, i) => (
+              <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                <select
+                  className={`${cellInput} col-span-4 uppercase text-[10px] font-black`}
+                  value={line.account}
+                  onChange={e => updateLine(i, { account: e.target.value })}
+                >
+                  <option value="">-- Select Account --</option>
+                  {bankNames.length > 0 && (
+                    <optgroup label="Bank Accounts">
+                      {bankNames.map(name => <option key={name} value={name}>{name}</option>)}
+                    </optgroup>
+                  )}
+                  <optgroup label="System">
+                    <option value={CASH_ACCOUNT}>{CASH_ACCOUNT}</option>
+                    <option value={OPENING_BALANCE_EQUITY}>{OPENING_BALANCE_EQUITY}</option>
+                  </optgroup>
+                  <optgroup label="Categories">
+                    {categoryNames.map(name => <option key={name} value={name}>{name}</option>)}
+                  </optgroup>
+                </select>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  className={`${cellInput} col-span-2 text-right tabular-nums`}
+                  value={line.debit || ''}
+                  onChange={e => updateLine(i, { debit: Math.abs(parseFloat(e.target.value)) || 0, credit: 0 })}
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  className={`${cellInput} col-span-2 text-right tabular-nums`}
+                  value={line.credit || ''}
+                  onChange={e => updateLine(i, { credit: Math.abs(parseFloat(e.target.value)) || 0, debit: 0 })}
+                />
+                <input
+                  type="text"
+                  placeholder="Memo"
+                  className={`${cellInput} col-span-3`}
+                  value={line.memo || ''}
+                  onChange={e => updateLine(i, { memo: e.target.value })}
+                />
+                <button
+                  onClick={() => updateDraft({ lines: draft.lines.filter((_, j) => j !== i) })}
+                  disabled={draft.lines.length <= 2}
+                  className="col-span-1 p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-all disabled:opacity-30 justify-self-center"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+            <div className="grid grid-cols-12 gap-2 items-center pt-3 border-t border-slate-100">
+              <div className="col-span-4">
+                <button
+                  onClick={() => updateDraft({ lines: [...draft.lines, emptyLine()] })}
+                  className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition flex items-center gap-2"
+                >
+                  <Plus className="w-3.5 h-3.5" /> Add Line
+                </button>
+              </div>
+              <span className="col-span-2 text-right text-xs font-black text-slate-900 tabular-nums px-3">${formatMoney(totalDebit)}</span>
+              <span className="col-span-2 text-right text-xs font-black text-slate-900 tabular-nums px-3">${formatMoney(totalCredit)}</span>
+            </div>
+          </div>
+
+          <div className="px-8 py-5 bg-slate-50/50 border-t border-slate-100 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            {isDraftLocked ? (
+              <span className="text-[10px] font-black uppercase tracking-widest text-rose-500 flex items-center gap-2">
+                <Lock className="w-3.5 h-3.5" /> Books are closed through {closedThrough}
+              </span>
+            ) : (
+              <span className={`text-[10px] font-black uppercase tracking-widest tabular-nums ${isBalanced ? 'text-emerald-600' : 'text-rose-500'}`}>
+                {isBalanced ? 'Debits equal credits' : `Out of balance by $${formatMoney(Math.abs(totalDebit - totalCredit))}`}
+              </span>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={() => setDraft(null)}
+                className="px-4 py-2.5 bg-slate-100 text-slate-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !isComplete || !isBalanced || isDraftLocked}
+                className="px-4 py-2.5 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 disabled:opacity-30 transition flex items-center gap-2"
+              >
+                {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />} Post Entry
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-3">
+          {sortedEntries.length === 0 && (
+            <div className="bg-white rounded-3xl border border-slate-100 p-12 text-center text-[10px] font-black uppercase tracking-widest text-slate-300">
+              No journal entries yet
+            </div>
+          )}
+          {sortedEntries.map(entry => (
+            <div key={entry.id} className="bg-white rounded-3xl border border-slate-100 shadow-sm p-6 group">
+              <div className="flex justify-between items-start gap-4 mb-4">
+                <div className="min-w-0">
+                  <p className="text-xs font-black text-slate-800 uppercase tracking-tight truncate">{entry.memo || 'Journal Entry'}</p>
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1 flex items-center gap-2">
+                    {entry.date} · ${formatMoney(entryTotal(entry))}
+                    {entry.reversing && (
+                      <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-amber-50 text-amber-600 rounded-md">
+                        <RotateCcw className="w-3 h-3" /> Reversing
+                      </span>
+                    )}
+                  </p>
+                </div>
+                {isDateLocked(entry.date, closedThrough) ? (
+                  <span title={`Closed through ${closedThrough}`} className="p-2 text-slate-300 shrink-0"><Lock className="w-3.5 h-3.5" /></span>
+                ) : confirmDelete === entry.id ? (
+                  <div className="flex gap-2 shrink-0">
+                    <button onClick={() => { onDelete(entry); setConfirmDelete(null); }} className="px-3 py-1.5 bg-rose-600 text-white text-[9px] font-black uppercase rounded-lg">Delete</button>
+                    <button onClick={() => setConfirmDelete(null)} className="px-3 py-1.5 bg-slate-100 text-slate-600 text-[9px] font-black uppercase rounded-lg"><X className="w-3 h-3" /></button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-all shrink-0">
+                    <button onClick={() => setDraft({ ...entry, lines: entry.lines.map(l => ({ ...l })) })} className="p-2 text-slate-300 hover:text-indigo-600"><Edit2 className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => setConfirmDelete(entry.id)} className="p-2 text-slate-300 hover:text-rose-600"><Trash2 className="w-3.5 h-3.5" /></button>
+                  </div>
+                )}
+              </div>
+              <table className="w-full text-xs">
+                <tbody>
+                  {entry.lines.map((line, i) => (
+                    <tr key={i} className="border-t border-slate-50">
+                      <td className={`py-2 font-bold text-slate-600 uppercase tracking-tight ${line.credit > 0 ? 'pl-8' : ''}`}>
+                        {line.account}
+                        {line.memo && <span className="block text-[9px] text-slate-400 normal-case tracking-normal">{line.memo}</span>}
+                      </td>
+                      <td className="py-2 text-right tabular-nums font-bold text-slate-800 w-28">{line.debit > 0 ? formatMoney(line.debit) : ''}</td>
+                      <td className="py-2 text-right tabular-nums font-bold text-slate-800 w-28">{line.credit > 0 ? formatMoney(line.credit) : ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-3xl border border-slate-100 shadow-sm p-6 h-fit">
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-500 flex items-center gap-2 mb-4">
+            <History className="w-3.5 h-3.5" /> Audit Trail
+          </h3>
+          {audit.length === 0 && <p className="text-[10px] font-black uppercase tracking-widest text-slate-300">No changes recorded</p>}
+          <div className="space-y-3">
+            {audit.map(event => (
+              <div key={event.id} className="border-l-2 border-slate-100 pl-3">
+                <p className={`text-[9px] font-black uppercase tracking-widest ${event.action === 'deleted' ? 'text-rose-500' : event.action === 'created' ? 'text-emerald-600' : 'text-indigo-500'}`}>
+                  {event.action} · {new Date(event.at).toLocaleString()}
+                </p>
+                <p className="text-[11px] font-bold text-slate-600 mt-0.5">{event.summary}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JournalEntries;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Gauge, SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { LenderMetric, LenderMetricId, MetricStatus, MetricThreshold } from '../types';
+import { DEFAULT_THRESHOLDS, formatMetric } from '../services/lenderMetricsService';
+
+interface LenderMetricsPanelProps {
+  metrics: LenderMetric[];
+  thresholds: Record<LenderMetricId, MetricThreshold>;
+  onChangeThresholds: (thresholds: Record<LenderMetricId, MetricThreshold>) => void;
+}
+
+const STATUS_STYLES: Record<MetricStatus, { card: string; badge: string; label: string }> = {
+  pass: { card: 'border-emerald-100', badge: 'bg-emerald-50 text-emerald-700', label: 'Pass' },
+  warn: { card: 'border-amber-100', badge: 'bg-amber-50 text-amber-700', label: 'Watch' },
+  fail: { card: 'border-rose-200', badge: 'bg-rose-50 text-rose-700', label: 'Fail' },
+  na: { card: 'border-slate-100', badge: 'bg-slate-50 text-slate-400', label: 'N/A' },
+};
+
+// Percent metrics are stored as fractions but edited as percentages
+const toInput = (metric: LenderMetric, value: number) => metric.format === 'percent' ? +(value * 100).toFixed(2) : value;
+const fromInput = (metric: LenderMetric, value: number) => metric.format === 'percent' ? value / 100 : value;
+
+const LenderMetricsPanel: React.FC<LenderMetricsPanelProps> = ({ metrics, thresholds, onChangeThresholds }) => {
+  const [isEditing, setIsEditing] = useState(false);
+
+  const updateThreshold = (metric: LenderMetric, key: keyof MetricThreshold, raw: string) => {
+    const value = parseFloat(raw);
+    if (isNaN(value)) return;
+    onChangeThresholds({ ...thresholds, [metric.id]: { ...thresholds[metric.id], [key]: fromInput(metric, value) } });
+  };
+
+  const failing = metrics.filter(m => m.status === 'fail').length;
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm print:hidden">
+      <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 mb-6">
+        <div>
+          <h3 className="font-black text-slate-800 text-lg tracking-tight flex items-center gap-2">
+            <Gauge className="w-5 h-5 text-indigo-500" /> Lender Metrics
+          </h3>
+          <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mt-1">
+            {failing ? `${failing} covenant${failing > 1 ? 's' : ''} below threshold` : 'Measured against typical SBA & bank covenants'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {isEditing && (
+            <button
+              onClick={() => onChangeThresholds(DEFAULT_THRESHOLDS)}
+              className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition flex items-center gap-2"
+            >
+              <RotateCcw className="w-3.5 h-3.5" /> Defaults
+            </button>
+          )}
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition flex items-center gap-2 ${isEditing ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+          >
+            <SlidersHorizontal className="w-3.5 h-3.5" /> Thresholds
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {metrics.map(metric => {
+          const style = STATUS_STYLES[metric.status];
+          const threshold = thresholds[metric.id];
+          const comparator = metric.higherIsBetter ? '≥' : '≤';
+          return (
+            <div key={metric.id} className={`rounded-2xl border-2 p-4 ${style.card}`}>
+              <div className="flex justify-between items-start gap-2">
+                <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">{metric.label}</p>
+                <span className={`px-2 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest ${style.badge}`}>{style.label}</span>
+              </div>
+              <p className="text-xl font-black text-slate-900 tabular-nums mt-2">{formatMetric(metric)}</p>
+              {isEditing ? (
+                <div className="grid grid-cols-2 gap-2 mt-3">
+                  {(['pass', 'warn'] as const).map(key => (
+                    <label key={key} className="space-y-1">
+                      <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">{key} {comparator}</span>
+                      <input
+                        type="number"
+                        step="any"
+                        defaultValue={toInput(metric, threshold[key])}
+                        key={`${key}-${threshold[key]}`}
+                        onBlur={e => updateThreshold(metric, key, e.target.value)}
+                        className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold outline-none focus:border-indigo-500"
+                      />
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-[9px] font-bold text-slate-400 mt-1">
+                  Target {comparator} {formatMetric({ value: threshold.pass, format: metric.format })}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LenderMetricsPanel;
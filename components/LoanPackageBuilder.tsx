@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { BookCopy, ChevronUp, ChevronDown, Loader2, Download, FileText } from 'lucide-react';
+import { PackageLayout, PackageSectionId, SourceDocument } from '../types';
+import { PACKAGE_SECTION_LABELS, getPackageLayout, savePackageLayout } from '../services/loanPackageService';
+
+interface LoanPackageBuilderProps {
+  // Uploaded statements that overlap the report period
+  documents: SourceDocument[];
+  hasNarrative: boolean;
+  onExport: (layout: PackageLayout, documentIds: string[]) => Promise<void>;
+  isBlocked?: boolean;
+}
+
+const LoanPackageBuilder: React.FC<LoanPackageBuilderProps> = ({ documents, hasNarrative, onExport, isBlocked }) => {
+  const [layout, setLayout] = useState<PackageLayout>(getPackageLayout);
+  const [selectedDocs, setSelectedDocs] = useState<Set<string>>(() => new Set(documents.map(d => d.id)));
+  const [showDocuments, setShowDocuments] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Newly uploaded statements start out included
+  useEffect(() => {
+    setSelectedDocs(new Set(documents.map(d => d.id)));
+  }, [documents]);
+
+  const updateLayout = (next: PackageLayout) => {
+    setLayout(next);
+    savePackageLayout(next);
+  };
+
+  const toggleSection = (id: PackageSectionId) =>
+    updateLayout({ ...layout, sections: layout.sections.map(s => s.id === id ? { ...s, enabled: !s.enabled } : s) });
+
+  const moveSection = (index: number, offset: number) => {
+    const sections = [...layout.sections];
+    const [moved] = sections.splice(index, 1);
+    sections.splice(index + offset, 0, moved);
+    updateLayout({ ...layout, sections });
+  };
+
+  const toggleDocument = (id: string) => {
+    const next = new Set(selectedDocs);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedDocs(next);
+  };
+
+  const sectionNote = (id: PackageSectionId) => {
+    if (id === 'memo' && !hasNarrative) return 'Generate the AI memo to include it';
+    if (id === 'documents') return `${selectedDocs.size} of ${documents.length} statement${documents.length === 1 ? '' : 's'}`;
+    return null;
+  };
+
+  const enabledCount = layout.sections.filter(s => s.enabled && (s.id !== 'memo' || hasNarrative)).length;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(layout, documents.filter(d => selectedDocs.has(d.id)).map(d => d.id));
+    } catch (e) {
+      console.error("Package export failed", e);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm print:hidden space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+        <div>
+          <h3 className="font-black text-slate-800 text-lg tracking-tight flex items-center gap-2">
+            <BookCopy className="w-5 h-5 text-indigo-500" /> Loan Package
+          </h3>
+          <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mt-1">
+            Choose and order the sections, then export one PDF
+          </p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={isExporting || isBlocked || enabledCount === 0}
+          title={isBlocked ? 'Resolve unreconciled statements first' : undefined}
+          className="px-5 py-3 bg-slate-900 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-slate-800 disabled:opacity-30 transition active:scale-95 flex items-center gap-2"
+        >
+          {isExporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />} Export Full Package
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(['cover', 'contents'] as const).map(key => (
+          <button
+            key={key}
+            onClick={() => updateLayout({ ...layout, [key]: !layout[key] })}
+            className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition ${layout[key] ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+          >
+            {key === 'cover' ? 'Cover Page' : 'Table of Contents'}
+          </button>
+        ))}
+      </div>
+
+      <div className="divide-y divide-slate-50 border border-slate-100 rounded-2xl">
+        {layout.sections.map((section, index) => {
+          const note = sectionNote(section.id);
+          return (
+            <div key={section.id} className={`flex items-center justify-between gap-4 px-4 py-3 ${section.enabled ? '' : 'opacity-50'}`}>
+              <label className="flex items-center gap-3 min-w-0 cursor-pointer">
+                <input type="checkbox" checked={section.enabled} onChange={() => toggleSection(section.id)} className="w-4 h-4 accent-indigo-600 shrink-0" />
+                <span className="text-[10px] font-black text-slate-300 tabular-nums w-4">{index + 1}</span>
+                <span className="text-xs font-black text-slate-800 uppercase tracking-tight truncate">{PACKAGE_SECTION_LABELS[section.id]}</span>
+                {note && <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest truncate">{note}</span>}
+              </label>
+              <div className="flex items-center gap-1 shrink-0">
+                {section.id === 'documents' && documents.length > 0 && (
+                  <button onClick={() => setShowDocuments(!showDocuments)} title="Choose statements" className={`p-1.5 rounded-lg transition ${showDocuments ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 hover:text-indigo-600'}`}>
+                    <FileText className="w-4 h-4" />
+                  </button>
+                )}
+                <button onClick={() => moveSection(index, -1)} disabled={index === 0} className="p-1.5 text-slate-400 hover:text-slate-800 disabled:opacity-20">
+                  <ChevronUp className="w-4 h-4" />
+                </button>
+                <button onClick={() => moveSection(index, 1)} disabled={index === layout.sections.length - 1} className="p-1.5 text-slate-400 hover:text-slate-800 disabled:opacity-20">
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {showDocuments && (
+        <div className="bg-slate-50 rounded-2xl p-4 space-y-2 animate-fade-in">
+          {documents.map(doc => (
+            <label key={doc.id} className="flex items-center justify-between gap-4 text-[10px] cursor-pointer">
+              <span className="flex items-center gap-3 min-w-0">
+                <input type="checkbox" checked={selectedDocs.has(doc.id)} onChange={() => toggleDocument(doc.id)} className="w-3.5 h-3.5 accent-indigo-600 shrink-0" />
+                <span className="font-black text-slate-700 uppercase tracking-tight truncate">{doc.fileName}</span>
+              </span>
+              <span className="font-bold text-slate-400 tabular-nums shrink-0">
+                {doc.statementStart && doc.statementEnd ? `${doc.statementStart} – ${doc.statementEnd}` : 'Undated'}
+                {!doc.storagePath && ' · original not stored'}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LoanPackageBuilder;
@@ -0,0 +1,265 @@
+import React, { useMemo, useState } from 'react';
+import { HandCoins, Plus, Edit2, Trash2, Loader2, ChevronDown, ChevronRight, X } from 'lucide-react';
+import { Loan, Category, Transaction, AccountType } from '../types';
+import { getAccountClassification } from '../services/classificationService';
+import { amortizationSchedule, monthlyPayment, loanPosition } from '../services/loanService';
+
+interface LoanRegisterProps {
+  loans: Loan[];
+  categories: Category[];
+  transactions: Transaction[];
+  onSave: (loan: Loan) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+const emptyLoan = (): Loan => ({
+  id: `loan-${Date.now()}`,
+  name: '',
+  lender: '',
+  principal: 0,
+  annualRate: 0,
+  termMonths: 60,
+  startDate: new Date().toISOString().split('T')[0],
+  paymentAmount: 0,
+  liabilityAccount: 'Loans',
+  paymentCategory: '',
+  keywords: [],
+});
+
+const formatMoney = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const isLiability = (type: AccountType | 'PL_ITEM') =>
+  type === AccountType.LONG_TERM_LIAB || type === AccountType.CURRENT_LIABILITY || type === AccountType.LIABILITY;
+
+const LoanRegister: React.FC<LoanRegisterProps> = ({ loans, categories, transactions, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<Loan | null>(null);
+  const [keywordText, setKeywordText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const liabilityAccounts = useMemo(() => {
+    const names = categories.filter(c => isLiability(getAccountClassification(c.name, categories))).map(c => c.name);
+    return names.includes('Loans') ? names : ['Loans', ...names];
+  }, [categories]);
+
+  const positions = useMemo(
+    () => new Map(loans.map(loan => [loan.id, loanPosition(loan, transactions, today)])),
+    [loans, transactions, today]
+  );
+
+  const update = (patch: Partial<Loan>) => setDraft(prev => prev && { ...prev, ...patch });
+
+  const openDraft = (loan: Loan) => {
+    setDraft({ ...loan });
+    setKeywordText(loan.keywords.join(', '));
+  };
+
+  const suggestedPayment = draft ? monthlyPayment(draft.principal, draft.annualRate, draft.termMonths) : 0;
+  const isValid = !!draft && !!draft.name.trim() && draft.principal > 0 && draft.termMonths >= 1
+    && draft.annualRate >= 0 && !!draft.startDate && !!draft.liabilityAccount;
+
+  const handleSave = async () => {
+    if (!draft || !isValid) return;
+    setIsSaving(true);
+    try {
+      await onSave({
+        ...draft,
+        name: draft.name.trim(),
+        lender: draft.lender?.trim() || undefined,
+        paymentAmount: draft.paymentAmount > 0 ? draft.paymentAmount : suggestedPayment,
+        paymentCategory: draft.paymentCategory || undefined,
+        keywords: keywordText.split(',').map(k => k.trim()).filter(Boolean),
+      });
+      setDraft(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full px-4 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-bold focus:border-indigo-500 outline-none transition-all shadow-sm";
+  const labelClass = "text-[9px] font-black uppercase tracking-widest text-slate-400";
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-black text-slate-900 tracking-tight flex items-center gap-3">
+            <HandCoins className="w-6 h-6 text-indigo-500" /> Loan Register
+          </h2>
+          <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mt-1">Amortization & Principal / Interest Splits</p>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => openDraft(emptyLoan())}
+            className="px-5 py-3 bg-slate-900 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-slate-800 transition active:scale-95 flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" /> Add Loan
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="bg-white rounded-3xl border border-indigo-100 shadow-lg p-8 space-y-4 animate-fade-in">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="md:col-span-2 space-y-1">
+              <p className={labelClass}>Loan Name</p>
+              <input type="text" placeholder="Vehicle Loan..." className={inputClass} value={draft.name} onChange={e => update({ name: e.target.value })} />
+            </div>
+            <div className="md:col-span-2 space-y-1">
+              <p className={labelClass}>Lender</p>
+              <input type="text" placeholder="Bank name" className={inputClass} value={draft.lender || ''} onChange={e => update({ lender: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>Principal</p>
+              <input type="number" step="0.01" min="0" className={inputClass} value={draft.principal} onChange={e => update({ principal: parseFloat(e.target.value) || 0 })} />
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>Annual Rate (%)</p>
+              <input type="number" step="0.01" min="0" className={inputClass} value={draft.annualRate} onChange={e => update({ annualRate: parseFloat(e.target.value) || 0 })} />
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>Term (Months)</p>
+              <input type="number" step="1" min="1" className={inputClass} value={draft.termMonths} onChange={e => update({ termMonths: parseInt(e.target.value) || 0 })} />
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>Start Date</p>
+              <input type="date" className={inputClass} value={draft.startDate} onChange={e => update({ startDate: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>Monthly Payment</p>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder={suggestedPayment ? suggestedPayment.toFixed(2) : ''}
+                className={inputClass}
+                value={draft.paymentAmount || ''}
+                onChange={e => update({ paymentAmount: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>Liability Account</p>
+              <select className={inputClass} value={draft.liabilityAccount} onChange={e => update({ liabilityAccount: e.target.value })}>
+                {liabilityAccounts.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>Payment Category</p>
+              <select className={inputClass} value={draft.paymentCategory || ''} onChange={e => update({ paymentCategory: e.target.value })}>
+                <option value="">-- Keywords Only --</option>
+                {categories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <p className={labelClass}>Description Keywords</p>
+              <input type="text" placeholder="ally auto, loan pmt" className={inputClass} value={keywordText} onChange={e => setKeywordText(e.target.value)} />
+            </div>
+          </div>
+          <p className="text-[10px] font-bold text-slate-400">
+            Matching payments are split into interest expense and a reduction of {draft.liabilityAccount}. Leave the payment blank to use the level payment of ${formatMoney(suggestedPayment)}.
+          </p>
+          <div className="flex gap-2 justify-end">
+            <button onClick={() => setDraft(null)} className="px-6 py-3 bg-slate-100 text-slate-600 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !isValid}
+              className="px-6 py-3 bg-slate-900 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 disabled:opacity-30 transition-all flex items-center gap-2"
+            >
+              {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />} {loans.some(l => l.id === draft.id) ? 'Save Changes' : 'Add Loan'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loans.length === 0 && (
+        <div className="bg-white rounded-3xl border border-slate-100 p-12 text-center text-[10px] font-black uppercase tracking-widest text-slate-300">
+          No loans recorded
+        </div>
+      )}
+
+      {loans.map(loan => {
+        const position = positions.get(loan.id)!;
+        const isExpanded = expandedId === loan.id;
+        return (
+          <div key={loan.id} className="bg-white rounded-3xl border border-slate-100 shadow-sm overflow-hidden group">
+            <div className="p-6 flex flex-col md:flex-row md:items-center gap-6">
+              <button onClick={() => setExpandedId(isExpanded ? null : loan.id)} className="flex items-center gap-3 text-left flex-1 min-w-0">
+                {isExpanded ? <ChevronDown className="w-4 h-4 text-slate-400 shrink-0" /> : <ChevronRight className="w-4 h-4 text-slate-400 shrink-0" />}
+                <div className="min-w-0">
+                  <p className="text-sm font-black text-slate-800 uppercase tracking-tight truncate">{loan.name}</p>
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-0.5">
+                    {loan.lender ? `${loan.lender} · ` : ''}${formatMoney(loan.principal)} @ {loan.annualRate}% · {loan.termMonths} mo · ${formatMoney(loan.paymentAmount)}/mo
+                  </p>
+                </div>
+              </button>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-right">
+                {[
+                  ['Balance', position.balance],
+                  ['Current', position.currentPortion],
+                  ['Long-Term', position.longTermPortion],
+                  ['Interest Paid', position.interestPaid],
+                ].map(([label, value]) => (
+                  <div key={label as string}>
+                    <p className={labelClass}>{label}</p>
+                    <p className="text-xs font-black text-slate-900 tabular-nums">${formatMoney(value as number)}</p>
+                  </div>
+                ))}
+              </div>
+              {confirmDelete === loan.id ? (
+                <div className="flex gap-1 shrink-0">
+                  <button onClick={() => { onDelete(loan.id); setConfirmDelete(null); }} className="px-3 py-1.5 bg-rose-600 text-white text-[9px] font-black uppercase rounded-lg">Delete</button>
+                  <button onClick={() => setConfirmDelete(null)} className="px-2 py-1.5 bg-slate-100 text-slate-600 rounded-lg"><X className="w-3 h-3" /></button>
+                </div>
+              ) : (
+                <div className="flex gap-1 shrink-0 opacity-0 group-hover:opacity-100 transition-all">
+                  <button onClick={() => openDraft(loan)} className="p-2 text-slate-300 hover:text-indigo-600"><Edit2 className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => setConfirmDelete(loan.id)} className="p-2 text-slate-300 hover:text-rose-600"><Trash2 className="w-3.5 h-3.5" /></button>
+                </div>
+              )}
+            </div>
+            {isExpanded && (
+              <div className="border-t border-slate-100 bg-slate-50/50 px-6 py-4">
+                <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-3">
+                  Scheduled Amortization · {position.paymentsMade} payment{position.paymentsMade === 1 ? '' : 's'} matched in the ledger
+                </p>
+                <div className="max-h-80 overflow-y-auto">
+                  <table className="w-full text-[11px]">
+                    <thead className="sticky top-0 bg-slate-50">
+                      <tr className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                        <th className="text-left py-1">#</th>
+                        <th className="text-left py-1">Due</th>
+                        <th className="text-right py-1">Payment</th>
+                        <th className="text-right py-1">Interest</th>
+                        <th className="text-right py-1">Principal</th>
+                        <th className="text-right py-1">Balance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {amortizationSchedule(loan).map(row => (
+                        <tr key={row.period} className={`border-t border-slate-100 ${row.date <= today ? 'text-slate-400' : 'text-slate-700'}`}>
+                          <td className="py-1.5 font-black">{row.period}</td>
+                          <td className="py-1.5 font-bold tabular-nums">{row.date}</td>
+                          <td className="py-1.5 text-right tabular-nums font-bold">${formatMoney(row.payment)}</td>
+                          <td className="py-1.5 text-right tabular-nums font-bold">${formatMoney(row.interest)}</td>
+                          <td className="py-1.5 text-right tabular-nums font-bold">${formatMoney(row.principal)}</td>
+                          <td className="py-1.5 text-right tabular-nums font-black">${formatMoney(row.balance)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LoanRegister;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Lock, Unlock, History, Loader2, X } from 'lucide-react';
+import { PeriodCloseEvent } from '../types';
+import { currentClosedThrough } from '../services/periodCloseService';
+
+interface PeriodClosePanelProps {
+  log: PeriodCloseEvent[];
+  onClosePeriod: (closedThrough: string) => Promise<void>;
+  // Reopens everything after `closedThrough`, or the whole ledger when it is null
+  onReopenPeriod: (closedThrough: string | null, reason: string) => Promise<void>;
+}
+
+const PeriodClosePanel: React.FC<PeriodClosePanelProps> = ({ log, onClosePeriod, onReopenPeriod }) => {
+  const closedThrough = currentClosedThrough(log);
+  const [closeDate, setCloseDate] = useState('');
+  const [isReopening, setIsReopening] = useState(false);
+  const [reopenTo, setReopenTo] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // A close can only move the lock date forward; moving it back is a reopen
+  const canClose = !!closeDate && (!closedThrough || closeDate > closedThrough);
+  const canReopen = !!reason.trim() && (!reopenTo || (!!closedThrough && reopenTo < closedThrough));
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+      setCloseDate('');
+      setReopenTo('');
+      setReason('');
+      setIsReopening(false);
+    } catch {
+      // The handler has already reported the failure
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold text-slate-800 outline-none focus:border-indigo-500";
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-100 shadow-sm p-6 space-y-4">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className={`p-2.5 rounded-xl ${closedThrough ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-400'}`}>
+            {closedThrough ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+          </div>
+          <div>
+            <h3 className="text-sm font-black text-slate-800 tracking-tight">
+              {closedThrough ? `Books closed through ${closedThrough}` : 'All periods open'}
+            </h3>
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+              {closedThrough ? 'Earlier transactions and journal entries are read-only' : 'Close a period once its statements have been delivered'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="date" className={inputClass} value={closeDate} onChange={e => setCloseDate(e.target.value)} disabled={isSaving} />
+          <button
+            onClick={() => run(() => onClosePeriod(closeDate))}
+            disabled={!canClose || isSaving}
+            className="px-4 py-2.5 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 disabled:opacity-30 transition flex items-center gap-2"
+          >
+            {isSaving && !isReopening ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Lock className="w-3.5 h-3.5" />} Close Through
+          </button>
+          {closedThrough && (
+            <button
+              onClick={() => setIsReopening(!isReopening)}
+              className={`px-4 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition flex items-center gap-2 ${isReopening ? 'bg-amber-500 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+            >
+              <Unlock className="w-3.5 h-3.5" /> Reopen
+            </button>
+          )}
+          {log.length > 0 && (
+            <button onClick={() => setShowHistory(!showHistory)} title="Close history" className="p-2.5 bg-slate-50 border border-slate-200 text-slate-400 hover:text-indigo-600 rounded-xl transition-colors">
+              <History className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isReopening && closedThrough && (
+        <div className="bg-amber-50 border border-amber-100 rounded-2xl p-4 grid grid-cols-1 md:grid-cols-12 gap-3 items-end animate-fade-in">
+          <label className="md:col-span-3 space-y-1">
+            <span className="text-[9px] font-black uppercase tracking-widest text-amber-700">Keep closed through</span>
+            <input type="date" className={`${inputClass} w-full`} value={reopenTo} max={closedThrough} onChange={e => setReopenTo(e.target.value)} />
+          </label>
+          <label className="md:col-span-6 space-y-1">
+            <span className="text-[9px] font-black uppercase tracking-widest text-amber-700">Reason (required)</span>
+            <input type="text" className={`${inputClass} w-full`} value={reason} placeholder="Bank requested restated Q3 figures..." onChange={e => setReason(e.target.value)} />
+          </label>
+          <div className="md:col-span-3 flex gap-2">
+            <button
+              onClick={() => run(() => onReopenPeriod(reopenTo || null, reason.trim()))}
+              disabled={!canReopen || isSaving}
+              className="flex-1 px-4 py-2.5 bg-amber-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-amber-500 disabled:opacity-30 transition flex items-center justify-center gap-2"
+            >
+              {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />} {reopenTo ? 'Reopen After' : 'Reopen All'}
+            </button>
+            <button onClick={() => setIsReopening(false)} className="p-2.5 bg-white text-slate-500 rounded-xl hover:bg-slate-100 transition">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showHistory && (
+        <div className="border-t border-slate-100 pt-4 space-y-2">
+          {log.map(event => (
+            <div key={event.id} className="flex items-start justify-between gap-4 text-[10px]">
+              <div className="min-w-0">
+                <p className="font-black uppercase tracking-widest text-slate-700">
+                  {event.action === 'closed' ? `Closed through ${event.closedThrough}` : event.closedThrough ? `Reopened after ${event.closedThrough}` : 'Reopened all periods'}
+                </p>
+                {event.reason && <p className="font-bold text-slate-500 truncate">{event.reason}</p>}
+              </div>
+              <span className="font-bold text-slate-400 tabular-nums shrink-0">{new Date(event.at).toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PeriodClosePanel;
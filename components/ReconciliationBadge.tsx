@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { CheckCircle2, AlertTriangle, ShieldCheck } from 'lucide-react';
+import { StatementReconciliation } from '../types';
+
+interface ReconciliationBadgeProps {
+  reconciliation: StatementReconciliation;
+  onOverride: (reason: string) => void;
+}
+
+const money = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const ReconciliationBadge: React.FC<ReconciliationBadgeProps> = ({ reconciliation: r, onOverride }) => {
+  const [isOverriding, setIsOverriding] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const submit = () => {
+    if (!reason.trim()) return;
+    onOverride(reason.trim());
+    setIsOverriding(false);
+    setReason('');
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-50 space-y-2">
+      <div className="flex items-center justify-between">
+        {r.status === 'passed' ? (
+          <span className="flex items-center gap-1.5 text-[9px] px-2 py-1 rounded-lg font-black uppercase tracking-widest bg-emerald-50 text-emerald-600">
+            <CheckCircle2 className="w-3 h-3" /> Reconciled
+          </span>
+        ) : r.overrideReason ? (
+          <span className="flex items-center gap-1.5 text-[9px] px-2 py-1 rounded-lg font-black uppercase tracking-widest bg-amber-50 text-amber-600">
+            <ShieldCheck className="w-3 h-3" /> Overridden
+          </span>
+        ) : (
+          <span className="flex items-center gap-1.5 text-[9px] px-2 py-1 rounded-lg font-black uppercase tracking-widest bg-rose-50 text-rose-600">
+            <AlertTriangle className="w-3 h-3" /> Off by ${money(r.discrepancy)}
+          </span>
+        )}
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest tabular-nums">Closing ${money(r.closingBalance)}</span>
+      </div>
+
+      <p className="text-[9px] font-bold text-slate-400 tabular-nums">
+        ${money(r.openingBalance)} + ${money(r.totalIncome)} − ${money(r.totalExpense)} = ${money(r.openingBalance + r.totalIncome - r.totalExpense)}
+      </p>
+
+      {r.overrideReason && <p className="text-[9px] font-bold text-amber-700 truncate" title={r.overrideReason}>“{r.overrideReason}”</p>}
+
+      {r.status === 'failed' && !r.overrideReason && (
+        isOverriding ? (
+          <div className="flex gap-2">
+            <input
+              autoFocus
+              className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-[10px] font-bold outline-none focus:border-amber-500"
+              placeholder="Reason for accepting the difference"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && submit()}
+            />
+            <button onClick={submit} disabled={!reason.trim()} className="px-3 py-1.5 bg-amber-500 text-white rounded-lg text-[9px] font-black uppercase tracking-widest disabled:opacity-30">
+              Sign Off
+            </button>
+          </div>
+        ) : (
+          <button onClick={() => setIsOverriding(true)} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-amber-600 transition">
+            Override for loan package
+          </button>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ReconciliationBadge;
@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Archive, Stamp, Loader2, GitCompare, ShieldCheck, ShieldAlert, X, Sparkles } from 'lucide-react';
+import { ReportSnapshot, SnapshotLine } from '../types';
+import { diffSnapshot, hasChanged, verifySnapshot } from '../services/snapshotService';
+
+interface ReportSnapshotsProps {
+  // Snapshots of the current business, newest first
+  snapshots: ReportSnapshot[];
+  liveFigures: SnapshotLine[];
+  onFinalize: () => Promise<void>;
+  isBlocked?: boolean;
+}
+
+const formatMoney = (n: number | null) => n === null ? '—' : n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const ReportSnapshots: React.FC<ReportSnapshotsProps> = ({ snapshots, liveFigures, onFinalize, isBlocked }) => {
+  const [isFinalizing, setIsFinalizing] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [changedOnly, setChangedOnly] = useState(true);
+  const [integrity, setIntegrity] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(snapshots.map(async s => [s.id, await verifySnapshot(s)] as const)).then(results => {
+      if (!cancelled) setIntegrity(Object.fromEntries(results));
+    });
+    return () => { cancelled = true; };
+  }, [snapshots]);
+
+  const selected = snapshots.find(s => s.id === selectedId);
+  const diff = useMemo(() => selected ? diffSnapshot(selected.figures, liveFigures) : [], [selected, liveFigures]);
+  const changedCount = diff.filter(hasChanged).length;
+  const visibleRows = changedOnly ? diff.filter(hasChanged) : diff;
+
+  const handleFinalize = async () => {
+    setIsFinalizing(true);
+    try {
+      await onFinalize();
+    } catch {
+      // The handler has already reported the failure
+    } finally {
+      setIsFinalizing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm print:hidden space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+        <div>
+          <h3 className="font-black text-slate-800 text-lg tracking-tight flex items-center gap-2">
+            <Archive className="w-5 h-5 text-indigo-500" /> Report Versions
+          </h3>
+          <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mt-1">
+            {snapshots.length ? `${snapshots.length} finalized snapshot${snapshots.length > 1 ? 's' : ''}` : 'Freeze the figures you send to a lender'}
+          </p>
+        </div>
+        <button
+          onClick={handleFinalize}
+          disabled={isFinalizing || isBlocked}
+          title={isBlocked ? 'Resolve unreconciled statements first' : undefined}
+          className="px-5 py-3 bg-slate-900 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-slate-800 disabled:opacity-30 transition active:scale-95 flex items-center gap-2"
+        >
+          {isFinalizing ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Stamp className="w-3.5 h-3.5" />} Finalize Report
+        </button>
+      </div>
+
+      {snapshots.length > 0 && (
+        <div className="divide-y divide-slate-50 border border-slate-100 rounded-2xl">
+          {snapshots.map(snapshot => (
+            <div key={snapshot.id} className={`flex items-center justify-between gap-4 px-4 py-3 ${selectedId === snapshot.id ? 'bg-indigo-50/40' : ''}`}>
+              <div className="min-w-0">
+                <p className="text-xs font-black text-slate-800 uppercase tracking-tight truncate">{snapshot.period}</p>
+                <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mt-0.5 flex items-center gap-2">
+                  {new Date(snapshot.createdAt).toLocaleString()}
+                  <span className="font-mono normal-case tracking-normal">#{snapshot.hash.slice(0, 12)}</span>
+                  {integrity[snapshot.id] === false ? (
+                    <span className="inline-flex items-center gap-1 text-rose-600"><ShieldAlert className="w-3 h-3" /> Hash mismatch</span>
+                  ) : integrity[snapshot.id] && (
+                    <span className="inline-flex items-center gap-1 text-emerald-600"><ShieldCheck className="w-3 h-3" /> Verified</span>
+                  )}
+                </p>
+              </div>
+              <button
+                onClick={() => setSelectedId(selectedId === snapshot.id ? null : snapshot.id)}
+                className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition flex items-center gap-2 shrink-0 ${selectedId === snapshot.id ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+              >
+                <GitCompare className="w-3.5 h-3.5" /> Compare
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="space-y-4 animate-fade-in">
+          <div className="flex flex-wrap justify-between items-center gap-3">
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+              {changedCount ? `${changedCount} line${changedCount > 1 ? 's' : ''} changed since finalized` : 'Live figures match the snapshot'}
+              <span className="text-slate-300"> · {selected.adjustments.length} adjustments · {Object.keys(selected.overrides).length} overrides</span>
+            </p>
+            <div className="flex gap-2">
+              <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+                <input type="checkbox" checked={changedOnly} onChange={e => setChangedOnly(e.target.checked)} className="w-3.5 h-3.5 accent-indigo-600" />
+                Changed only
+              </label>
+              <button onClick={() => setSelectedId(null)} className="p-1.5 text-slate-400 hover:text-slate-700"><X className="w-4 h-4" /></button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto border border-slate-100 rounded-2xl">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="bg-slate-50 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                  <th className="text-left px-4 py-3">Section</th>
+                  <th className="text-left px-4 py-3">Line</th>
+                  <th className="text-right px-4 py-3">Snapshot</th>
+                  <th className="text-right px-4 py-3">Live</th>
+                  <th className="text-right px-4 py-3">Change</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {visibleRows.map(row => (
+                  <tr key={`${row.section}|${row.account}`} className={hasChanged(row) ? 'bg-amber-50/40' : ''}>
+                    <td className="px-4 py-2 text-[10px] font-black uppercase tracking-widest text-slate-400">{row.section}</td>
+                    <td className="px-4 py-2 font-bold text-slate-700 uppercase tracking-tight">{row.account}</td>
+                    <td className="px-4 py-2 text-right font-black tabular-nums text-slate-600">{formatMoney(row.snapshot)}</td>
+                    <td className="px-4 py-2 text-right font-black tabular-nums text-slate-900">{formatMoney(row.live)}</td>
+                    <td className={`px-4 py-2 text-right font-black tabular-nums ${!hasChanged(row) ? 'text-slate-300' : row.change < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                      {hasChanged(row) ? `${row.change > 0 ? '+' : ''}${formatMoney(row.change)}` : '—'}
+                    </td>
+                  </tr>
+                ))}
+                {visibleRows.length === 0 && (
+                  <tr><td colSpan={5} className="px-4 py-8 text-center text-[10px] font-black uppercase tracking-widest text-slate-300">No differences</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {selected.narrative && (
+            <details className="bg-indigo-50/50 rounded-2xl p-5 border border-indigo-100">
+              <summary className="text-[10px] font-black uppercase tracking-widest text-indigo-600 cursor-pointer flex items-center gap-2">
+                <Sparkles className="w-3.5 h-3.5" /> AI Credit Memo as delivered
+              </summary>
+              <div className="text-sm font-medium text-slate-700 leading-relaxed whitespace-pre-line mt-3">{selected.narrative}</div>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportSnapshots;
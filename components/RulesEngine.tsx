@@ -2,6 +2,7 @@
 import React, { useState, useMemo } from 'react';
 import { CategorizationRule, Transaction, TransactionType, Category } from '../types';
 import { Plus, X, Zap, ArrowRight, Activity, Tag, ListFilter } from 'lucide-react';
+import { hasSplits } from '../services/splitService';
 
 interface RulesEngineProps {
   rules: CategorizationRule[];
@@ -32,7 +33,8 @@ const RulesEngine: React.FC<RulesEngineProps> = ({
     
     rules.forEach(r => counts[r.id] = 0);
 
-    transactions.forEach(t => {
+    // Split rows are categorized line by line, so rules leave them alone
+    transactions.filter(t => !hasSplits(t)).forEach(t => {
       const match = sortedRules.find(r => {
         const textMatch = t.description.toLowerCase().includes(r.keyword.toLowerCase());
         const typeMatch = !r.targetType || r.targetType === t.type;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, Scissors, Loader2 } from 'lucide-react';
+import { Transaction, TransactionSplit, Category, EntityProfile } from '../types';
+import { splitRemainder, isBalancedSplit } from '../services/splitService';
+
+interface SplitEditorProps {
+  transaction: Transaction;
+  categories: Category[];
+  profiles: EntityProfile[];
+  onSave: (splits: TransactionSplit[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const newLine = (amount: number, t?: Transaction): TransactionSplit => ({
+  id: `split-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`,
+  amount,
+  category: t?.category || 'Uncategorized',
+  categoryId: t?.categoryId,
+  entityId: t?.entityId,
+  entityName: t?.entityName,
+});
+
+const SplitEditor: React.FC<SplitEditorProps> = ({ transaction, categories, profiles, onSave, onClose }) => {
+  // A new split starts as the whole amount on the current category plus an empty line
+  const [lines, setLines] = useState<TransactionSplit[]>(
+    transaction.splits?.length ? transaction.splits : [newLine(transaction.amount, transaction), newLine(0)]
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const remainder = splitRemainder(transaction, lines);
+  const isBalanced = isBalancedSplit(transaction, lines);
+
+  const updateLine = (index: number, changes: Partial<TransactionSplit>) => {
+    setLines(prev => prev.map((l, i) => (i === index ? { ...l, ...changes } : l)));
+  };
+
+  const save = async (splits: TransactionSplit[]) => {
+    setIsSaving(true);
+    try {
+      await onSave(splits);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const cellInput = "w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold text-slate-800 outline-none focus:border-indigo-500";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[85vh] animate-scale-up border border-slate-100">
+        <div className="px-8 py-6 border-b border-slate-50 flex justify-between items-center">
+          <div className="min-w-0">
+            <h3 className="font-black text-slate-800 text-xl tracking-tight flex items-center gap-2">
+              <Scissors className="w-5 h-5 text-indigo-500" /> Split Transaction
+            </h3>
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mt-1 truncate">
+              {transaction.date} · {transaction.description} · ${transaction.amount.toFixed(2)}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-300 hover:text-slate-600 transition-all"><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 px-8 py-6 space-y-3">
+          {lines.map((line, i) => (
+            <div key={line.id} className="grid grid-cols-12 gap-2 items-center">
+              <input
+                type="number"
+                step="0.01"
+                className={`${cellInput} col-span-2 text-right tabular-nums`}
+                value={line.amount}
+                onChange={e => updateLine(i, { amount: parseFloat(e.target.value) || 0 })}
+              />
+              <select
+                className={`${cellInput} col-span-3 uppercase text-[10px] font-black`}
+                value={line.categoryId || ''}
+                onChange={e => {
+                  const cat = categories.find(c => c.id === e.target.value);
+                  updateLine(i, { category: cat?.name || 'Uncategorized', categoryId: cat?.id });
+                }}
+              >
+                <option value="">Uncategorized</option>
+                {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+              <select
+                className={`${cellInput} col-span-3 uppercase text-[10px] font-black`}
+                value={line.entityId || ''}
+                onChange={e => {
+                  const profile = profiles.find(p => p.id === e.target.value);
+                  updateLine(i, { entityId: profile?.id, entityName: profile?.name });
+                }}
+              >
+                <option value="">-- No Entity --</option>
+                {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+              <input
+                type="text"
+                placeholder="Memo"
+                className={`${cellInput} col-span-3`}
+                value={line.memo || ''}
+                onChange={e => updateLine(i, { memo: e.target.value })}
+              />
+              <button
+                onClick={() => setLines(prev => prev.filter((_, j) => j !== i))}
+                disabled={lines.length <= 1}
+                className="col-span-1 p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-all disabled:opacity-30 justify-self-center"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setLines(prev => [...prev, newLine(Math.max(remainder, 0))])}
+            className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition flex items-center gap-2"
+          >
+            <Plus className="w-3.5 h-3.5" /> Add Line
+          </button>
+        </div>
+
+        <div className="px-8 py-5 bg-slate-50/50 border-t border-slate-100 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <span className={`text-[10px] font-black uppercase tracking-widest tabular-nums ${isBalanced ? 'text-emerald-600' : 'text-rose-500'}`}>
+            {isBalanced ? 'Lines match the transaction amount' : `$${remainder.toFixed(2)} ${remainder > 0 ? 'left to assign' : 'over the amount'}`}
+          </span>
+          <div className="flex gap-2">
+            {transaction.splits?.length ? (
+              <button
+                onClick={() => save([])}
+                disabled={isSaving}
+                className="px-4 py-2.5 bg-rose-50 text-rose-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-rose-100 disabled:opacity-30 transition"
+              >
+                Remove Split
+              </button>
+            ) : null}
+            <button
+              onClick={() => save(lines.map(l => ({ ...l, memo: l.memo?.trim() || undefined })))}
+              disabled={isSaving || !isBalanced || lines.length < 2}
+              className="px-4 py-2.5 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 disabled:opacity-30 transition flex items-center gap-2"
+            >
+              {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />} Save Split
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SplitEditor;
@@ -1,11 +1,16 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { Transaction, TransactionType, Category, EntityProfile } from '../types';
+import { Transaction, TransactionType, Category, EntityProfile, SourceDocument, BankAccount, TransactionSplit } from '../types';
+import { accountLabel } from '../services/accountService';
+import { isTransfer, hasTransferLink } from '../services/transferService';
+import { hasSplits } from '../services/splitService';
+import { isDateLocked } from '../services/periodCloseService';
+import SplitEditor from './SplitEditor';
 import { 
   Trash2, Calendar, Tag, ArrowUpRight, ArrowDownLeft, 
   Loader2, CheckSquare, ChevronUp, ChevronDown,
   ArrowUpDown, X, Building, Link2, Search, ChevronLeft, ChevronRight,
-  UserPlus, CheckCircle2
+  UserPlus, CheckCircle2, Copy, FileSearch, ArrowLeftRight, Check, Unlink, Scissors, Package, Lock
 } from 'lucide-react';
 
 interface TransactionTableProps {
@@ -16,6 +21,17 @@ interface TransactionTableProps {
   onDeleteTransaction: (id: string) => void;
   onBulkUpdate?: (ids: string[], updates: Partial<Transaction>) => Promise<void>;
   onCreateProfile?: (profile: EntityProfile) => Promise<EntityProfile | null>;
+  onFindDuplicates?: () => Promise<void>;
+  onDetectTransfers?: () => Promise<void>;
+  onConfirmTransfer?: (t: Transaction) => Promise<void>;
+  onBreakTransfer?: (t: Transaction) => Promise<void>;
+  onSaveSplits?: (t: Transaction, splits: TransactionSplit[]) => Promise<void>;
+  onCreateAsset?: (t: Transaction) => void;
+  documents?: SourceDocument[];
+  onOpenDocument?: (doc: SourceDocument) => void;
+  accounts?: BankAccount[];
+  // Rows dated on or before this day are read-only
+  closedThrough?: string | null;
 }
 
 type SortKey = 'date' | 'description' | 'category' | 'amount';
@@ -28,7 +44,17 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
   onUpdateTransaction,
   onDeleteTransaction,
   onBulkUpdate,
-  onCreateProfile
+  onCreateProfile,
+  onFindDuplicates,
+  onDetectTransfers,
+  onConfirmTransfer,
+  onBreakTransfer,
+  onSaveSplits,
+  onCreateAsset,
+  documents = [],
+  onOpenDocument,
+  accounts = [],
+  closedThrough
 }) => {
   const [savingIds, setSavingIds] = useState<Set<string>>(new Set());
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
@@ -41,6 +67,9 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
   const [newProfileType, setNewProfileType] = useState<'VENDOR' | 'CLIENT'>('VENDOR');
   const [pendingTransactionId, setPendingTransactionId] = useState<string | null>(null);
   const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isMatching, setIsMatching] = useState(false);
+  const [splittingId, setSplittingId] = useState<string | null>(null);
 
   // Pagination State
   const [currentPage, setCurrentPage] = useState(1);
@@ -50,6 +79,9 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
     setCurrentPage(1);
   }, [transactions.length, sortKey, sortDirection]);
 
+  const documentsById = useMemo(() => new Map(documents.map(d => [d.id, d])), [documents]);
+  const accountsById = useMemo(() => new Map(accounts.map(a => [a.id, a])), [accounts]);
+
   // Alphabetical Profiles
   const sortedProfiles = useMemo(() => {
     return [...profiles].sort((a, b) => a.name.localeCompare(b.name));
@@ -78,7 +110,7 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
       setIsCreatingProfile(true);
     } else {
       const p = profiles.find(prof => prof.id === value);
-      handleUpdate(t, { entityId: value || undefined, entityName: p?.name });
+      handleUpdate(t, { entityId: value || undefined, entityName: p?.name || t.counterparty });
     }
   };
 
@@ -115,10 +147,17 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
   };
 
   const handleBulkCategorize = async (categoryId: string) => {
-    if (!onBulkUpdate || selectedIds.size === 0) return;
     const cat = categories.find(c => c.id === categoryId);
     if (!cat) return;
+    await applyBulkUpdate({ categoryId: cat.id, category: cat.name });
+  };
 
+  const handleBulkAssignAccount = async (accountId: string) => {
+    await applyBulkUpdate({ accountId });
+  };
+
+  const applyBulkUpdate = async (updates: Partial<Transaction>) => {
+    if (!onBulkUpdate || selectedIds.size === 0) return;
     const ids = Array.from(selectedIds);
     setSavingIds(prev => {
       const next = new Set(prev);
@@ -127,7 +166,7 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
     });
 
     try {
-      await onBulkUpdate(ids, { categoryId: cat.id, category: cat.name });
+      await onBulkUpdate(ids, updates);
       setSelectedIds(new Set());
     } finally {
       setSavingIds(prev => {
@@ -163,17 +202,53 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
 
   const totalPages = Math.ceil(sortedTransactions.length / itemsPerPage);
 
+  const handleFindDuplicates = async () => {
+    if (!onFindDuplicates) return;
+    setIsScanning(true);
+    try {
+      await onFindDuplicates();
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleDetectTransfers = async () => {
+    if (!onDetectTransfers) return;
+    setIsMatching(true);
+    try {
+      await onDetectTransfers();
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  const transactionsById = useMemo(() => new Map(transactions.map(t => [t.id, t])), [transactions]);
+
+  const isLocked = (t: Transaction) => isDateLocked(t.date, closedThrough);
+  const editableTransactions = useMemo(() => transactions.filter(t => !isDateLocked(t.date, closedThrough)), [transactions, closedThrough]);
+
+  // Rows in a closed period are never selected, so bulk actions cannot reach them
   const toggleSelectAll = () => {
-    if (selectedIds.size === transactions.length && transactions.length > 0) {
+    if (selectedIds.size === editableTransactions.length && editableTransactions.length > 0) {
       setSelectedIds(new Set());
     } else {
-      setSelectedIds(new Set(transactions.map(t => t.id)));
+      setSelectedIds(new Set(editableTransactions.map(t => t.id)));
     }
   };
 
   return (
     <div className="relative flex flex-col h-full min-h-[400px] space-y-4">
       {/* Creation Modal */}
+      {splittingId && onSaveSplits && transactionsById.get(splittingId) && (
+        <SplitEditor
+          transaction={transactionsById.get(splittingId)!}
+          categories={categories}
+          profiles={sortedProfiles}
+          onSave={(splits) => onSaveSplits(transactionsById.get(splittingId)!, splits)}
+          onClose={() => setSplittingId(null)}
+        />
+      )}
+
       {isCreatingProfile && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-fade-in">
           <div className="bg-white rounded-3xl shadow-2xl p-8 max-w-sm w-full animate-scale-up border border-slate-100">
@@ -243,6 +318,16 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
             <option value="" disabled>Move to Account...</option>
             {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
           </select>
+          {accounts.length > 0 && (
+            <select 
+              onChange={(e) => handleBulkAssignAccount(e.target.value)}
+              className="bg-slate-800 border-none rounded-xl px-4 py-2 text-xs font-black uppercase tracking-tight text-white focus:outline-none cursor-pointer"
+              value=""
+            >
+              <option value="" disabled>Assign Bank...</option>
+              {accounts.map(a => <option key={a.id} value={a.id}>{accountLabel(a)}</option>)}
+            </select>
+          )}
           <button onClick={() => setSelectedIds(new Set())} className="p-2 text-slate-500 hover:text-white"><X size={18}/></button>
         </div>
       )}
@@ -253,6 +338,27 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
            Showing {Math.min((currentPage - 1) * itemsPerPage + 1, sortedTransactions.length)} - {Math.min(currentPage * itemsPerPage, sortedTransactions.length)} of {sortedTransactions.length}
          </span>
          <div className="flex gap-2">
+           {onFindDuplicates && (
+             <button
+               onClick={handleFindDuplicates}
+               disabled={isScanning || transactions.length === 0}
+               className="px-3 py-2 bg-white border border-slate-200 rounded-xl disabled:opacity-50 hover:bg-slate-50 transition-colors text-[10px] font-black uppercase tracking-widest text-slate-600 flex items-center gap-2"
+             >
+               {isScanning ? <Loader2 size={14} className="animate-spin" /> : <Copy size={14} />}
+               Find Duplicates
+             </button>
+           )}
+           {onDetectTransfers && (
+             <button
+               onClick={handleDetectTransfers}
+               disabled={isMatching || accounts.length < 2}
+               title={accounts.length < 2 ? 'Transfers are matched across two or more bank accounts' : undefined}
+               className="px-3 py-2 bg-white border border-slate-200 rounded-xl disabled:opacity-50 hover:bg-slate-50 transition-colors text-[10px] font-black uppercase tracking-widest text-slate-600 flex items-center gap-2"
+             >
+               {isMatching ? <Loader2 size={14} className="animate-spin" /> : <ArrowLeftRight size={14} />}
+               Match Transfers
+             </button>
+           )}
            <button 
              onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
              disabled={currentPage === 1}
@@ -276,7 +382,7 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
             <thead>
               <tr className="bg-slate-50 border-b border-slate-100">
                 <th className="px-6 py-4 w-12">
-                  <button onClick={toggleSelectAll} className={`p-1.5 rounded-lg border-2 transition-all ${selectedIds.size === transactions.length ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-transparent'}`}>
+                  <button onClick={toggleSelectAll} className={`p-1.5 rounded-lg border-2 transition-all ${selectedIds.size === editableTransactions.length && editableTransactions.length > 0 ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-transparent'}`}>
                     <CheckSquare size={14} />
                   </button>
                 </th>
@@ -301,12 +407,22 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
             <tbody className="divide-y divide-slate-50">
               {paginatedTransactions.map((t) => {
                 const isSaving = savingIds.has(t.id);
+                const locked = isLocked(t);
                 // Determine the best value for category select
                 const currentCatId = t.categoryId || categories.find(c => c.name === t.category)?.id || '';
+                const sourceDoc = t.documentId ? documentsById.get(t.documentId) : undefined;
+                const bankAccount = t.accountId ? accountsById.get(t.accountId) : undefined;
+                const transferLeg = t.transferId ? transactionsById.get(t.transferId) : undefined;
+                const transferAccount = transferLeg?.accountId ? accountsById.get(transferLeg.accountId) : undefined;
 
                 return (
                   <tr key={t.id} className={`group hover:bg-slate-50/50 transition-all ${selectedIds.has(t.id) ? 'bg-indigo-50/30' : ''}`}>
                     <td className="px-6 py-4">
+                      {locked ? (
+                        <span title={`Closed through ${closedThrough}`} className="block p-1.5 text-slate-300">
+                          <Lock size={14} />
+                        </span>
+                      ) : (
                       <button 
                         onClick={() => {
                           const next = new Set(selectedIds);
@@ -317,12 +433,35 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
                       >
                         <CheckSquare size={14} />
                       </button>
+                      )}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-xs font-bold text-slate-500 tabular-nums">
+                      {t.date}
+                      {bankAccount && <span className="block text-[9px] font-black text-slate-300 uppercase tracking-widest" title={accountLabel(bankAccount)}>{bankAccount.last4 ? `••${bankAccount.last4}` : bankAccount.name}</span>}
                     </td>
-                    <td className="px-4 py-4 whitespace-nowrap text-xs font-bold text-slate-500 tabular-nums">{t.date}</td>
                     <td className="px-4 py-4">
                       <div className="flex flex-col min-w-0">
                         <span className="text-xs font-black text-slate-800 truncate">{t.description}</span>
                         <span className="text-[9px] font-bold text-slate-400 uppercase tracking-tight truncate">{t.originalDescription}</span>
+                        {hasTransferLink(t) && (
+                          <div className="flex items-center gap-1 mt-1">
+                            <span className={`px-2 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest flex items-center gap-1 ${t.transferStatus === 'confirmed' ? 'bg-indigo-50 text-indigo-600' : 'bg-amber-50 text-amber-600'}`}>
+                              <ArrowLeftRight size={10} />
+                              {t.transferStatus === 'confirmed' ? 'Transfer' : 'Possible Transfer'}
+                              {transferAccount && ` ${t.type === TransactionType.INCOME ? 'from' : 'to'} ${accountLabel(transferAccount)}`}
+                            </span>
+                            {t.transferStatus === 'suggested' && onConfirmTransfer && !locked && (
+                              <button onClick={() => onConfirmTransfer(t)} title="Confirm transfer" className="p-1 text-slate-300 hover:text-emerald-600 hover:bg-emerald-50 rounded-md transition-all">
+                                <Check size={12} />
+                              </button>
+                            )}
+                            {onBreakTransfer && !locked && (
+                              <button onClick={() => onBreakTransfer(t)} title="Not a transfer" className="p-1 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-md transition-all">
+                                <Unlink size={12} />
+                              </button>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </td>
                     <td className="px-4 py-4">
@@ -331,7 +470,8 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
                         <select 
                           value={t.entityId || ''} 
                           onChange={(e) => handleEntityChange(t, e.target.value)}
-                          className="w-full pl-9 pr-3 py-2 bg-slate-50 border-2 border-transparent hover:border-indigo-200 rounded-xl text-[10px] font-black uppercase tracking-tight outline-none appearance-none transition-all cursor-pointer text-slate-900"
+                          disabled={locked}
+                          className="w-full pl-9 pr-3 py-2 bg-slate-50 border-2 border-transparent hover:border-indigo-200 rounded-xl text-[10px] font-black uppercase tracking-tight outline-none appearance-none transition-all cursor-pointer text-slate-900 disabled:cursor-not-allowed disabled:opacity-60 disabled:hover:border-transparent"
                         >
                           <option value="">-- Unlinked --</option>
                           <option value="NEW__" className="font-bold text-indigo-600">+ Create New Identity</option>
@@ -343,6 +483,16 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
                       </div>
                     </td>
                     <td className="px-4 py-4">
+                      {hasSplits(t) ? (
+                        <button
+                          onClick={() => setSplittingId(t.id)}
+                          disabled={locked}
+                          title={t.splits!.map(sp => `${sp.category}: $${sp.amount.toFixed(2)}`).join('\n')}
+                          className="w-full flex items-center gap-2 px-3 py-2 bg-indigo-50 border-2 border-transparent hover:border-indigo-200 rounded-xl text-[10px] font-black uppercase tracking-tight text-indigo-600 transition-all disabled:cursor-not-allowed disabled:opacity-60 disabled:hover:border-transparent"
+                        >
+                          <Scissors className="w-3.5 h-3.5" /> Split · {t.splits!.length} lines
+                        </button>
+                      ) : (
                       <div className="relative">
                         <Tag className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-3.5 h-3.5 pointer-events-none" />
                         <select 
@@ -356,13 +506,15 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
                                 handleUpdate(t, { category: 'Uncategorized', categoryId: undefined });
                             }
                           }}
-                          className="w-full pl-9 pr-3 py-2 bg-slate-50 border-2 border-transparent hover:border-indigo-200 rounded-xl text-[10px] font-black uppercase tracking-tight outline-none appearance-none transition-all cursor-pointer text-slate-900"
+                          disabled={locked}
+                          className="w-full pl-9 pr-3 py-2 bg-slate-50 border-2 border-transparent hover:border-indigo-200 rounded-xl text-[10px] font-black uppercase tracking-tight outline-none appearance-none transition-all cursor-pointer text-slate-900 disabled:cursor-not-allowed disabled:opacity-60 disabled:hover:border-transparent"
                         >
                           <option value="">Uncategorized</option>
                           <option value="Uncategorized">Uncategorized</option>
                           {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
                         </select>
                       </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-right">
                       <div className="flex flex-col items-end">
@@ -373,9 +525,32 @@ const TransactionTable: React.FC<TransactionTableProps> = ({
                       </div>
                     </td>
                     <td className="px-6 py-4">
-                      <button onClick={() => onDeleteTransaction(t.id)} className="p-2 text-slate-200 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-all">
-                        <Trash2 size={16} />
-                      </button>
+                      <div className="flex items-center gap-1">
+                        {sourceDoc && onOpenDocument && (
+                          <button onClick={() => onOpenDocument(sourceDoc)} title={`Source: ${sourceDoc.fileName}`} className="p-2 text-slate-200 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all">
+                            <FileSearch size={16} />
+                          </button>
+                        )}
+                        {onSaveSplits && !hasSplits(t) && !locked && (
+                          <button onClick={() => setSplittingId(t.id)} title="Split across categories" className="p-2 text-slate-200 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all">
+                            <Scissors size={16} />
+                          </button>
+                        )}
+                        {onCreateAsset && t.type === TransactionType.EXPENSE && !isTransfer(t) && (
+                          <button onClick={() => onCreateAsset(t)} title="Add to fixed asset register" className="p-2 text-slate-200 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all">
+                            <Package size={16} />
+                          </button>
+                        )}
+                        {locked ? (
+                          <span title={`Closed through ${closedThrough}`} className="p-2 text-slate-200">
+                            <Lock size={16} />
+                          </span>
+                        ) : (
+                          <button onClick={() => onDeleteTransaction(t.id)} className="p-2 text-slate-200 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-all">
+                            <Trash2 size={16} />
+                          </button>
+                        )}
+                      </div>
                     </td>
                   </tr>
                 );
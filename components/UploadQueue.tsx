@@ -0,0 +1,163 @@
+import React from 'react';
+import { FileText, Eye, RotateCw, X, Loader2, Layers, Trash2 } from 'lucide-react';
+import { ProcessingStatus } from '../types';
+import { MAX_CONCURRENCY } from '../services/uploadQueueService';
+import ReconciliationBadge from './ReconciliationBadge';
+
+interface UploadQueueProps {
+  queue: ProcessingStatus[];
+  concurrency: number;
+  // Whether the original file is still held, so the job can run again
+  canRetry: (id: string) => boolean;
+  onConcurrencyChange: (value: number) => void;
+  onCancel: (status: ProcessingStatus) => void;
+  onRetry: (status: ProcessingStatus) => void;
+  onRetryAllFailed: () => void;
+  onClearFinished: () => void;
+  onReview: (status: ProcessingStatus) => void;
+  onOverrideReconciliation: (statusId: string, reason: string) => void;
+}
+
+const money = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const STATUS_TONES: Record<ProcessingStatus['status'], string> = {
+  pending: 'bg-slate-50 text-slate-400',
+  processing: 'bg-indigo-50 text-indigo-600',
+  review: 'bg-amber-50 text-amber-600',
+  completed: 'bg-emerald-50 text-emerald-600',
+  error: 'bg-rose-50 text-rose-600',
+  cancelled: 'bg-slate-50 text-slate-300',
+};
+
+const UploadQueue: React.FC<UploadQueueProps> = ({
+  queue,
+  concurrency,
+  canRetry,
+  onConcurrencyChange,
+  onCancel,
+  onRetry,
+  onRetryAllFailed,
+  onClearFinished,
+  onReview,
+  onOverrideReconciliation
+}) => {
+  if (queue.length === 0) return null;
+
+  const failedCount = queue.filter(s => s.status === 'error' && canRetry(s.id)).length;
+  const finishedCount = queue.filter(s => s.status === 'completed' || s.status === 'cancelled').length;
+  const activeCount = queue.filter(s => s.status === 'processing').length;
+  const waitingCount = queue.filter(s => s.status === 'pending').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-3xl px-6 py-4 border border-slate-100 shadow-sm flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <span className="text-indigo-600">{activeCount} running</span> · {waitingCount} queued
+          </span>
+          <div className="flex items-center gap-2">
+            <Layers className="w-3.5 h-3.5 text-slate-300" />
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Parallel</span>
+            <div className="flex bg-slate-100 rounded-lg p-0.5">
+              {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                <button
+                  key={n}
+                  onClick={() => onConcurrencyChange(n)}
+                  className={`w-7 py-1 rounded-md text-[10px] font-black transition ${concurrency === n ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                >
+                  {n}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onRetryAllFailed}
+            disabled={failedCount === 0}
+            className="px-4 py-2 bg-indigo-50 text-indigo-700 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100 disabled:opacity-30 transition flex items-center gap-2"
+          >
+            <RotateCw className="w-3.5 h-3.5" /> Retry Failed ({failedCount})
+          </button>
+          <button
+            onClick={onClearFinished}
+            disabled={finishedCount === 0}
+            className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 disabled:opacity-30 transition flex items-center gap-2"
+          >
+            <Trash2 className="w-3.5 h-3.5" /> Clear Finished
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {queue.map(status => (
+          <div key={status.id} className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100">
+            <div className="flex justify-between items-start">
+              <div className={`p-3 rounded-2xl inline-block mb-4 ${STATUS_TONES[status.status]}`}>
+                {status.status === 'processing' ? <Loader2 className="w-6 h-6 animate-spin" /> : <FileText className="w-6 h-6" />}
+              </div>
+              <div className="flex gap-1">
+                {(status.status === 'pending' || status.status === 'processing') && (
+                  <button onClick={() => onCancel(status)} title="Cancel" className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-all">
+                    <X size={14} />
+                  </button>
+                )}
+                {(status.status === 'error' || status.status === 'cancelled') && canRetry(status.id) && (
+                  <button onClick={() => onRetry(status)} title="Retry" className="p-2 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all">
+                    <RotateCw size={14} />
+                  </button>
+                )}
+              </div>
+            </div>
+            <h4 className="font-black text-slate-800 truncate mb-1 text-sm">{status.fileName}</h4>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{status.status}</p>
+            {status.message && <p className="text-[10px] font-bold text-slate-400 mt-1 truncate">{status.message}</p>}
+            {(status.accountNumber || status.ledgerBalance !== undefined) && (
+              <div className="mt-4 pt-4 border-t border-slate-50 flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <span>{status.accountNumber ? `Acct ••${status.accountNumber.slice(-4)}` : ''}</span>
+                {status.ledgerBalance !== undefined && (
+                  <span className="text-slate-700 tabular-nums">Ledger ${money(status.ledgerBalance)}</span>
+                )}
+              </div>
+            )}
+            {status.openingBalance !== undefined && (
+              <div className="mt-2 flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <span>Opening</span>
+                <span className="text-slate-700 tabular-nums">${money(status.openingBalance)}</span>
+              </div>
+            )}
+            {status.chunks && status.status !== 'review' && status.status !== 'completed' && (
+              <div className="mt-4 pt-4 border-t border-slate-50 space-y-2">
+                <div className="flex gap-1">
+                  {status.chunks.map(c => (
+                    <div
+                      key={c.index}
+                      title={`Pages ${c.startPage}–${c.endPage}${c.error ? `: ${c.error}` : ''}`}
+                      className={`h-1.5 flex-1 rounded-full ${c.status === 'completed' ? 'bg-emerald-500' : c.status === 'error' ? 'bg-rose-500' : c.status === 'processing' ? 'bg-indigo-500 animate-pulse' : 'bg-slate-100'}`}
+                    />
+                  ))}
+                </div>
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 tabular-nums">
+                  {status.chunks.filter(c => c.status === 'completed').length}/{status.chunks.length} ranges · {status.pageCount} pages
+                </p>
+              </div>
+            )}
+            {status.reconciliation && (
+              <ReconciliationBadge
+                reconciliation={status.reconciliation}
+                onOverride={(reason) => onOverrideReconciliation(status.id, reason)}
+              />
+            )}
+            {status.status === 'review' && (
+              <button onClick={() => onReview(status)} className="mt-4 w-full py-2.5 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500 transition flex items-center justify-center gap-2">
+                <Eye className="w-3.5 h-3.5" /> Review {status.stagedRows?.length || 0} Rows
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default UploadQueue;
@@ -0,0 +1,65 @@
+import { BankAccount, BankAccountKind, Transaction, TransactionType } from "../types";
+
+export const ACCOUNT_KIND_LABELS: Record<BankAccountKind, string> = {
+  checking: 'Checking',
+  savings: 'Savings',
+  credit_card: 'Credit Card',
+  loan: 'Loan',
+};
+
+// Credit cards and loans carry what is owed, so charges raise the balance
+export const isLiabilityAccount = (account: Pick<BankAccount, 'kind'>) => account.kind === 'credit_card' || account.kind === 'loan';
+
+export const accountLabel = (account: BankAccount) =>
+  account.last4 ? `${account.name} ••${account.last4}` : account.name;
+
+const lastFour = (value?: string) => (value || '').replace(/\D/g, '').slice(-4);
+
+// Statements print full or masked numbers ("****1234", IBANs); the last four digits are
+// the part every format agrees on
+export const matchAccount = (accounts: BankAccount[], accountNumber?: string): BankAccount | undefined => {
+  const digits = lastFour(accountNumber);
+  if (digits.length < 4) return undefined;
+  return accounts.find(a => a.last4 === digits);
+};
+
+// The statement's opening balance is the balance before its first row, so it is dated at the
+// statement start and the statement's own rows are added on top of it exactly once
+export const draftAccountFromStatement = (accountNumber: string, openingBalance?: number, openingDate?: string, kind: BankAccountKind = 'checking'): BankAccount => ({
+  id: `acct-${Date.now()}`,
+  name: 'Imported Account',
+  kind,
+  last4: lastFour(accountNumber) || undefined,
+  openingBalance: openingBalance || 0,
+  openingDate: openingDate || '',
+});
+
+// Rows dated before an account's opening date are already inside its opening balance. When older
+// history is imported, the opening moves back to the earliest of those rows so they count only once.
+export const rollBackOpening = (account: BankAccount, rows: Transaction[]): BankAccount | null => {
+  const earlier = rows.filter(t => t.accountId === account.id && !!account.openingDate && t.date < account.openingDate);
+  if (earlier.length === 0) return null;
+  const inflow = earlier.reduce((s, t) => s + (t.type === TransactionType.INCOME ? t.amount : -t.amount), 0);
+  const change = isLiabilityAccount(account) ? -inflow : inflow;
+  return {
+    ...account,
+    openingBalance: Math.round((account.openingBalance - change) * 100) / 100,
+    openingDate: earlier.map(t => t.date).sort()[0],
+  };
+};
+
+// Opening balance plus the account's own movements; pass the whole ledger, not a filtered view.
+// Asset accounts grow with income; liability accounts grow with spending.
+export const computeAccountBalances = (accounts: BankAccount[], transactions: Transaction[]): Record<string, number> => {
+  const byId = new Map(accounts.map(a => [a.id, a]));
+  const balances: Record<string, number> = {};
+  accounts.forEach(a => { balances[a.id] = a.openingBalance; });
+
+  transactions.forEach(t => {
+    const account = t.accountId ? byId.get(t.accountId) : undefined;
+    if (!account) return;
+    const inflow = t.type === TransactionType.INCOME ? t.amount : -t.amount;
+    balances[account.id] += isLiabilityAccount(account) ? -inflow : inflow;
+  });
+  return balances;
+};
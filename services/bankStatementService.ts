@@ -0,0 +1,268 @@
+import { Transaction, TransactionType, ParsedStatement } from "../types";
+import { isOfxFile, isQifFile, parseOfx, parseQif } from "./ofxService";
+
+export const isCamtFile = (file: File) => /\.(xml|camt|053)$/i.test(file.name);
+
+export const isMt940File = (file: File) => /\.(sta|mt940|940|stm)$/i.test(file.name);
+
+// Formats we can read without sending anything to Gemini
+export const isStructuredStatement = (file: File) =>
+  isOfxFile(file) || isQifFile(file) || isCamtFile(file) || isMt940File(file);
+
+export const parseStructuredStatement = async (file: File): Promise<ParsedStatement> => {
+  const text = await file.text();
+  if (isQifFile(file)) return parseQif(text);
+  if (isCamtFile(file)) return parseCamt053(text);
+  if (isMt940File(file)) return parseMt940(text);
+  return parseOfx(text);
+};
+
+const newId = (prefix: string, index: number) => `${prefix}-${Date.now()}-${index}-${Math.random().toString(36).substring(2, 7)}`;
+
+// --- ISO 20022 camt.053 ---
+
+// camt versions use different default namespaces, so match on local names only
+const child = (el: Element | null | undefined, ...path: string[]): Element | null => {
+  let current: Element | null | undefined = el;
+  for (const name of path) {
+    if (!current) return null;
+    current = Array.from(current.children).find(c => c.localName === name) || null;
+  }
+  return current || null;
+};
+
+const children = (el: Element | null | undefined, name: string): Element[] =>
+  el ? Array.from(el.children).filter(c => c.localName === name) : [];
+
+const text = (el: Element | null | undefined, ...path: string[]): string | undefined => {
+  const value = child(el, ...path)?.textContent?.trim();
+  return value ? value : undefined;
+};
+
+// <Dt> or <DtTm> under a date wrapper
+const camtDate = (el: Element | null): string | undefined =>
+  (text(el, 'Dt') || text(el, 'DtTm'))?.substring(0, 10);
+
+const signedAmount = (el: Element | null): number | null => {
+  const amount = parseFloat(text(el, 'Amt') || '');
+  if (isNaN(amount)) return null;
+  return text(el, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+};
+
+// Counterparty is the debtor on credits and the creditor on debits. camt.053.001.08+
+// nests the name one level deeper under <Pty>.
+const camtCounterparty = (txDetails: Element | null, isCredit: boolean): string | undefined => {
+  const party = child(txDetails, 'RltdPties', isCredit ? 'Dbtr' : 'Cdtr');
+  return text(party, 'Nm') || text(party, 'Pty', 'Nm');
+};
+
+// A batch-booked entry lists one <TxDtls> per underlying payment. Newer versions put the
+// amount on <TxDtls> itself, older ones under <AmtDtls><TxAmt>.
+const detailAmount = (txDetails: Element, entryAmount: number): number | null => {
+  const amount = parseFloat(text(txDetails, 'Amt') || text(txDetails, 'AmtDtls', 'TxAmt', 'Amt') || '');
+  if (isNaN(amount)) return null;
+  const indicator = text(txDetails, 'CdtDbtInd');
+  const isDebit = indicator ? indicator === 'DBIT' : entryAmount < 0;
+  return isDebit ? -amount : amount;
+};
+
+const parseCamtStatement = (stmt: Element): ParsedStatement => {
+  const acct = child(stmt, 'Acct', 'Id');
+  const balances: Record<string, { amount: number; date?: string }> = {};
+  children(stmt, 'Bal').forEach(bal => {
+    const code = text(bal, 'Tp', 'CdOrPrtry', 'Cd');
+    const amount = signedAmount(bal);
+    if (code && amount !== null) balances[code] = { amount, date: camtDate(child(bal, 'Dt')) };
+  });
+
+  const transactions: Transaction[] = [];
+  children(stmt, 'Ntry').forEach(entry => {
+    const status = child(entry, 'Sts')?.textContent?.trim();
+    if (status && !status.includes('BOOK')) return;
+
+    const amount = signedAmount(entry);
+    const date = camtDate(child(entry, 'BookgDt')) || camtDate(child(entry, 'ValDt'));
+    if (amount === null || amount === 0 || !date) return;
+
+    const entryRef = text(entry, 'AcctSvcrRef') || text(entry, 'NtryRef');
+    const details = children(entry, 'NtryDtls').flatMap(d => children(d, 'TxDtls'));
+    const amounts = details.map(d => detailAmount(d, amount));
+    // Batches become one row per payment; anything else stays one row for the whole entry
+    const rows = details.length > 1 && amounts.every(a => a !== null)
+      ? details.map((d, n) => ({ txDetails: d, amount: amounts[n]!, externalId: text(d, 'Refs', 'AcctSvcrRef') || (entryRef && `${entryRef}/${n + 1}`) }))
+      : [{ txDetails: details[0] || null, amount, externalId: entryRef || text(details[0], 'Refs', 'AcctSvcrRef') }];
+
+    rows.forEach(row => {
+      if (row.amount === 0) return;
+      const counterparty = camtCounterparty(row.txDetails, row.amount > 0);
+      const remittance = children(child(row.txDetails, 'RmtInf'), 'Ustrd').map(u => u.textContent?.trim()).filter(Boolean).join(' ');
+      const info = remittance || text(entry, 'AddtlNtryInf') || '';
+      const description = counterparty || info || 'No Description';
+
+      transactions.push({
+        id: newId('camt', transactions.length),
+        date,
+        valueDate: camtDate(child(entry, 'ValDt')),
+        description,
+        amount: Math.abs(row.amount),
+        type: row.amount > 0 ? TransactionType.INCOME : TransactionType.EXPENSE,
+        category: 'Uncategorized',
+        originalDescription: [counterparty, info].filter(Boolean).join(' ') || description,
+        externalId: row.externalId || undefined,
+        counterparty,
+        entityName: counterparty,
+      });
+    });
+  });
+
+  const opening = balances.OPBD || balances.PRCD;
+  const closing = balances.CLBD;
+  return {
+    transactions,
+    accountNumber: text(acct, 'IBAN') || text(acct, 'Othr', 'Id'),
+    openingBalance: opening?.amount,
+    closingBalance: closing?.amount,
+    ledgerBalance: closing?.amount,
+    ledgerBalanceDate: closing?.date,
+    statementStart: text(stmt, 'FrToDt', 'FrDtTm')?.substring(0, 10) || opening?.date,
+    statementEnd: text(stmt, 'FrToDt', 'ToDtTm')?.substring(0, 10) || closing?.date,
+  };
+};
+
+// Banks often put several daily statements in one file. Statements for the same account are
+// read back to back; a file that mixes accounts is refused rather than merged into one.
+export const parseCamt053 = (xml: string): ParsedStatement => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error("Invalid camt.053 XML.");
+
+  const statements = children(child(doc.documentElement, 'BkToCstmrStmt'), 'Stmt')
+    .map(parseCamtStatement)
+    .sort((a, b) => (a.statementStart || '').localeCompare(b.statementStart || ''));
+  if (statements.length === 0) throw new Error("No camt.053 statement found in file.");
+  if (new Set(statements.map(s => s.accountNumber)).size > 1) {
+    throw new Error("This camt.053 file holds statements for more than one account. Export each account separately.");
+  }
+
+  const first = statements[0];
+  const last = statements[statements.length - 1];
+  return {
+    transactions: statements.flatMap(s => s.transactions),
+    accountNumber: first.accountNumber,
+    openingBalance: first.openingBalance,
+    closingBalance: last.closingBalance,
+    ledgerBalance: last.ledgerBalance,
+    ledgerBalanceDate: last.ledgerBalanceDate,
+    statementStart: first.statementStart,
+    statementEnd: last.statementEnd,
+  };
+};
+
+// --- SWIFT MT940 ---
+
+const mtDate = (yymmdd: string) => `20${yymmdd.substring(0, 2)}-${yymmdd.substring(2, 4)}-${yymmdd.substring(4, 6)}`;
+
+const mtAmount = (value: string) => parseFloat(value.replace(',', '.'));
+
+// ":60F:C240101EUR1234,56" -> signed amount and date
+const mtBalance = (value: string): { amount: number; date: string } | null => {
+  const match = value.match(/^([CD])(\d{6})[A-Z]{3}([\d,]+)/);
+  if (!match) return null;
+  const amount = mtAmount(match[3]);
+  return { amount: match[1] === 'D' ? -amount : amount, date: mtDate(match[2]) };
+};
+
+// Field 86 comes either as German "?20..?33" subfields or "/NAME/..." style codes
+const mtCounterparty = (info: string): string | undefined => {
+  if (info.includes('?32')) {
+    const name = ['?32', '?33'].map(code => info.match(new RegExp(`\\${code}([^?]*)`))?.[1] || '').join('').trim();
+    return name || undefined;
+  }
+  const match = info.match(/\/(?:NAME|BENM\/\/NAME|ORDP\/\/NAME)\/([^/]+)/);
+  return match?.[1].trim() || undefined;
+};
+
+const mtPurpose = (info: string): string => {
+  if (info.includes('?2')) {
+    return Array.from(info.matchAll(/\?2\d([^?]*)/g)).map(m => m[1]).join('').trim();
+  }
+  const remi = info.match(/\/REMI\/([^/]+)/);
+  return (remi?.[1] || info).trim();
+};
+
+export const parseMt940 = (content: string): ParsedStatement => {
+  // Collapse continuation lines into their field; each field starts with ":NN[a]:"
+  const fields: { tag: string; value: string }[] = [];
+  content.split(/\r?\n/).forEach(line => {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) fields.push({ tag: match[1], value: match[2] });
+    else if (line.trim() === '-' || !fields.length) return;
+    else fields[fields.length - 1].value += `\n${line}`;
+  });
+  if (!fields.some(f => f.tag === '61')) throw new Error("No MT940 statement lines found in file.");
+
+  let accountNumber: string | undefined;
+  const balances: { opening?: { amount: number; date: string } | null; closing?: { amount: number; date: string } | null } = {};
+  const transactions: Transaction[] = [];
+
+  fields.forEach((field, i) => {
+    if (field.tag === '25' && !accountNumber) accountNumber = field.value.trim();
+    // The first :60F: is the opening balance, the last :62F: the closing one
+    if ((field.tag === '60F' || field.tag === '60M') && !balances.opening) balances.opening = mtBalance(field.value);
+    if (field.tag === '62F' || field.tag === '62M') balances.closing = mtBalance(field.value);
+    if (field.tag !== '61') return;
+
+    // YYMMDD[MMDD](R)C|D[funds code]amount N|F xxx reference[//bank reference]
+    const line = field.value.split('\n')[0];
+    const match = line.match(/^(\d{6})(\d{4})?(R?[CD])([A-Z])?([\d,]+)[NF][A-Z0-9]{3}([^/]*)(?:\/\/(.*))?/);
+    if (!match) return;
+
+    const valueDate = mtDate(match[1]);
+    let date = valueDate;
+    if (match[2]) {
+      // Entry date has no year; take the value date's and handle the Dec/Jan rollover
+      let year = parseInt(valueDate.substring(0, 4));
+      const entryMonth = parseInt(match[2].substring(0, 2));
+      const valueMonth = parseInt(valueDate.substring(5, 7));
+      if (entryMonth === 1 && valueMonth === 12) year++;
+      if (entryMonth === 12 && valueMonth === 1) year--;
+      date = `${year}-${match[2].substring(0, 2)}-${match[2].substring(2, 4)}`;
+    }
+
+    const isCredit = match[3] === 'C' || match[3] === 'RD';
+    const amount = mtAmount(match[5]);
+    if (!amount) return;
+
+    const next = fields[i + 1];
+    const info = next?.tag === '86' ? next.value.replace(/\n/g, '') : '';
+    const counterparty = mtCounterparty(info);
+    const purpose = mtPurpose(info);
+    const description = counterparty || purpose || match[6].trim() || 'No Description';
+    const bankRef = match[7]?.trim();
+
+    transactions.push({
+      id: newId('mt940', transactions.length),
+      date,
+      valueDate,
+      description,
+      amount,
+      type: isCredit ? TransactionType.INCOME : TransactionType.EXPENSE,
+      category: 'Uncategorized',
+      originalDescription: [counterparty, purpose].filter(Boolean).join(' ') || description,
+      externalId: bankRef && bankRef !== 'NONREF' ? bankRef : undefined,
+      counterparty,
+      entityName: counterparty,
+    });
+  });
+
+  const { opening, closing } = balances;
+  return {
+    transactions,
+    accountNumber,
+    openingBalance: opening?.amount,
+    closingBalance: closing?.amount,
+    ledgerBalance: closing?.amount,
+    ledgerBalanceDate: closing?.date,
+    statementStart: opening?.date,
+    statementEnd: closing?.date,
+  };
+};
@@ -0,0 +1,79 @@
+import { AccountType, BankAccount, CashFlowData, CashFlowLine, JournalEntry, TrialBalanceRow } from "../types";
+import { accountLabel, isLiabilityAccount } from "./accountService";
+import { ACCUMULATED_DEPRECIATION } from "./depreciationService";
+import { CASH_ACCOUNT, TRANSFER_CLEARING, accountKey, buildTrialBalance, compareAccounts, netIncome } from "./journalService";
+
+const TOLERANCE = 0.005;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Deposit accounts, the shared cash account and money moving between them
+export const cashAccountNames = (accounts: BankAccount[]) =>
+  new Set([CASH_ACCOUNT, TRANSFER_CLEARING, ...accounts.filter(a => !isLiabilityAccount(a)).map(accountLabel)]);
+
+// Depreciation is a non-cash charge, so it is added back under operating rather than investing
+const sectionOf = (row: TrialBalanceRow): 'operating' | 'investing' | 'financing' | null => {
+  if (row.account === ACCUMULATED_DEPRECIATION) return 'operating';
+  switch (row.accountType) {
+    case AccountType.CURRENT_ASSET:
+    case AccountType.CURRENT_LIABILITY:
+      return 'operating';
+    case AccountType.FIXED_ASSET:
+    case AccountType.ASSET:
+      return 'investing';
+    case AccountType.LONG_TERM_LIAB:
+    case AccountType.LIABILITY:
+    case AccountType.EQUITY:
+      return 'financing';
+    default:
+      return null;
+  }
+};
+
+const netDebit = (row?: TrialBalanceRow) => (row ? row.debit - row.credit : 0);
+
+// Indirect method: net income, adjusted by the change in every non-cash balance sheet account.
+// A debit increase in any account uses cash and a credit increase provides it, so the three
+// sections always add up to the change in cash. Opening balances count as beginning balances.
+// Beginning cash comes from entries dated before `from`, so pass every entry up to `to`.
+export const buildCashFlow = (entries: JournalEntry[], accounts: BankAccount[], from?: string, to?: string): CashFlowData => {
+  const isOpening = (e: JournalEntry) => e.source === 'opening';
+  const before = buildTrialBalance(entries.filter(e => isOpening(e) || (!!from && e.date < from)));
+  const after = buildTrialBalance(entries.filter(e => isOpening(e) || !to || e.date <= to));
+  const beforeByKey = new Map(before.map(r => [accountKey(r), r]));
+  const afterByKey = new Map(after.map(r => [accountKey(r), r]));
+  const cashNames = cashAccountNames(accounts);
+  const isCash = (r: TrialBalanceRow) => r.accountType === AccountType.CURRENT_ASSET && cashNames.has(r.account);
+
+  const sections: Record<'operating' | 'investing' | 'financing', CashFlowLine[]> = { operating: [], investing: [], financing: [] };
+  const allAccounts = new Map([...beforeByKey, ...afterByKey]);
+  Array.from(allAccounts.values()).sort(compareAccounts).forEach(row => {
+    const section = sectionOf(row);
+    if (!section || isCash(row)) return;
+    const key = accountKey(row);
+    const amount = round(-(netDebit(afterByKey.get(key)) - netDebit(beforeByKey.get(key))));
+    if (Math.abs(amount) >= TOLERANCE) sections[section].push({ account: row.account, amount });
+  });
+
+  const cashBalance = (tb: TrialBalanceRow[]) => tb.filter(isCash).reduce((sum, r) => sum + netDebit(r), 0);
+  const periodIncome = round(netIncome(after) - netIncome(before));
+  const total = (lines: CashFlowLine[]) => round(lines.reduce((sum, l) => sum + l.amount, 0));
+  const netOperating = round(periodIncome + total(sections.operating));
+  const netInvesting = total(sections.investing);
+  const netFinancing = total(sections.financing);
+  const beginningCash = round(cashBalance(before));
+  const endingCash = round(cashBalance(after));
+  const netChange = round(netOperating + netInvesting + netFinancing);
+
+  return {
+    netIncome: periodIncome,
+    ...sections,
+    netOperating,
+    netInvesting,
+    netFinancing,
+    beginningCash,
+    endingCash,
+    netChange,
+    isReconciled: Math.abs(beginningCash + netChange - endingCash) < TOLERANCE,
+  };
+};
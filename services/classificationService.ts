@@ -0,0 +1,98 @@
+import { AccountType, Category, TransactionType } from "../types";
+
+// STRICT MAPPING based on user's database list
+// This is used as a fallback or for system defaults
+const DATABASE_MAPPING: Record<string, AccountType> = {
+  // Assets
+  'Inventory': AccountType.CURRENT_ASSET,
+
+  // Liabilities
+  'Loans': AccountType.LONG_TERM_LIAB,
+
+  // Equity
+  'Withdrawal': AccountType.EQUITY,
+
+  // Income (Explicit)
+  'Sales Revenue': AccountType.INCOME,
+  'Services Income': AccountType.INCOME,
+
+  // Expenses (Explicit)
+  'Bank Fees': AccountType.EXPENSE,
+  'Dinning': AccountType.EXPENSE, // Handling the typo in DB
+  'Dining': AccountType.EXPENSE,
+  'Marketing': AccountType.EXPENSE,
+  'Office Supplies': AccountType.EXPENSE,
+  'Payroll': AccountType.EXPENSE,
+  'Professional Fees': AccountType.EXPENSE,
+  'Rent': AccountType.EXPENSE,
+  'Repairs & Maintenance': AccountType.EXPENSE,
+  'Travel': AccountType.EXPENSE,
+  'Utilities': AccountType.EXPENSE,
+  'Uncategorized': AccountType.EXPENSE
+};
+
+const FIXED_ASSET_KEYWORDS = [
+  'equipment', 'computer', 'furniture', 'vehicle', 'property',
+  'machinery', 'building', 'improvement', 'hardware', 'laptop',
+  'server', 'fixture', 'land', 'renovation', 'truck', 'auto', 'macbook', 'pc'
+];
+
+const LONG_TERM_LIAB_KEYWORDS = [
+  'mortgage', 'note payable', 'financing', 'term loan',
+  'sba', 'eidl', 'line of credit', 'debt', 'borrowing', 'credit facility', 'bond'
+];
+
+const CURRENT_LIAB_KEYWORDS = [
+  'credit card', 'amex', 'chase', 'visa', 'mastercard', 'accounts payable',
+  'tax payable', 'accrued', 'short-term', 'overdraft'
+];
+
+const INCOME_KEYWORDS = ['income', 'revenue', 'sales'];
+
+// Helper to determine account type based on Category Object OR Keyword Fallback
+export const getAccountClassification = (categoryName: string, categories: Category[]): AccountType | 'PL_ITEM' => {
+  const normName = categoryName.trim();
+
+  // 1. PRIORITY: Check Dynamic Categories (User Preference)
+  // This allows users to override defaults. If they say "Computer Hardware" is an Expense, it obeys.
+  const matchedCat = categories.find(c => c.name.toLowerCase() === normName.toLowerCase());
+  if (matchedCat?.accountType) {
+    if (matchedCat.accountType === AccountType.INCOME || matchedCat.accountType === AccountType.EXPENSE) {
+      return 'PL_ITEM';
+    }
+    return matchedCat.accountType;
+  }
+
+  // 2. Check Strict Mapping (Fallback for system defaults)
+  if (DATABASE_MAPPING[normName]) {
+    const mappedType = DATABASE_MAPPING[normName];
+    if (mappedType === AccountType.INCOME || mappedType === AccountType.EXPENSE) {
+      return 'PL_ITEM';
+    }
+    return mappedType;
+  }
+
+  // 3. Fallback to Keyword Search (Last Resort)
+  // Only if the category is unknown/new
+  const lowerCat = normName.toLowerCase();
+  if (FIXED_ASSET_KEYWORDS.some(k => lowerCat.includes(k))) return AccountType.FIXED_ASSET;
+  if (LONG_TERM_LIAB_KEYWORDS.some(k => lowerCat.includes(k))) return AccountType.LONG_TERM_LIAB;
+  if (CURRENT_LIAB_KEYWORDS.some(k => lowerCat.includes(k))) return AccountType.CURRENT_LIABILITY;
+
+  // Default to P&L Item (Expense) if unsure
+  return 'PL_ITEM';
+};
+
+// Resolves a category to a ledger account type. For P&L categories the direction of the
+// money decides, as the P&L has always shown money in as revenue and money out as expense.
+// Without a direction (manual entries) the category's own setting or its name decides.
+export const getLedgerAccountType = (categoryName: string, categories: Category[], direction?: TransactionType): AccountType => {
+  const classification = getAccountClassification(categoryName, categories);
+  if (classification !== 'PL_ITEM') return classification;
+  if (direction) return direction === TransactionType.INCOME ? AccountType.INCOME : AccountType.EXPENSE;
+
+  const normName = categoryName.trim().toLowerCase();
+  const explicit = categories.find(c => c.name.toLowerCase() === normName)?.accountType || DATABASE_MAPPING[categoryName.trim()];
+  if (explicit === AccountType.INCOME || explicit === AccountType.EXPENSE) return explicit;
+  return INCOME_KEYWORDS.some(k => normName.includes(k)) ? AccountType.INCOME : AccountType.EXPENSE;
+};
@@ -0,0 +1,124 @@
+import { AccountType, ComparativeLine, ComparativePeriod, ComparativePeriodSet, ComparativeSection, JournalEntry, TrialBalanceRow } from "../types";
+import { TRANSFER_CLEARING, buildTrialBalance, compareAccounts, netIncome, normalBalance } from "./journalService";
+import { fiscalYearLabel, fiscalYearStartDate } from "./fiscalService";
+
+export const PERIOD_SET_LABELS: Record<ComparativePeriodSet, string> = {
+  years: 'Annual',
+  ytd: 'YTD vs Prior YTD',
+  ttm: 'Trailing 12 Months',
+  monthly: 'Month by Month',
+};
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const iso = (d: Date) => d.toISOString().substring(0, 10);
+const utc = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day));
+
+// Clamps Feb 29 to Feb 28 in non-leap years
+const addYears = (date: string, years: number) => {
+  const [y, m, d] = date.split('-').map(Number);
+  const lastDay = utc(y + years, m, 0).getUTCDate();
+  return iso(utc(y + years, m - 1, Math.min(d, lastDay)));
+};
+
+const nextDay = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return iso(d);
+};
+
+const dayBefore = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return iso(d);
+};
+
+// Columns oldest first, ending with the period that contains `anchor`. Years and
+// year-to-date follow the fiscal year starting in `fiscalStart` (1-12).
+export const buildComparativePeriods = (set: ComparativePeriodSet, anchor: string, fiscalStart = 1): ComparativePeriod[] => {
+  const [year, month] = anchor.split('-').map(Number);
+  const fiscalFrom = fiscalYearStartDate(anchor, fiscalStart);
+  switch (set) {
+    case 'years':
+      return [2, 1, 0].map(back => {
+        const from = addYears(fiscalFrom, -back);
+        return { label: fiscalYearLabel(from, fiscalStart), from, to: back === 0 ? anchor : dayBefore(addYears(from, 1)) };
+      });
+    case 'ytd':
+      return [1, 0].map(back => {
+        const from = addYears(fiscalFrom, -back);
+        return { label: `YTD ${fiscalYearLabel(from, fiscalStart)}`, from, to: addYears(anchor, -back) };
+      });
+    case 'ttm':
+      return [1, 0].map(back => {
+        const to = addYears(anchor, -back);
+        return { label: back ? 'Prior 12 Months' : 'Trailing 12 Months', from: nextDay(addYears(to, -1)), to };
+      });
+    case 'monthly':
+      return Array.from({ length: 12 }, (_, i) => {
+        const start = utc(year, month - 12 + i, 1);
+        const end = utc(start.getUTCFullYear(), start.getUTCMonth() + 1, 0);
+        return {
+          label: `${MONTH_NAMES[start.getUTCMonth()]} ${String(start.getUTCFullYear()).slice(2)}`,
+          from: iso(start),
+          to: i === 11 ? anchor : iso(end),
+        };
+      });
+  }
+};
+
+const keyOf = (r: TrialBalanceRow) => `${r.accountType}|${r.account}`;
+
+// One line per account that has a balance in any period, in chart of accounts order
+const sectionOf = (title: string, perPeriod: TrialBalanceRow[][], types: AccountType[]): ComparativeSection => {
+  const accounts = new Map<string, TrialBalanceRow>();
+  perPeriod.flat().filter(r => types.includes(r.accountType)).forEach(r => accounts.set(keyOf(r), r));
+
+  const lines: ComparativeLine[] = Array.from(accounts.values()).sort(compareAccounts).map(row => ({
+    account: row.account,
+    amounts: perPeriod.map(rows => {
+      const match = rows.find(r => keyOf(r) === keyOf(row));
+      return match ? normalBalance(match) : 0;
+    }),
+  })).filter(l => l.amounts.some(a => Math.abs(a) >= 0.005));
+
+  return { title, lines, totals: perPeriod.map((_, i) => lines.reduce((sum, l) => sum + l.amounts[i], 0)) };
+};
+
+export const comparativeProfitAndLoss = (entries: JournalEntry[], periods: ComparativePeriod[]) => {
+  const perPeriod = periods.map(p => buildTrialBalance(entries, p.from, p.to));
+  return {
+    sections: [
+      sectionOf('Operating Revenue', perPeriod, [AccountType.INCOME]),
+      sectionOf('Operating Expenses', perPeriod, [AccountType.EXPENSE]),
+    ],
+    net: perPeriod.map(netIncome),
+  };
+};
+
+// Balances as of each period end; earnings to date close into retained earnings
+export const comparativeBalanceSheet = (entries: JournalEntry[], periods: ComparativePeriod[]) => {
+  const perPeriod = periods.map(p => buildTrialBalance(entries, undefined, p.to)
+    .filter(r => r.account !== TRANSFER_CLEARING || r.debit !== 0 || r.credit !== 0));
+  const equity = sectionOf('Equity', perPeriod, [AccountType.EQUITY]);
+  const retained = perPeriod.map(netIncome);
+  equity.lines.unshift({ account: 'Retained Earnings (P&L)', amounts: retained });
+  equity.totals = equity.totals.map((t, i) => t + retained[i]);
+  const liabilities = sectionOf('Liabilities', perPeriod, [AccountType.CURRENT_LIABILITY, AccountType.LONG_TERM_LIAB, AccountType.LIABILITY]);
+  return {
+    sections: [
+      sectionOf('Assets', perPeriod, [AccountType.CURRENT_ASSET, AccountType.FIXED_ASSET, AccountType.ASSET]),
+      liabilities,
+      equity,
+    ],
+    net: liabilities.totals.map((t, i) => t + equity.totals[i]),
+  };
+};
+
+// Change from the previous column to the latest one
+export const variance = (amounts: number[]) => {
+  if (amounts.length < 2) return { amount: 0, percent: null as number | null };
+  const current = amounts[amounts.length - 1];
+  const prior = amounts[amounts.length - 2];
+  return { amount: current - prior, percent: prior !== 0 ? (current - prior) / Math.abs(prior) : null };
+};
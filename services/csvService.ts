@@ -0,0 +1,241 @@
+import { Transaction, TransactionType, CsvColumnMapping, CsvMappingPreset, CsvDateFormat } from "../types";
+
+const PRESETS_KEY = 'cf_csv_presets';
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY/MM/DD', 'DD.MM.YYYY'];
+
+export const isCsvFile = (file: File) => {
+  const name = file.name.toLowerCase();
+  return name.endsWith('.csv') || name.endsWith('.tsv') || file.type === 'text/csv';
+};
+
+// Count delimiter hits on the first few lines and pick the most consistent one
+export const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 10);
+  const candidates = [',', ';', '\t', '|'];
+  let best = ',';
+  let bestScore = 0;
+
+  candidates.forEach(d => {
+    const counts = lines.map(l => l.split(d).length - 1);
+    const min = Math.min(...counts);
+    if (min > bestScore) {
+      bestScore = min;
+      best = d;
+    }
+  });
+  return best;
+};
+
+// RFC 4180 style parser: quoted fields, escaped quotes ("") and newlines inside quotes
+export const parseCsv = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      field = '';
+      if (row.some(f => f.trim() !== '')) rows.push(row);
+      row = [];
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(f => f.trim() !== '')) rows.push(row);
+  return rows.map(r => r.map(f => f.trim()));
+};
+
+// Returns YYYY-MM-DD or null when the value doesn't fit the chosen format
+export const parseCsvDate = (value: string, format: CsvDateFormat): string | null => {
+  const parts = value.trim().split(/[-/.\s]/).filter(p => p !== '');
+  if (parts.length < 3) return null;
+
+  let year: string, month: string, day: string;
+  switch (format) {
+    case 'YYYY-MM-DD':
+    case 'YYYY/MM/DD':
+      [year, month, day] = parts;
+      break;
+    case 'MM/DD/YYYY':
+      [month, day, year] = parts;
+      break;
+    case 'DD/MM/YYYY':
+    case 'DD.MM.YYYY':
+      [day, month, year] = parts;
+      break;
+  }
+
+  if (year.length === 2) year = `20${year}`;
+  const y = parseInt(year), m = parseInt(month), d = parseInt(day);
+  if (isNaN(y) || isNaN(m) || isNaN(d)) return null;
+
+  // Round-trip through a real date so 02/30 or 04/31 is rejected instead of reaching the database
+  const parsed = new Date(Date.UTC(y, m - 1, d));
+  if (parsed.getUTCFullYear() !== y || parsed.getUTCMonth() !== m - 1 || parsed.getUTCDate() !== d) return null;
+
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+};
+
+// Handles "$1,234.56", "(45.00)", "45.00-", "1.234,56" and blank cells
+export const parseCsvAmount = (value: string): number | null => {
+  let raw = (value || '').trim();
+  if (!raw) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(raw)) {
+    negative = true;
+    raw = raw.slice(1, -1);
+  }
+  if (raw.endsWith('-')) {
+    negative = true;
+    raw = raw.slice(0, -1);
+  }
+  if (/DR$/i.test(raw)) {
+    negative = true;
+    raw = raw.replace(/\s*DR$/i, '');
+  }
+  raw = raw.replace(/\s*CR$/i, '').replace(/[^0-9.,-]/g, '');
+
+  // European style "1.234,56" -> "1234.56"
+  if (/,\d{1,2}$/.test(raw)) raw = raw.replace(/\./g, '').replace(',', '.');
+  else raw = raw.replace(/,/g, '');
+
+  const num = parseFloat(raw);
+  if (isNaN(num)) return null;
+  return negative ? -Math.abs(num) : num;
+};
+
+const findColumn = (header: string[], patterns: RegExp[]) => {
+  const idx = header.findIndex(h => patterns.some(p => p.test(h.toLowerCase())));
+  return idx;
+};
+
+export const headerSignature = (header: string[]) => header.map(h => h.toLowerCase().trim()).join('|');
+
+// Best-effort guess from header names so most bank exports need no manual mapping
+export const suggestMapping = (rows: string[][], delimiter: string): CsvColumnMapping => {
+  const first = rows[0] || [];
+  const hasHeader = first.length > 0 && first.every(f => parseCsvAmount(f) === null || f === '');
+  const header = hasHeader ? first : [];
+
+  const dateColumn = findColumn(header, [/date/, /posted/]);
+  const descriptionColumn = findColumn(header, [/desc/, /memo/, /payee/, /narrative/, /details/, /name/]);
+  const debitColumn = findColumn(header, [/debit/, /withdraw/, /money out/, /paid out/]);
+  const creditColumn = findColumn(header, [/credit/, /deposit/, /money in/, /paid in/]);
+  const amountColumn = findColumn(header, [/amount/, /value/]);
+
+  const sample = rows[hasHeader ? 1 : 0] || [];
+  const dateSample = sample[Math.max(dateColumn, 0)] || '';
+  const dateFormat = CSV_DATE_FORMATS.find(f => parseCsvDate(dateSample, f) !== null) || 'YYYY-MM-DD';
+
+  return {
+    delimiter,
+    hasHeader,
+    dateColumn: Math.max(dateColumn, 0),
+    descriptionColumn: descriptionColumn >= 0 ? descriptionColumn : 1,
+    amountMode: amountColumn < 0 && debitColumn >= 0 && creditColumn >= 0 ? 'debit_credit' : 'signed',
+    amountColumn: amountColumn >= 0 ? amountColumn : 2,
+    debitColumn: Math.max(debitColumn, 0),
+    creditColumn: Math.max(creditColumn, 0),
+    dateFormat,
+    invertSign: false,
+  };
+};
+
+export interface CsvRowError {
+  row: number;
+  reason: string;
+}
+
+export const mapCsvRows = (rows: string[][], mapping: CsvColumnMapping): { transactions: Transaction[]; errors: CsvRowError[] } => {
+  const transactions: Transaction[] = [];
+  const errors: CsvRowError[] = [];
+  const body = mapping.hasHeader ? rows.slice(1) : rows;
+  const offset = mapping.hasHeader ? 2 : 1;
+
+  body.forEach((cols, i) => {
+    const rowNumber = i + offset;
+    const date = parseCsvDate(cols[mapping.dateColumn] || '', mapping.dateFormat);
+    if (!date) {
+      errors.push({ row: rowNumber, reason: `Unreadable or impossible date "${cols[mapping.dateColumn] || ''}"` });
+      return;
+    }
+
+    let signed: number | null;
+    if (mapping.amountMode === 'signed') {
+      signed = parseCsvAmount(cols[mapping.amountColumn] || '');
+    } else {
+      const debit = parseCsvAmount(cols[mapping.debitColumn] || '');
+      const credit = parseCsvAmount(cols[mapping.creditColumn] || '');
+      signed = debit === null && credit === null ? null : Math.abs(credit || 0) - Math.abs(debit || 0);
+    }
+    if (signed === null) {
+      errors.push({ row: rowNumber, reason: 'Missing amount' });
+      return;
+    }
+    if (mapping.invertSign) signed = -signed;
+    if (signed === 0) return;
+
+    const description = cols[mapping.descriptionColumn] || 'No Description';
+    transactions.push({
+      id: `csv-${Date.now()}-${i}-${Math.random().toString(36).substring(2, 7)}`,
+      date,
+      description,
+      amount: Math.abs(signed),
+      type: signed > 0 ? TransactionType.INCOME : TransactionType.EXPENSE,
+      category: 'Uncategorized',
+      originalDescription: description,
+    });
+  });
+
+  return { transactions, errors };
+};
+
+export const getCsvPresets = (): CsvMappingPreset[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveCsvPreset = (preset: CsvMappingPreset): CsvMappingPreset[] => {
+  const presets = getCsvPresets().filter(p => p.id !== preset.id && p.name !== preset.name);
+  const next = [...presets, preset].sort((a, b) => a.name.localeCompare(b.name));
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(next));
+  return next;
+};
+
+export const deleteCsvPreset = (id: string): CsvMappingPreset[] => {
+  const next = getCsvPresets().filter(p => p.id !== id);
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(next));
+  return next;
+};
@@ -0,0 +1,137 @@
+import { Transaction, DuplicateMatch } from "../types";
+
+const HASHES_KEY = 'cf_imported_hashes';
+const DATE_WINDOW_DAYS = 3;
+const MIN_SIMILARITY = 0.5;
+
+// Strip reference numbers, card digits and punctuation so "POS 0412 STARBUCKS #118"
+// and "STARBUCKS #207 POS" compare equal
+export const normalizeDescription = (description: string) =>
+  (description || '')
+    .toLowerCase()
+    .replace(/[0-9]+/g, ' ')
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Word order is ignored; banks reshuffle the same fields between export formats
+export const fingerprint = (t: Transaction) =>
+  `${t.date}|${t.amount.toFixed(2)}|${t.type}|${normalizeDescription(t.originalDescription || t.description).split(' ').sort().join(' ')}`;
+
+const tokens = (t: Transaction) =>
+  new Set(normalizeDescription(t.originalDescription || t.description).split(' ').filter(w => w.length > 1));
+
+// Jaccard overlap of description words
+const similarity = (a: Transaction, b: Transaction) => {
+  const ta = tokens(a), tb = tokens(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach(w => { if (tb.has(w)) shared++; });
+  return shared / (ta.size + tb.size - shared);
+};
+
+const dayDiff = (a: string, b: string) => Math.abs(Date.parse(a) - Date.parse(b)) / 86400000;
+
+const amountKey = (t: Transaction) => `${t.amount.toFixed(2)}|${t.type}`;
+
+const bestMatch = (candidate: Transaction, pool: Transaction[], used: Set<string>): DuplicateMatch | null => {
+  let best: DuplicateMatch | null = null;
+  for (const original of pool) {
+    if (used.has(original.id)) continue;
+    // Bank references repeat across accounts, so they only match within the same one
+    if (candidate.externalId && original.externalId === candidate.externalId && (candidate.accountId || '') === (original.accountId || '')) {
+      return { candidate, original, reason: 'reference', score: 1 };
+    }
+    if (fingerprint(candidate) === fingerprint(original)) {
+      if (!best || best.score < 0.95) best = { candidate, original, reason: 'exact', score: 0.95 };
+      continue;
+    }
+    if (dayDiff(candidate.date, original.date) > DATE_WINDOW_DAYS) continue;
+    const sim = similarity(candidate, original);
+    if (sim < MIN_SIMILARITY) continue;
+    const score = Math.round((0.5 + sim * 0.4) * 100) / 100;
+    if (!best || best.score < score) best = { candidate, original, reason: 'probable', score };
+  }
+  return best;
+};
+
+// Compares a batch about to be saved with what is already in the ledger. Each existing
+// row can only absorb one incoming row, so two genuine identical charges on one
+// statement are not both flagged against a single ledger entry.
+export const findImportDuplicates = (incoming: Transaction[], existing: Transaction[], documentSeen = false): DuplicateMatch[] => {
+  const buckets = new Map<string, Transaction[]>();
+  existing.forEach(t => {
+    const key = amountKey(t);
+    buckets.set(key, [...(buckets.get(key) || []), t]);
+  });
+
+  const used = new Set<string>();
+  const matches: DuplicateMatch[] = [];
+  incoming.forEach(candidate => {
+    const match = bestMatch(candidate, buckets.get(amountKey(candidate)) || [], used);
+    if (match) {
+      if (match.original) used.add(match.original.id);
+      matches.push(documentSeen ? { ...match, reason: 'document', score: 1 } : match);
+    } else if (documentSeen) {
+      matches.push({ candidate, reason: 'document', score: 0.9 });
+    }
+  });
+  return matches;
+};
+
+// Scans the stored ledger for rows that look like the same bank movement saved twice.
+// The earliest-dated row of each group is treated as the original.
+export const findLedgerDuplicates = (transactions: Transaction[]): DuplicateMatch[] => {
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+  const buckets = new Map<string, Transaction[]>();
+  const matches: DuplicateMatch[] = [];
+  const used = new Set<string>();
+
+  sorted.forEach(t => {
+    const key = amountKey(t);
+    const pool = buckets.get(key) || [];
+    const match = bestMatch(t, pool, used);
+    if (match?.original) {
+      // Only the later copy is consumed; the original can still absorb a third copy
+      used.add(t.id);
+      matches.push(match);
+    }
+    buckets.set(key, [...pool, t]);
+  });
+  return matches;
+};
+
+export const hashFile = async (file: File): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const getImportedHashes = (): Record<string, { fileName: string; importedAt: string }> => {
+  try {
+    return JSON.parse(localStorage.getItem(HASHES_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+export const getImportedDocument = (hash: string) => getImportedHashes()[hash];
+
+export const rememberImportedDocument = (hash: string, fileName: string) => {
+  const hashes = getImportedHashes();
+  hashes[hash] = { fileName, importedAt: new Date().toISOString() };
+  localStorage.setItem(HASHES_KEY, JSON.stringify(hashes));
+};
+
+// Ledger slice worth loading to compare against an incoming batch
+export const getComparisonWindow = (incoming: Transaction[]): { startDate: string; endDate: string } => {
+  const dates = incoming.map(t => t.date).sort();
+  const shift = (date: string, days: number) => {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().substring(0, 10);
+  };
+  return {
+    startDate: shift(dates[0], -DATE_WINDOW_DAYS),
+    endDate: shift(dates[dates.length - 1], DATE_WINDOW_DAYS),
+  };
+};
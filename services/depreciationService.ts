@@ -0,0 +1,79 @@
+import { AccountType, DepreciationMethod, DepreciationPeriod, FixedAsset, JournalEntry, Transaction } from "../types";
+
+export const ACCUMULATED_DEPRECIATION = 'Accumulated Depreciation';
+export const DEPRECIATION_EXPENSE = 'Depreciation Expense';
+
+export const DEPRECIATION_METHOD_LABELS: Record<DepreciationMethod, string> = {
+  straight_line: 'Straight-Line',
+  declining_balance: 'Double Declining',
+  section_179: 'Section 179',
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const monthEnd = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).toISOString().substring(0, 10);
+
+// Monthly charges from the month the asset is placed in service (full-month convention).
+// Declining balance runs at twice the straight-line rate and switches to straight-line once
+// that charges more; Section 179 expenses the full cost in the first month.
+export const depreciationSchedule = (asset: FixedAsset): DepreciationPeriod[] => {
+  const start = new Date(`${asset.acquisitionDate}T00:00:00Z`);
+  if (isNaN(start.getTime()) || asset.cost <= 0) return [];
+
+  const depreciable = asset.method === 'section_179' ? asset.cost : Math.max(asset.cost - asset.salvageValue, 0);
+  const months = asset.method === 'section_179' ? 1 : Math.max(Math.round(asset.usefulLifeMonths), 1);
+  const floor = asset.cost - depreciable;
+  const schedule: DepreciationPeriod[] = [];
+  let bookValue = asset.cost;
+
+  for (let i = 0; i < months && bookValue - floor > 0.005; i++) {
+    const remaining = bookValue - floor;
+    let amount = asset.method === 'declining_balance'
+      ? Math.max(bookValue * (2 / months), remaining / (months - i))
+      : depreciable / months;
+    // The final month absorbs rounding so book value lands exactly on salvage
+    amount = i === months - 1 ? remaining : Math.min(round(amount), remaining);
+    bookValue = round(bookValue - amount);
+    schedule.push({
+      date: monthEnd(start.getUTCFullYear(), start.getUTCMonth() + i),
+      amount: round(amount),
+      accumulated: round(asset.cost - bookValue),
+      bookValue,
+    });
+  }
+  return schedule;
+};
+
+// Accumulated depreciation and book value as of a date
+export const assetPosition = (asset: FixedAsset, asOf: string) => {
+  const posted = depreciationSchedule(asset).filter(p => p.date <= asOf);
+  const accumulated = posted.length ? posted[posted.length - 1].accumulated : 0;
+  return { accumulated, bookValue: round(asset.cost - accumulated) };
+};
+
+// One entry per asset per month up to `asOf`; accumulated depreciation is a contra fixed asset
+export const depreciationEntries = (assets: FixedAsset[], asOf: string): JournalEntry[] =>
+  assets.flatMap(asset => depreciationSchedule(asset)
+    .filter(p => p.date <= asOf)
+    .map(p => ({
+      id: `dep-${asset.id}-${p.date}`,
+      date: p.date,
+      memo: `Depreciation: ${asset.name}`,
+      source: 'depreciation' as const,
+      lines: [
+        { account: DEPRECIATION_EXPENSE, accountType: AccountType.EXPENSE, debit: p.amount, credit: 0 },
+        { account: ACCUMULATED_DEPRECIATION, accountType: AccountType.FIXED_ASSET, debit: 0, credit: p.amount },
+      ],
+    })));
+
+export const draftAssetFromTransaction = (t: Transaction): FixedAsset => ({
+  id: `asset-${Date.now()}`,
+  name: t.description,
+  category: t.category,
+  acquisitionDate: t.date,
+  cost: t.amount,
+  usefulLifeMonths: 60,
+  salvageValue: 0,
+  method: 'straight_line',
+  transactionId: t.id,
+});
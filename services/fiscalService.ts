@@ -0,0 +1,101 @@
+import { DatePreset } from "../types";
+
+const FISCAL_START_KEY = 'cf_fiscal_start';
+
+export const DATE_PRESET_LABELS: Record<DatePreset, string> = {
+  this_month: 'This Month',
+  last_month: 'Last Month',
+  this_quarter: 'This Quarter',
+  last_fiscal_year: 'Last Fiscal Year',
+  ytd: 'Year to Date',
+  ttm: 'Trailing 12 Months',
+  custom: 'Custom',
+};
+
+export const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const COUNT_WORDS = ['', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve'];
+
+// Month the fiscal year starts in, 1-12
+export const getFiscalYearStart = (): number => {
+  const saved = parseInt(localStorage.getItem(FISCAL_START_KEY) || '', 10);
+  return saved >= 1 && saved <= 12 ? saved : 1;
+};
+
+export const saveFiscalYearStart = (month: number) => {
+  localStorage.setItem(FISCAL_START_KEY, String(month));
+};
+
+export const today = () => new Date().toISOString().split('T')[0];
+
+const iso = (d: Date) => d.toISOString().substring(0, 10);
+// Day 0 of a month is the last day of the month before
+const utc = (year: number, monthIndex: number, day: number) => new Date(Date.UTC(year, monthIndex, day));
+
+const parts = (date: string) => date.split('-').map(Number);
+
+const monthStart = (year: number, month: number) => iso(utc(year, month - 1, 1));
+const monthEnd = (year: number, month: number) => iso(utc(year, month, 0));
+
+// First day of the fiscal year that contains `date`
+export const fiscalYearStartDate = (date: string, startMonth: number) => {
+  const [year, month] = parts(date);
+  return monthStart(month >= startMonth ? year : year - 1, startMonth);
+};
+
+// Fiscal years are named after the calendar year they end in
+export const fiscalYearLabel = (from: string, startMonth: number) => {
+  const [year] = parts(from);
+  return startMonth === 1 ? `${year}` : `FY${year + 1}`;
+};
+
+export const presetRange = (preset: DatePreset, startMonth: number, asOf = today()): { startDate: string; endDate: string } => {
+  const [year, month] = parts(asOf);
+  switch (preset) {
+    case 'this_month':
+      return { startDate: monthStart(year, month), endDate: asOf };
+    case 'last_month':
+      return { startDate: monthStart(year, month - 1), endDate: monthEnd(year, month - 1) };
+    case 'this_quarter': {
+      // Quarters follow the fiscal year
+      const offset = (month - startMonth + 12) % 3;
+      return { startDate: monthStart(year, month - offset), endDate: asOf };
+    }
+    case 'last_fiscal_year': {
+      const [fy] = parts(fiscalYearStartDate(asOf, startMonth));
+      return { startDate: monthStart(fy - 1, startMonth), endDate: monthEnd(fy, startMonth - 1) };
+    }
+    case 'ytd':
+      return { startDate: fiscalYearStartDate(asOf, startMonth), endDate: asOf };
+    case 'ttm':
+      // The last twelve complete months
+      return { startDate: monthStart(year, month - 12), endDate: monthEnd(year, month - 1) };
+    case 'custom':
+      return { startDate: '', endDate: '' };
+  }
+};
+
+export const formatLongDate = (date: string) => {
+  const [year, month, day] = parts(date);
+  return `${MONTH_NAMES[month - 1]} ${day}, ${year}`;
+};
+
+// Whole months covered by a range, or null when it does not start on a first and end on a month end
+const wholeMonths = (from: string, to: string) => {
+  const [fy, fm, fd] = parts(from);
+  const [ty, tm] = parts(to);
+  if (fd !== 1 || to !== monthEnd(ty, tm)) return null;
+  return (ty - fy) * 12 + tm - fm + 1;
+};
+
+// Statement header wording: "As of ..." for balances, "For the ... ended ..." for activity
+export const describePeriod = (from: string, to: string, kind: 'activity' | 'balance') => {
+  if (kind === 'balance') return to ? `As of ${formatLongDate(to)}` : `As of ${formatLongDate(today())}`;
+  if (!from && !to) return 'All Periods on Record';
+  if (!from) return `Through ${formatLongDate(to)}`;
+  if (!to) return `From ${formatLongDate(from)}`;
+  const months = wholeMonths(from, to);
+  if (months === 1) return `For the month ended ${formatLongDate(to)}`;
+  if (months && months <= 12) return `For the ${COUNT_WORDS[months]} months ended ${formatLongDate(to)}`;
+  return `For the period ${formatLongDate(from)} through ${formatLongDate(to)}`;
+};
@@ -1,40 +1,65 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { Transaction, TransactionType, DEFAULT_CATEGORIES } from "../types";
+import { TransactionType, ExtractedStatement, DEFAULT_CATEGORIES, LenderMetric } from "../types";
+import { formatMetric } from "./lenderMetricsService";
 
 const categoriesStr = DEFAULT_CATEGORIES.join(", ");
 
 const SYSTEM_INSTRUCTION = `Expert financial analyst. Extract transactions from bank statements/receipts to JSON. 
 Date (YYYY-MM-DD), Description, Amount (positive), Type (income/expense). 
 Categories ONLY from: [${categoriesStr}]. 
+Confidence (0-1): how certain you are the row was read correctly; lower it for blurry, handwritten or ambiguous lines. Page: 1-based page number the row appears on.
+Bank statements: also return the opening and closing balances and statement period exactly as printed (negative when overdrawn). Omit them for receipts and invoices.
 
 CRITICAL: If a transaction looks like a significant asset purchase (e.g., "New Computer", "Truck", "Machinery") or a loan/debt activity (e.g., "SBA Loan", "Mortgage Pay"), categorize it into the most specific Asset or Liability category available. Guess logically based on typical business operations.`;
 
 const RESPONSE_SCHEMA = {
-  type: Type.ARRAY,
-  items: {
-    type: Type.OBJECT,
-    properties: {
-      date: { type: Type.STRING },
-      description: { type: Type.STRING },
-      amount: { type: Type.NUMBER },
-      type: { type: Type.STRING },
-      category: { type: Type.STRING },
+  type: Type.OBJECT,
+  properties: {
+    openingBalance: { type: Type.NUMBER },
+    closingBalance: { type: Type.NUMBER },
+    statementStart: { type: Type.STRING },
+    statementEnd: { type: Type.STRING },
+    transactions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          date: { type: Type.STRING },
+          description: { type: Type.STRING },
+          amount: { type: Type.NUMBER },
+          type: { type: Type.STRING },
+          category: { type: Type.STRING },
+          confidence: { type: Type.NUMBER },
+          page: { type: Type.INTEGER },
+        },
+        required: ["date", "description", "amount", "type", "category", "confidence"],
+      },
     },
-    required: ["date", "description", "amount", "type", "category"],
   },
+  required: ["transactions"],
 };
 
 const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
 
-async function withRetry<T>(fn: () => Promise<T>, retries = 2, baseDelay = 3000): Promise<T> {
+export const RATE_LIMIT_RETRIES = 2;
+export const RATE_LIMIT_BASE_DELAY = 3000;
+
+export const isRateLimitError = (error: any) => {
+  const errorMsg = error?.message?.toLowerCase() || "";
+  return error?.status === 429 || errorMsg.includes('429') || errorMsg.includes('rate limit') || errorMsg.includes('quota');
+};
+
+// Wait before rate-limit retry number `attempt` (0-based): 3s, 6s, 12s...
+export const getRetryDelay = (attempt: number) => RATE_LIMIT_BASE_DELAY * Math.pow(2, attempt);
+
+async function withRetry<T>(fn: () => Promise<T>, retries = RATE_LIMIT_RETRIES, baseDelay = RATE_LIMIT_BASE_DELAY): Promise<T> {
   try {
     return await fn();
   } catch (error: any) {
     const errorMsg = error.message?.toLowerCase() || "";
-    const isRateLimit = error.status === 429 || error.message?.includes('429') || errorMsg.includes('rate limit') || errorMsg.includes('quota');
 
-    if (retries > 0 && isRateLimit) {
+    if (retries > 0 && isRateLimitError(error)) {
       await delay(baseDelay);
       return withRetry(fn, retries - 1, baseDelay * 2);
     }
@@ -79,9 +104,11 @@ export const readFileAsBase64 = (file: File): Promise<string> => {
 
 export const parseDocumentWithGemini = async (
   file: File, 
-  base64Data: string
-): Promise<Transaction[]> => {
+  base64Data: string,
+  signal?: AbortSignal
+): Promise<ExtractedStatement> => {
   return withRetry(async () => {
+    signal?.throwIfAborted();
     const apiKey = getApiKey();
     if (!apiKey) throw new Error("API Key is missing. Please check your configuration.");
     
@@ -93,13 +120,14 @@ export const parseDocumentWithGemini = async (
       contents: { 
         parts: [
           { inlineData: { mimeType, data: base64Data } },
-          { text: "Extract all transactions into the specified JSON format." }
+          { text: "Extract all transactions and statement balances into the specified JSON format." }
         ] 
       },
       config: {
         systemInstruction: SYSTEM_INSTRUCTION,
         responseMimeType: "application/json",
         responseSchema: RESPONSE_SCHEMA,
+        abortSignal: signal,
       },
     });
 
@@ -107,15 +135,28 @@ export const parseDocumentWithGemini = async (
     if (!jsonStr) throw new Error("Empty response from model");
 
     const rawData = JSON.parse(jsonStr);
-    return rawData.map((item: any) => ({
-      id: `ai-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
-      date: item.date,
-      description: item.description,
-      amount: Math.abs(item.amount),
-      type: item.type?.toLowerCase() === 'income' ? TransactionType.INCOME : TransactionType.EXPENSE,
-      category: item.category,
-      originalDescription: item.description,
+    const rows = (rawData.transactions || []).map((item: any) => ({
+      transaction: {
+        id: `ai-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+        date: item.date,
+        description: item.description,
+        amount: Math.abs(item.amount),
+        type: item.type?.toLowerCase() === 'income' ? TransactionType.INCOME : TransactionType.EXPENSE,
+        category: item.category,
+        originalDescription: item.description,
+      },
+      confidence: typeof item.confidence === 'number' ? Math.min(Math.max(item.confidence, 0), 1) : 0.5,
+      page: item.page || undefined,
+      decision: 'pending',
     }));
+
+    return {
+      rows,
+      openingBalance: typeof rawData.openingBalance === 'number' ? rawData.openingBalance : undefined,
+      closingBalance: typeof rawData.closingBalance === 'number' ? rawData.closingBalance : undefined,
+      statementStart: rawData.statementStart || undefined,
+      statementEnd: rawData.statementEnd || undefined,
+    };
   });
 };
 
@@ -193,14 +234,18 @@ export const generateFinancialNarrative = async (summary: any): Promise<string>
     if (!apiKey) return "API Key missing. Cannot generate narrative.";
     
     const ai = new GoogleGenAI({ apiKey });
+    const metrics: LenderMetric[] = summary.metrics || [];
+    const metricLines = metrics
+      .map(m => `    ${m.label}: ${formatMetric(m)}${m.status === 'na' ? '' : ` (${m.status === 'warn' ? 'watch' : m.status} against covenant)`}`)
+      .join('\n');
     const prompt = `As a financial analyst, write a Management Discussion and Analysis (MD&A) for a business with the following summary:
     Total Income: $${summary.totalIncome.toFixed(2)}
     Total Expenses: $${summary.totalExpense.toFixed(2)}
     Net Operating Profit: $${summary.netProfit.toFixed(2)}
     Top Operating Expenses: ${summary.topExpenses.join(', ')}
-    
+    ${metricLines ? `\n    Lender Metrics:\n${metricLines}\n` : ''}
     The tone should be professional, insightful, and suitable for a bank loan officer review. 
-    Comment on profitability, potential for debt service, and expense control efficiency.`;
+    Comment on profitability, potential for debt service, and expense control efficiency.${metricLines ? ' Address any metric that fails or is on watch, and what supports repayment.' : ''}`;
 
     const response = await ai.models.generateContent({
       model: "gemini-3-pro-preview",
@@ -0,0 +1,215 @@
+import { AccountType, BankAccount, Category, GeneralLedgerAccount, JournalEntry, JournalLine, Transaction, TransactionType, TrialBalanceRow } from "../types";
+import { accountLabel, isLiabilityAccount } from "./accountService";
+import { getLedgerAccountType } from "./classificationService";
+import { expandSplits } from "./splitService";
+import { isTransfer } from "./transferService";
+
+export const CASH_ACCOUNT = 'Cash & Equivalents';
+export const OPENING_BALANCE_EQUITY = 'Opening Balance Equity';
+// Both legs of a transfer post here, so a matched pair nets to zero
+export const TRANSFER_CLEARING = 'Transfers in Transit';
+
+const TOLERANCE = 0.005;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Assets and expenses carry debit balances; everything else carries credit balances
+export const isDebitNormal = (type: AccountType) =>
+  type === AccountType.CURRENT_ASSET || type === AccountType.FIXED_ASSET || type === AccountType.ASSET || type === AccountType.EXPENSE;
+
+// Chart of accounts order used by the ledger reports
+const ACCOUNT_TYPE_ORDER: AccountType[] = [
+  AccountType.CURRENT_ASSET, AccountType.FIXED_ASSET, AccountType.ASSET,
+  AccountType.CURRENT_LIABILITY, AccountType.LONG_TERM_LIAB, AccountType.LIABILITY,
+  AccountType.EQUITY, AccountType.INCOME, AccountType.EXPENSE,
+];
+
+export const compareAccounts = (a: { account: string; accountType: AccountType }, b: { account: string; accountType: AccountType }) =>
+  ACCOUNT_TYPE_ORDER.indexOf(a.accountType) - ACCOUNT_TYPE_ORDER.indexOf(b.accountType) || a.account.localeCompare(b.account);
+
+const isProfitAndLoss = (type: AccountType) => type === AccountType.INCOME || type === AccountType.EXPENSE;
+
+export const accountKey = (line: { account: string; accountType: AccountType }) => `${line.accountType}|${line.account}`;
+
+const debit = (account: string, accountType: AccountType, amount: number, memo?: string): JournalLine =>
+  ({ account, accountType, debit: amount, credit: 0, memo });
+
+const credit = (account: string, accountType: AccountType, amount: number, memo?: string): JournalLine =>
+  ({ account, accountType, debit: 0, credit: amount, memo });
+
+// The ledger account a bank account posts to. Rows without one fall back to a shared cash account.
+const bankLedgerAccount = (bank?: BankAccount): { account: string; accountType: AccountType } => {
+  if (!bank) return { account: CASH_ACCOUNT, accountType: AccountType.CURRENT_ASSET };
+  const accountType = bank.kind === 'credit_card' ? AccountType.CURRENT_LIABILITY
+    : bank.kind === 'loan' ? AccountType.LONG_TERM_LIAB
+    : AccountType.CURRENT_ASSET;
+  return { account: accountLabel(bank), accountType };
+};
+
+// Money in debits the bank side and credits the category; money out does the reverse.
+// Split rows post one category line per split.
+const transactionEntry = (t: Transaction, categories: Category[], banks: Map<string, BankAccount>): JournalEntry => {
+  const bank = bankLedgerAccount(t.accountId ? banks.get(t.accountId) : undefined);
+  const isInflow = t.type === TransactionType.INCOME;
+  const lines: JournalLine[] = [];
+
+  const parts = isTransfer(t) ? [{ ...t, splits: undefined }] : expandSplits([t]);
+  parts.forEach(part => {
+    const account = isTransfer(t) ? TRANSFER_CLEARING : part.category || 'Uncategorized';
+    const accountType = isTransfer(t) ? AccountType.CURRENT_ASSET : getLedgerAccountType(account, categories, t.type);
+    lines.push(isInflow ? credit(account, accountType, part.amount, part.description) : debit(account, accountType, part.amount, part.description));
+  });
+  lines.unshift(isInflow ? debit(bank.account, bank.accountType, t.amount) : credit(bank.account, bank.accountType, t.amount));
+
+  return { id: `txn-${t.id}`, date: t.date, memo: t.description, source: 'transaction', transactionId: t.id, lines };
+};
+
+// Opening balances predate the ledger, so their other side is equity
+const openingEntry = (bank: BankAccount): JournalEntry | null => {
+  if (!bank.openingBalance) return null;
+  const { account, accountType } = bankLedgerAccount(bank);
+  const amount = bank.openingBalance;
+  const lines = isLiabilityAccount(bank)
+    ? [debit(OPENING_BALANCE_EQUITY, AccountType.EQUITY, amount), credit(account, accountType, amount)]
+    : [debit(account, accountType, amount), credit(OPENING_BALANCE_EQUITY, AccountType.EQUITY, amount)];
+  return { id: `open-${bank.id}`, date: bank.openingDate, memo: `Opening balance ${accountLabel(bank)}`, source: 'opening', lines };
+};
+
+// The ledger account a manual line posts to: a bank account, one of the system accounts,
+// or a category
+export const resolveLedgerAccount = (name: string, categories: Category[], accounts: BankAccount[]): { account: string; accountType: AccountType } => {
+  const bank = accounts.find(a => accountLabel(a) === name);
+  if (bank) return bankLedgerAccount(bank);
+  if (name === CASH_ACCOUNT || name === TRANSFER_CLEARING) return { account: name, accountType: AccountType.CURRENT_ASSET };
+  if (name === OPENING_BALANCE_EQUITY) return { account: name, accountType: AccountType.EQUITY };
+  return { account: name, accountType: getLedgerAccountType(name, categories) };
+};
+
+// Reversals land on the first day of the following month
+export const reversalDate = (date: string) => {
+  const d = new Date(`${date.substring(0, 7)}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + 1);
+  return d.toISOString().substring(0, 10);
+};
+
+// Adds the automatic reversal of every reversing entry, with debits and credits swapped
+export const withReversals = (entries: JournalEntry[]): JournalEntry[] =>
+  entries.flatMap(entry => !entry.reversing || !entry.date ? [entry] : [entry, {
+    id: `rev-${entry.id}`,
+    date: reversalDate(entry.date),
+    memo: `Reversal: ${entry.memo || entry.date}`,
+    source: 'manual' as const,
+    reversalOf: entry.id,
+    lines: entry.lines.map(l => ({ ...l, debit: l.credit, credit: l.debit })),
+  }]);
+
+export const isEntryBalanced = (entry: JournalEntry) =>
+  Math.abs(entry.lines.reduce((sum, l) => sum + l.debit - l.credit, 0)) < TOLERANCE;
+
+export const entryTotal = (entry: JournalEntry) => round(entry.lines.reduce((sum, l) => sum + l.debit, 0));
+
+// One-line description used in the audit trail
+export const describeEntry = (entry: JournalEntry) =>
+  `${entry.date} · ${entry.memo || 'Journal entry'} · $${entryTotal(entry).toFixed(2)}${entry.reversing ? ' · reversing' : ''}`;
+
+export interface JournalSources {
+  transactions: Transaction[];
+  categories?: Category[];
+  accounts?: BankAccount[];
+  manualEntries?: JournalEntry[];
+}
+
+export const buildJournal = ({ transactions, categories = [], accounts = [], manualEntries = [] }: JournalSources): JournalEntry[] => {
+  const banks = new Map(accounts.map(a => [a.id, a]));
+  return [
+    ...accounts.map(openingEntry).filter((e): e is JournalEntry => !!e),
+    ...transactions.map(t => transactionEntry(t, categories, banks)),
+    ...manualEntries,
+  ];
+};
+
+const inRange = (entry: JournalEntry, from?: string, to?: string) =>
+  (!from || entry.date >= from) && (!to || entry.date <= to);
+
+export const entriesInRange = (entries: JournalEntry[], from?: string, to?: string) =>
+  entries.filter(e => inRange(e, from, to));
+
+// Nets every account to one debit or credit balance, in order of first use
+export const buildTrialBalance = (entries: JournalEntry[], from?: string, to?: string): TrialBalanceRow[] => {
+  const rows = new Map<string, TrialBalanceRow>();
+  entriesInRange(entries, from, to).forEach(entry => {
+    entry.lines.forEach(line => {
+      const key = accountKey(line);
+      const row = rows.get(key) || { account: line.account, accountType: line.accountType, debit: 0, credit: 0 };
+      row.debit += line.debit;
+      row.credit += line.credit;
+      rows.set(key, row);
+    });
+  });
+  return Array.from(rows.values()).map(row => {
+    const net = round(row.debit - row.credit);
+    return { ...row, debit: net > 0 ? net : 0, credit: net < 0 ? -net : 0 };
+  });
+};
+
+export const isTrialBalanced = (rows: TrialBalanceRow[]) =>
+  Math.abs(rows.reduce((sum, r) => sum + r.debit - r.credit, 0)) < TOLERANCE;
+
+// Balance on the account's normal side, so a positive number is the usual case
+export const normalBalance = (row: TrialBalanceRow) =>
+  isDebitNormal(row.accountType) ? row.debit - row.credit : row.credit - row.debit;
+
+export const netIncome = (rows: TrialBalanceRow[]) =>
+  rows.reduce((sum, r) => {
+    if (r.accountType === AccountType.INCOME) return sum + normalBalance(r);
+    if (r.accountType === AccountType.EXPENSE) return sum - normalBalance(r);
+    return sum;
+  }, 0);
+
+// Every posting per account with a running balance. Balance sheet accounts open with their
+// balance before `from`; income and expense accounts show the period's activity only.
+export const buildGeneralLedger = (entries: JournalEntry[], from?: string, to?: string): GeneralLedgerAccount[] => {
+  const ledger = new Map<string, GeneralLedgerAccount>();
+  const accountFor = (line: JournalLine) => {
+    const key = accountKey(line);
+    if (!ledger.has(key)) {
+      ledger.set(key, { account: line.account, accountType: line.accountType, openingBalance: 0, postings: [], closingBalance: 0 });
+    }
+    return ledger.get(key)!;
+  };
+  const signed = (line: JournalLine) => isDebitNormal(line.accountType) ? line.debit - line.credit : line.credit - line.debit;
+
+  if (from) {
+    entries.filter(e => e.date < from).forEach(entry => {
+      entry.lines.filter(l => !isProfitAndLoss(l.accountType)).forEach(line => {
+        accountFor(line).openingBalance += signed(line);
+      });
+    });
+  }
+
+  const postings = entriesInRange(entries, from, to).sort((a, b) => a.date.localeCompare(b.date));
+  postings.forEach(entry => {
+    entry.lines.forEach(line => {
+      accountFor(line).postings.push({
+        entryId: entry.id,
+        date: entry.date,
+        memo: line.memo || entry.memo,
+        debit: line.debit,
+        credit: line.credit,
+        balance: 0,
+      });
+    });
+  });
+
+  return Array.from(ledger.values())
+    .filter(a => a.postings.length > 0 || Math.abs(a.openingBalance) >= TOLERANCE)
+    .map(a => {
+      let balance = round(a.openingBalance);
+      const rows = a.postings.map(p => {
+        balance = round(balance + (isDebitNormal(a.accountType) ? p.debit - p.credit : p.credit - p.debit));
+        return { ...p, balance };
+      });
+      return { ...a, openingBalance: round(a.openingBalance), postings: rows, closingBalance: balance };
+    })
+    .sort(compareAccounts);
+};
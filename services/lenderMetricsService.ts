@@ -0,0 +1,151 @@
+import { AccountType, JournalEntry, LenderMetric, LenderMetricId, Loan, MetricStatus, MetricThreshold, TrialBalanceRow } from "../types";
+import { buildTrialBalance, normalBalance, netIncome } from "./journalService";
+import { DEPRECIATION_EXPENSE } from "./depreciationService";
+import { INTEREST_EXPENSE } from "./loanService";
+
+const THRESHOLDS_KEY = 'cf_lender_thresholds';
+
+const COGS_KEYWORDS = ['cost of goods', 'cogs', 'cost of sales', 'materials', 'merchandise', 'inventory purchase'];
+const INCOME_TAX_KEYWORDS = ['income tax'];
+const ILLIQUID_CURRENT_KEYWORDS = ['inventory', 'prepaid'];
+
+const METRIC_DEFINITIONS: Record<LenderMetricId, Pick<LenderMetric, 'label' | 'format' | 'higherIsBetter'>> = {
+  dscr: { label: 'Debt Service Coverage', format: 'ratio', higherIsBetter: true },
+  current_ratio: { label: 'Current Ratio', format: 'ratio', higherIsBetter: true },
+  quick_ratio: { label: 'Quick Ratio', format: 'ratio', higherIsBetter: true },
+  debt_to_equity: { label: 'Debt to Equity', format: 'ratio', higherIsBetter: false },
+  gross_margin: { label: 'Gross Margin', format: 'percent', higherIsBetter: true },
+  net_margin: { label: 'Net Margin', format: 'percent', higherIsBetter: true },
+  ebitda: { label: 'EBITDA', format: 'currency', higherIsBetter: true },
+  cash_runway: { label: 'Cash Runway', format: 'months', higherIsBetter: true },
+  revenue_growth: { label: 'Revenue Growth', format: 'percent', higherIsBetter: true },
+};
+
+// Typical SBA 7(a) and community bank covenant levels
+export const DEFAULT_THRESHOLDS: Record<LenderMetricId, MetricThreshold> = {
+  dscr: { pass: 1.25, warn: 1.0 },
+  current_ratio: { pass: 1.5, warn: 1.0 },
+  quick_ratio: { pass: 1.0, warn: 0.8 },
+  debt_to_equity: { pass: 3, warn: 4 },
+  gross_margin: { pass: 0.3, warn: 0.15 },
+  net_margin: { pass: 0.05, warn: 0 },
+  ebitda: { pass: 1, warn: 0 },
+  cash_runway: { pass: 6, warn: 3 },
+  revenue_growth: { pass: 0, warn: -0.1 },
+};
+
+export const getLenderThresholds = (): Record<LenderMetricId, MetricThreshold> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(THRESHOLDS_KEY) || '{}');
+    return { ...DEFAULT_THRESHOLDS, ...saved };
+  } catch {
+    return DEFAULT_THRESHOLDS;
+  }
+};
+
+export const saveLenderThresholds = (thresholds: Record<LenderMetricId, MetricThreshold>) => {
+  localStorage.setItem(THRESHOLDS_KEY, JSON.stringify(thresholds));
+};
+
+export const metricStatus = (value: number | null, threshold: MetricThreshold, higherIsBetter: boolean): MetricStatus => {
+  if (value === null || isNaN(value)) return 'na';
+  const meets = (limit: number) => higherIsBetter ? value >= limit : value <= limit;
+  if (meets(threshold.pass)) return 'pass';
+  return meets(threshold.warn) ? 'warn' : 'fail';
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().substring(0, 10);
+
+const ratio = (numerator: number, denominator: number) => denominator > 0 ? numerator / denominator : null;
+
+const matches = (name: string, keywords: string[]) => keywords.some(k => name.toLowerCase().includes(k));
+
+const sumOf = (rows: TrialBalanceRow[], predicate: (r: TrialBalanceRow) => boolean) =>
+  rows.filter(predicate).reduce((sum, r) => sum + normalBalance(r), 0);
+
+const revenueOf = (rows: TrialBalanceRow[]) => sumOf(rows, r => r.accountType === AccountType.INCOME);
+
+export interface LenderMetricInputs {
+  // Every journal entry up to the end of the period, from the unfiltered ledger: balances need the
+  // whole history and revenue growth reads the window before `from`
+  entries: JournalEntry[];
+  from?: string;
+  to: string;
+  loans: Loan[];
+  // Loan principal due within twelve months, presented as current liabilities
+  currentPortions: Record<string, number>;
+  cashAccounts: Set<string>;
+  thresholds: Record<LenderMetricId, MetricThreshold>;
+}
+
+// Period metrics come from the P&L between `from` and `to`; balance metrics as of `to`
+export const computeLenderMetrics = ({ entries, from, to, loans, currentPortions, cashAccounts, thresholds }: LenderMetricInputs): LenderMetric[] => {
+  const start = from || entries.reduce((min, e) => (e.date && e.date < min ? e.date : min), to);
+  const periodDays = Math.max((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${start}T00:00:00Z`).getTime()) / DAY_MS + 1, 1);
+  const periodMonths = periodDays / (365 / 12);
+
+  const period = buildTrialBalance(entries, start, to);
+  const balances = buildTrialBalance(entries, undefined, to);
+
+  const revenue = revenueOf(period);
+  const cogs = sumOf(period, r => r.accountType === AccountType.EXPENSE && matches(r.account, COGS_KEYWORDS));
+  const expenses = sumOf(period, r => r.accountType === AccountType.EXPENSE);
+  const profit = netIncome(period);
+  const interest = sumOf(period, r => r.account === INTEREST_EXPENSE);
+  const depreciation = sumOf(period, r => r.account === DEPRECIATION_EXPENSE);
+  const taxes = sumOf(period, r => r.accountType === AccountType.EXPENSE && matches(r.account, INCOME_TAX_KEYWORDS));
+  const ebitda = profit + interest + depreciation + taxes;
+
+  const currentPortion = Object.values(currentPortions).reduce((sum, v) => sum + v, 0);
+  const currentAssets = sumOf(balances, r => r.accountType === AccountType.CURRENT_ASSET);
+  const illiquid = sumOf(balances, r => r.accountType === AccountType.CURRENT_ASSET && matches(r.account, ILLIQUID_CURRENT_KEYWORDS));
+  const cash = sumOf(balances, r => r.accountType === AccountType.CURRENT_ASSET && cashAccounts.has(r.account));
+  const currentLiabilities = sumOf(balances, r => r.accountType === AccountType.CURRENT_LIABILITY) + currentPortion;
+  const totalLiabilities = sumOf(balances, r => [AccountType.CURRENT_LIABILITY, AccountType.LONG_TERM_LIAB, AccountType.LIABILITY].includes(r.accountType));
+  const equity = sumOf(balances, r => r.accountType === AccountType.EQUITY) + netIncome(balances);
+
+  // Annual debt service is twelve scheduled payments on every loan outstanding at period end
+  const activeLoans = loans.filter(l => l.startDate <= to);
+  const annualDebtService = activeLoans.reduce((sum, l) => sum + l.paymentAmount * 12, 0);
+  const annualizedEbitda = ebitda * 12 / periodMonths;
+
+  const monthlyBurn = (expenses - revenue) / periodMonths;
+  const runway = monthlyBurn > 0 ? cash / monthlyBurn : Infinity;
+
+  // Growth compares against the window of the same length just before the period
+  const priorRevenue = from ? revenueOf(buildTrialBalance(entries, addDays(from, -periodDays), addDays(from, -1))) : 0;
+
+  const values: Record<LenderMetricId, number | null> = {
+    dscr: activeLoans.length ? ratio(annualizedEbitda, annualDebtService) : null,
+    current_ratio: ratio(currentAssets, currentLiabilities),
+    quick_ratio: ratio(currentAssets - illiquid, currentLiabilities),
+    debt_to_equity: equity > 0 ? totalLiabilities / equity : null,
+    gross_margin: ratio(revenue - cogs, revenue),
+    net_margin: ratio(profit, revenue),
+    ebitda,
+    cash_runway: runway,
+    revenue_growth: priorRevenue > 0 ? (revenue - priorRevenue) / priorRevenue : null,
+  };
+
+  return (Object.keys(METRIC_DEFINITIONS) as LenderMetricId[]).map(id => ({
+    id,
+    ...METRIC_DEFINITIONS[id],
+    value: values[id],
+    status: metricStatus(values[id], thresholds[id], METRIC_DEFINITIONS[id].higherIsBetter),
+  }));
+};
+
+export const formatMetric = (metric: Pick<LenderMetric, 'value' | 'format'>) => {
+  const { value, format } = metric;
+  if (value === null) return 'N/A';
+  if (value === Infinity) return 'Cash positive';
+  switch (format) {
+    case 'ratio': return `${value.toFixed(2)}x`;
+    case 'percent': return `${(value * 100).toFixed(1)}%`;
+    case 'months': return `${value.toFixed(1)} mo`;
+    default: return `$${value.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+  }
+};
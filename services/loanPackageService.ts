@@ -0,0 +1,121 @@
+import { CounterpartyTotal, EntityProfile, LenderMetric, LenderMetricId, MetricThreshold, PackageLayout, PackageSectionId, SourceDocument, Transaction, TransactionType } from "../types";
+import { expandSplits } from "./splitService";
+import { isTransfer } from "./transferService";
+import { formatMetric } from "./lenderMetricsService";
+import { PdfSection, PdfTableRow, formatPdfMoney } from "./reportPdfService";
+
+const LAYOUT_KEY = 'cf_package_layout';
+
+export const PACKAGE_SECTION_LABELS: Record<PackageSectionId, string> = {
+  memo: 'AI MD&A Memo',
+  pnl: 'Profit & Loss',
+  balance_sheet: 'Balance Sheet',
+  cash_flow: 'Cash Flow',
+  lender_metrics: 'Lender Metrics',
+  counterparties: 'Top Customers & Vendors',
+  documents: 'Source Documents',
+};
+
+export const DEFAULT_PACKAGE_LAYOUT: PackageLayout = {
+  cover: true,
+  contents: true,
+  sections: (Object.keys(PACKAGE_SECTION_LABELS) as PackageSectionId[]).map(id => ({ id, enabled: true })),
+};
+
+// Keeps the saved order, drops sections that no longer exist and appends new ones enabled
+export const getPackageLayout = (): PackageLayout => {
+  try {
+    const saved: Partial<PackageLayout> = JSON.parse(localStorage.getItem(LAYOUT_KEY) || '{}');
+    const known = (saved.sections || []).filter(s => s.id in PACKAGE_SECTION_LABELS);
+    const missing = DEFAULT_PACKAGE_LAYOUT.sections.filter(d => !known.some(s => s.id === d.id));
+    return {
+      cover: saved.cover ?? DEFAULT_PACKAGE_LAYOUT.cover,
+      contents: saved.contents ?? DEFAULT_PACKAGE_LAYOUT.contents,
+      sections: [...known, ...missing],
+    };
+  } catch {
+    return DEFAULT_PACKAGE_LAYOUT;
+  }
+};
+
+export const savePackageLayout = (layout: PackageLayout) => {
+  localStorage.setItem(LAYOUT_KEY, JSON.stringify(layout));
+};
+
+// Largest customers by income and vendors by spend, counting only rows linked to a saved profile.
+// Split lines count toward their own entity.
+export const topCounterparties = (transactions: Transaction[], profiles: EntityProfile[], type: TransactionType, limit = 10): CounterpartyTotal[] => {
+  const rows = expandSplits(transactions).filter(t => t.type === type && !isTransfer(t));
+  const grandTotal = rows.reduce((s, t) => s + t.amount, 0);
+  const byId = new Map(profiles.map(p => [p.id, p]));
+  const totals = new Map<string, CounterpartyTotal>();
+
+  rows.forEach(t => {
+    const profile = t.entityId ? byId.get(t.entityId) : undefined;
+    if (!profile) return;
+    const current = totals.get(profile.id) || { entityId: profile.id, name: profile.name, total: 0, count: 0, share: 0 };
+    current.total += t.amount;
+    current.count += 1;
+    totals.set(profile.id, current);
+  });
+
+  return Array.from(totals.values())
+    .map(c => ({ ...c, share: grandTotal ? c.total / grandTotal : 0 }))
+    .sort((a, b) => b.total - a.total)
+    .slice(0, limit);
+};
+
+// Statements whose covered dates overlap the period; files without dates are always included
+export const documentsInPeriod = (documents: SourceDocument[], from?: string, to?: string) =>
+  documents.filter(d => (!to || !d.statementStart || d.statementStart <= to) && (!from || !d.statementEnd || d.statementEnd >= from));
+
+const STATUS_LABELS = { pass: 'Pass', warn: 'Watch', fail: 'Fail', na: 'N/A' };
+
+export const lenderMetricsSection = (metrics: LenderMetric[], thresholds: Record<LenderMetricId, MetricThreshold>, period: string): PdfSection => ({
+  kind: 'table',
+  title: 'Lender Metrics',
+  period,
+  columns: ['Metric', 'Value', 'Target', 'Status'],
+  rows: metrics.map(m => ({
+    cells: [
+      m.label,
+      formatMetric(m),
+      `${m.higherIsBetter ? '>=' : '<='} ${formatMetric({ value: thresholds[m.id].pass, format: m.format })}`,
+      STATUS_LABELS[m.status],
+    ],
+  })),
+});
+
+export const counterpartiesSection = (customers: CounterpartyTotal[], vendors: CounterpartyTotal[], period: string): PdfSection => {
+  const group = (heading: string, list: CounterpartyTotal[], empty: string): PdfTableRow[] => [
+    { cells: [heading], style: 'heading' },
+    ...(list.length
+      ? list.map(c => ({ cells: [c.name, String(c.count), formatPdfMoney(c.total), `${(c.share * 100).toFixed(1)}%`] }))
+      : [{ cells: [empty] }]),
+  ];
+  return {
+    kind: 'table',
+    title: 'Top Customers & Vendors',
+    period,
+    columns: ['Name', 'Transactions', 'Total', 'Share'],
+    rows: [
+      ...group('Customers', customers, 'No income linked to a customer profile'),
+      ...group('Vendors', vendors, 'No spend linked to a vendor profile'),
+    ],
+  };
+};
+
+export const documentIndexSection = (documents: SourceDocument[]): PdfSection => ({
+  kind: 'table',
+  title: 'Appendix: Source Documents',
+  columns: ['File', 'Account', 'From', 'To', 'Pages'],
+  rows: documents.map(d => ({
+    cells: [
+      d.fileName,
+      d.accountNumber ? `...${d.accountNumber.slice(-4)}` : '—',
+      d.statementStart || '—',
+      d.statementEnd || '—',
+      d.pageCount ? String(d.pageCount) : '—',
+    ],
+  })),
+});
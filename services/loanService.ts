@@ -0,0 +1,114 @@
+import { AmortizationRow, Loan, LoanPaymentAllocation, Transaction, TransactionType } from "../types";
+import { hasSplits } from "./splitService";
+import { isTransfer } from "./transferService";
+
+export const INTEREST_EXPENSE = 'Interest Expense';
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const monthlyRate = (loan: Pick<Loan, 'annualRate'>) => loan.annualRate / 100 / 12;
+
+const addMonths = (date: string, months: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d.toISOString().substring(0, 10);
+};
+
+// Level payment that retires the principal over the term
+export const monthlyPayment = (principal: number, annualRate: number, termMonths: number) => {
+  if (principal <= 0 || termMonths <= 0) return 0;
+  const r = annualRate / 100 / 12;
+  if (r === 0) return round(principal / termMonths);
+  return round(principal * r / (1 - Math.pow(1 + r, -termMonths)));
+};
+
+// Interest accrues monthly on the outstanding balance; the last payment clears what is left
+const amortize = (balance: number, rate: number, payment: number, periods: number, firstDate: string): AmortizationRow[] => {
+  const rows: AmortizationRow[] = [];
+  for (let period = 1; period <= periods && balance > 0.005; period++) {
+    const interest = round(balance * rate);
+    const principal = period === periods ? balance : Math.min(round(payment - interest), balance);
+    if (principal <= 0) break;
+    balance = round(balance - principal);
+    rows.push({ period, date: addMonths(firstDate, period - 1), payment: round(interest + principal), interest, principal, balance });
+  }
+  return rows;
+};
+
+// Scheduled payments, the first falling one month after the start date
+export const amortizationSchedule = (loan: Loan): AmortizationRow[] =>
+  amortize(loan.principal, monthlyRate(loan), loan.paymentAmount, loan.termMonths, addMonths(loan.startDate, 1));
+
+export const isLoanPayment = (t: Transaction, loan: Loan) => {
+  if (t.type !== TransactionType.EXPENSE || isTransfer(t) || t.date < loan.startDate) return false;
+  if (loan.paymentCategory && t.category === loan.paymentCategory) return true;
+  const text = `${t.description} ${t.originalDescription || ''}`.toLowerCase();
+  return loan.keywords.some(k => k.trim() && text.includes(k.trim().toLowerCase()));
+};
+
+// Splits the actual payments of every loan, in date order, into interest on the running
+// balance and principal. Payments the user has already split by hand are left alone.
+export const allocateLoanPayments = (loans: Loan[], transactions: Transaction[]): Map<string, LoanPaymentAllocation> => {
+  const allocations = new Map<string, LoanPaymentAllocation>();
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+  loans.forEach(loan => {
+    let balance = loan.principal;
+    sorted.forEach(t => {
+      if (allocations.has(t.id) || hasSplits(t) || !isLoanPayment(t, loan)) return;
+      const interest = Math.min(round(balance * monthlyRate(loan)), t.amount);
+      const principal = round(t.amount - interest);
+      balance = round(balance - principal);
+      allocations.set(t.id, { loanId: loan.id, interest, principal, balance });
+    });
+  });
+  return allocations;
+};
+
+// Loan payments become two-line splits, so the journal posts interest to the P&L and
+// principal against the liability. Pass the whole ledger: each split depends on every earlier payment
+export const applyLoanSplits = (transactions: Transaction[], loans: Loan[]): Transaction[] => {
+  if (loans.length === 0) return transactions;
+  const allocations = allocateLoanPayments(loans, transactions);
+  const loansById = new Map(loans.map(l => [l.id, l]));
+  return transactions.map(t => {
+    const allocation = allocations.get(t.id);
+    if (!allocation) return t;
+    const loan = loansById.get(allocation.loanId)!;
+    return {
+      ...t,
+      splits: [
+        { id: 'loan-interest', amount: allocation.interest, category: INTEREST_EXPENSE, memo: `Interest: ${loan.name}` },
+        { id: 'loan-principal', amount: allocation.principal, category: loan.liabilityAccount, memo: `Principal: ${loan.name}` },
+      ],
+    };
+  });
+};
+
+// Outstanding balance after the payments made up to `asOf`, split into the principal due
+// within twelve months and the rest
+export const loanPosition = (loan: Loan, transactions: Transaction[], asOf?: string) => {
+  const allocations = allocateLoanPayments([loan], asOf ? transactions.filter(t => t.date <= asOf) : transactions);
+  const payments = Array.from(allocations.values());
+  const balance = payments.length ? payments[payments.length - 1].balance : loan.principal;
+  const remainingPeriods = asOf ? amortizationSchedule(loan).filter(r => r.date > asOf).length : loan.termMonths;
+  const upcoming = amortize(balance, monthlyRate(loan), loan.paymentAmount, remainingPeriods, asOf || loan.startDate).slice(0, 12);
+  const currentPortion = round(Math.min(upcoming.reduce((sum, r) => sum + r.principal, 0), Math.max(balance, 0)));
+  return {
+    balance,
+    currentPortion,
+    longTermPortion: round(balance - currentPortion),
+    paymentsMade: payments.length,
+    interestPaid: round(payments.reduce((sum, p) => sum + p.interest, 0)),
+  };
+};
+
+// Current portion per liability account, for presenting on the balance sheet
+export const currentPortionsByAccount = (loans: Loan[], transactions: Transaction[], asOf?: string): Record<string, number> => {
+  const portions: Record<string, number> = {};
+  loans.forEach(loan => {
+    if (asOf && loan.startDate > asOf) return;
+    const { currentPortion } = loanPosition(loan, transactions, asOf);
+    if (currentPortion > 0) portions[loan.liabilityAccount] = round((portions[loan.liabilityAccount] || 0) + currentPortion);
+  });
+  return portions;
+};
@@ -0,0 +1,154 @@
+import { Transaction, TransactionType, ParsedStatement } from "../types";
+
+export const isOfxFile = (file: File) => /\.(ofx|qfx)$/i.test(file.name);
+
+export const isQifFile = (file: File) => /\.qif$/i.test(file.name);
+
+// OFX 1.x is SGML (leaf tags are never closed), OFX 2.x is XML. Reading leaf values
+// up to the next '<' or line break handles both.
+const readTag = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? value : undefined;
+};
+
+const readBlocks = (text: string, tag: string): string[] => {
+  const blocks: string[] = [];
+  const re = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text)) !== null) blocks.push(match[1]);
+  return blocks;
+};
+
+// "20240105120000.000[-5:EST]" -> "2024-01-05"
+const parseOfxDate = (value?: string): string | null => {
+  const digits = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!digits) return null;
+  return `${digits[1]}-${digits[2]}-${digits[3]}`;
+};
+
+// "|| 0" turns a negated zero card balance into a plain 0
+const round2 = (n: number) => Math.round(n * 100) / 100 || 0;
+
+const parseOfxAmount = (value?: string): number | null => {
+  if (!value) return null;
+  const num = parseFloat(value.replace(',', '.').replace(/[^0-9.-]/g, ''));
+  return isNaN(num) ? null : num;
+};
+
+export const parseOfx = (text: string): ParsedStatement => {
+  if (!/<OFX>/i.test(text)) throw new Error("Not a valid OFX/QFX file.");
+
+  const cardBlock = readBlocks(text, 'CCACCTFROM')[0];
+  const accountBlock = readBlocks(text, 'BANKACCTFROM')[0] || cardBlock || '';
+  const ledgerBlock = readBlocks(text, 'LEDGERBAL')[0] || '';
+  const listBlock = readBlocks(text, 'BANKTRANLIST')[0] || '';
+  const seen = new Set<string>();
+  const transactions: Transaction[] = [];
+
+  let net = 0;
+  readBlocks(text, 'STMTTRN').forEach((block, i) => {
+    const date = parseOfxDate(readTag(block, 'DTPOSTED'));
+    const amount = parseOfxAmount(readTag(block, 'TRNAMT'));
+    if (!date || amount === null || amount === 0) return;
+
+    // Banks occasionally repeat a FITID inside one download; keep the first
+    const fitId = readTag(block, 'FITID');
+    if (fitId) {
+      if (seen.has(fitId)) return;
+      seen.add(fitId);
+    }
+
+    net += amount;
+    const name = readTag(block, 'NAME') || readTag(block, 'PAYEE') || readTag(block, 'TRNTYPE') || 'No Description';
+    const memo = readTag(block, 'MEMO');
+    transactions.push({
+      id: `ofx-${Date.now()}-${i}-${Math.random().toString(36).substring(2, 7)}`,
+      date,
+      description: name,
+      amount: Math.abs(amount),
+      type: amount > 0 ? TransactionType.INCOME : TransactionType.EXPENSE,
+      category: 'Uncategorized',
+      originalDescription: memo && memo !== name ? `${name} ${memo}` : name,
+      externalId: fitId,
+    });
+  });
+
+  // OFX only prints the ledger balance after the listed rows, so the opening balance is that
+  // balance less their net. Card balances come signed from the holder's side (negative when
+  // owed); the app keeps liabilities as the positive amount owed.
+  const ledgerBalance = parseOfxAmount(readTag(ledgerBlock, 'BALAMT'));
+  const sign = cardBlock ? -1 : 1;
+  const closingBalance = ledgerBalance === null ? undefined : round2(sign * ledgerBalance);
+  const openingBalance = ledgerBalance === null ? undefined : round2(sign * (ledgerBalance - net));
+
+  return {
+    transactions,
+    accountNumber: readTag(accountBlock, 'ACCTID'),
+    accountKind: cardBlock ? 'credit_card' : undefined,
+    ledgerBalance: closingBalance,
+    ledgerBalanceDate: parseOfxDate(readTag(ledgerBlock, 'DTASOF')) ?? undefined,
+    openingBalance,
+    closingBalance,
+    statementStart: parseOfxDate(readTag(listBlock, 'DTSTART')) ?? undefined,
+    statementEnd: parseOfxDate(readTag(listBlock, 'DTEND')) ?? undefined,
+  };
+};
+
+// QIF dates come as "1/5/2024", "01/05/24" or "1/5'24" (US month-first)
+const parseQifDate = (value: string): string | null => {
+  const parts = value.trim().replace("'", '/').split(/[/.-]/).map(p => p.trim());
+  if (parts.length < 3) return null;
+  let [month, day, year] = parts;
+  if (month.length === 4) [year, month, day] = parts;
+  if (year.length <= 2) year = `20${year.padStart(2, '0')}`;
+  if (!/^\d{4}$/.test(year)) return null;
+  const y = parseInt(year), m = parseInt(month), d = parseInt(day);
+  if (isNaN(m) || isNaN(d)) return null;
+
+  // Round-trip through a real date so 02/30 or 04/31 is rejected instead of reaching the database
+  const parsed = new Date(Date.UTC(y, m - 1, d));
+  if (parsed.getUTCFullYear() !== y || parsed.getUTCMonth() !== m - 1 || parsed.getUTCDate() !== d) return null;
+
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+};
+
+export const parseQif = (text: string): ParsedStatement => {
+  const transactions: Transaction[] = [];
+  let record: Record<string, string> = {};
+  let index = 0;
+
+  const flush = () => {
+    const date = record.D ? parseQifDate(record.D) : null;
+    const amount = parseOfxAmount((record.T || record.U || '').replace(/,/g, ''));
+    if (date && amount !== null && amount !== 0) {
+      const payee = record.P || record.M || 'No Description';
+      transactions.push({
+        id: `qif-${Date.now()}-${index}-${Math.random().toString(36).substring(2, 7)}`,
+        date,
+        description: payee,
+        amount: Math.abs(amount),
+        type: amount > 0 ? TransactionType.INCOME : TransactionType.EXPENSE,
+        category: 'Uncategorized',
+        originalDescription: record.M && record.M !== payee ? `${payee} ${record.M}` : payee,
+      });
+      index++;
+    }
+    record = {};
+  };
+
+  text.split(/\r?\n/).forEach(line => {
+    if (!line.trim() || line.startsWith('!')) return;
+    if (line.startsWith('^')) {
+      flush();
+      return;
+    }
+    const code = line[0];
+    // Split lines (S/E/$) belong to category breakdowns, not the parent record
+    if (!record[code]) record[code] = line.substring(1).trim();
+  });
+  if (Object.keys(record).length > 0) flush();
+
+  if (transactions.length === 0) throw new Error("No transactions found in QIF file.");
+  return { transactions };
+};
@@ -0,0 +1,133 @@
+import { PDFDocument } from "pdf-lib";
+import { ExtractionChunk, ExtractedStatement, ExtractedRow } from "../types";
+import { parseDocumentWithGemini, isRateLimitError } from "./geminiService";
+
+const PAGES_PER_CHUNK = 6;
+// Each chunk repeats the previous chunk's last page so rows split across a page break
+// are seen whole by at least one call
+const OVERLAP_PAGES = 1;
+const MAX_CONCURRENT_CHUNKS = 2;
+
+export const isPdfFile = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+export const getPdfPageCount = async (file: File): Promise<number> => {
+  const doc = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+  return doc.getPageCount();
+};
+
+export const needsChunking = (pageCount: number) => pageCount > PAGES_PER_CHUNK;
+
+export const planChunks = (pageCount: number): ExtractionChunk[] => {
+  const chunks: ExtractionChunk[] = [];
+  let start = 1;
+  while (start <= pageCount) {
+    const end = Math.min(start + PAGES_PER_CHUNK - 1, pageCount);
+    chunks.push({ index: chunks.length, startPage: start, endPage: end, status: 'pending' });
+    if (end === pageCount) break;
+    start = end + 1 - OVERLAP_PAGES;
+  }
+  return chunks;
+};
+
+// Copies a 1-based inclusive page range into a standalone PDF, returned as base64
+const extractPages = async (source: PDFDocument, startPage: number, endPage: number): Promise<string> => {
+  const part = await PDFDocument.create();
+  const indices = Array.from({ length: endPage - startPage + 1 }, (_, i) => startPage - 1 + i);
+  const pages = await part.copyPages(source, indices);
+  pages.forEach(p => part.addPage(p));
+  return part.saveAsBase64();
+};
+
+// Runs every chunk that is not yet completed, at most MAX_CONCURRENT_CHUNKS at a time.
+// Completed chunks keep their result, so calling this again only retries failures.
+// Aborting stops new chunks from starting and puts the interrupted ones back to pending.
+// A rate-limited chunk goes back to pending too, no further chunks start, and the error is
+// re-thrown once the running ones finish so the upload queue can back off and resume.
+export const extractChunks = async (
+  file: File,
+  chunks: ExtractionChunk[],
+  onChunkUpdate: (chunk: ExtractionChunk) => void,
+  signal?: AbortSignal
+): Promise<ExtractionChunk[]> => {
+  const source = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+  const results = [...chunks];
+  const queue = results.filter(c => c.status !== 'completed').map(c => c.index);
+  let rateLimit: unknown = null;
+
+  const worker = async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      const index = queue.shift()!;
+      const chunk = results[index];
+      const update = (next: ExtractionChunk) => {
+        results[index] = next;
+        onChunkUpdate(next);
+      };
+
+      update({ ...chunk, status: 'processing', error: undefined });
+      try {
+        const base64 = await extractPages(source, chunk.startPage, chunk.endPage);
+        const result = await parseDocumentWithGemini(file, base64, signal);
+        update({ ...chunk, status: 'completed', result, error: undefined });
+      } catch (err) {
+        if (signal?.aborted || isRateLimitError(err)) update({ ...chunk, status: 'pending' });
+        else update({ ...chunk, status: 'error', error: err instanceof Error ? err.message : 'Extraction failed' });
+        if (!signal?.aborted && isRateLimitError(err)) {
+          rateLimit = rateLimit || err;
+          queue.length = 0;
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_CHUNKS, queue.length) }, worker));
+  if (rateLimit) throw rateLimit;
+  return results;
+};
+
+const rowKey = (r: ExtractedRow) =>
+  `${r.transaction.date}|${r.transaction.amount.toFixed(2)}|${r.transaction.type}|${r.transaction.description.toLowerCase().trim()}`;
+
+// Combines chunk results into one statement. Page numbers come back relative to each
+// chunk and are shifted to document pages. A row on an overlapping page is kept only
+// from the earlier chunk; rows without a page fall back to matching on content.
+export const mergeChunks = (chunks: ExtractionChunk[]): ExtractedStatement => {
+  const ordered = [...chunks].sort((a, b) => a.startPage - b.startPage);
+  const rows: ExtractedRow[] = [];
+  let previous: { endPage: number; keys: string[] } | null = null;
+
+  ordered.forEach(chunk => {
+    const chunkRows = (chunk.result?.rows || []).map(r => ({
+      ...r,
+      page: r.page ? r.page + chunk.startPage - 1 : undefined,
+    }));
+    const overlapKeys = previous ? [...previous.keys] : [];
+
+    chunkRows.forEach(r => {
+      if (previous && r.page && r.page <= previous.endPage) return;
+      if (previous && !r.page) {
+        const i = overlapKeys.indexOf(rowKey(r));
+        if (i !== -1) {
+          overlapKeys.splice(i, 1);
+          return;
+        }
+      }
+      rows.push(r);
+    });
+
+    // Rows the next chunk could see again: those on this chunk's last page(s), or unpaged ones
+    previous = {
+      endPage: chunk.endPage,
+      keys: chunkRows.filter(r => !r.page || r.page > chunk.endPage - OVERLAP_PAGES).map(rowKey),
+    };
+  });
+
+  const withOpening = ordered.find(c => c.result?.openingBalance !== undefined);
+  const withClosing = [...ordered].reverse().find(c => c.result?.closingBalance !== undefined);
+  return {
+    rows,
+    openingBalance: withOpening?.result?.openingBalance,
+    closingBalance: withClosing?.result?.closingBalance,
+    statementStart: ordered.find(c => c.result?.statementStart)?.result?.statementStart,
+    statementEnd: [...ordered].reverse().find(c => c.result?.statementEnd)?.result?.statementEnd,
+  };
+};
@@ -0,0 +1,12 @@
+import { PeriodCloseEvent } from "../types";
+
+export const currentClosedThrough = (log: PeriodCloseEvent[]): string | null => {
+  const latest = [...log].sort((a, b) => b.at.localeCompare(a.at))[0];
+  return latest?.closedThrough ?? null;
+};
+
+export const isDateLocked = (date: string, closedThrough: string | null | undefined) =>
+  !!closedThrough && !!date && date <= closedThrough;
+
+export const lockedMessage = (closedThrough: string) =>
+  `Books are closed through ${closedThrough}. Reopen the period to change these records.`;
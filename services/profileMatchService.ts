@@ -0,0 +1,32 @@
+import { Transaction, EntityProfile } from "../types";
+
+// Links imported rows to known identities. An exact counterparty name wins; otherwise
+// the longest profile keyword found in the counterparty or description (same
+// "Longest Match Priority" as bulkApplyProfileRule).
+export const matchProfiles = (transactions: Transaction[], profiles: EntityProfile[]): Transaction[] => {
+  if (profiles.length === 0) return transactions;
+
+  const byName = new Map(profiles.map(p => [p.name.toLowerCase().trim(), p]));
+  const keywords = profiles
+    .flatMap(p => (p.keywords || []).filter(k => k.trim().length > 2).map(k => ({ keyword: k.toLowerCase(), profile: p })))
+    .sort((a, b) => b.keyword.length - a.keyword.length);
+
+  return transactions.map(t => {
+    if (t.entityId) return t;
+
+    const counterparty = (t.entityName || '').toLowerCase().trim();
+    let profile = counterparty ? byName.get(counterparty) : undefined;
+    if (!profile) {
+      const haystack = `${counterparty} ${t.description} ${t.originalDescription}`.toLowerCase();
+      profile = keywords.find(k => haystack.includes(k.keyword))?.profile;
+    }
+    if (!profile) return t;
+
+    return {
+      ...t,
+      entityId: profile.id,
+      entityName: profile.name,
+      categoryId: t.categoryId || profile.defaultCategoryId,
+    };
+  });
+};
@@ -0,0 +1,57 @@
+import { BankAccount, Transaction, TransactionType, StatementReconciliation, ProcessingStatus, SourceDocument } from "../types";
+import { isLiabilityAccount } from "./accountService";
+
+// Half a cent either way is rounding, not a missing row
+const TOLERANCE = 0.005;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Returns undefined when the statement did not print both balances, since there is
+// nothing to prove the rows against (receipts, invoices, QIF files). Card and loan statements
+// print the amount owed, which grows with charges, so the movement is flipped for them.
+export const reconcileStatement = (
+  transactions: Transaction[],
+  openingBalance?: number,
+  closingBalance?: number,
+  account?: Pick<BankAccount, 'kind'>
+): StatementReconciliation | undefined => {
+  if (typeof openingBalance !== 'number' || typeof closingBalance !== 'number') return undefined;
+
+  let totalIncome = 0;
+  let totalExpense = 0;
+  transactions.forEach(t => {
+    if (t.type === TransactionType.INCOME) totalIncome += t.amount;
+    else totalExpense += t.amount;
+  });
+
+  const movement = totalIncome - totalExpense;
+  const discrepancy = round2(closingBalance - (openingBalance + (account && isLiabilityAccount(account) ? -movement : movement)));
+  return {
+    openingBalance,
+    closingBalance,
+    totalIncome: round2(totalIncome),
+    totalExpense: round2(totalExpense),
+    discrepancy,
+    status: Math.abs(discrepancy) < TOLERANCE ? 'passed' : 'failed',
+  };
+};
+
+export const overrideReconciliation = (reconciliation: StatementReconciliation, reason: string): StatementReconciliation => ({
+  ...reconciliation,
+  overrideReason: reason,
+  overriddenAt: new Date().toISOString(),
+});
+
+// A failed check keeps the document out of the loan package until someone signs it off
+export const isUnreconciled = (item: { reconciliation?: StatementReconciliation }) =>
+  item.reconciliation?.status === 'failed' && !item.reconciliation.overrideReason;
+
+// Stored documents decide the block. Queue entries only count while they have no stored
+// document, which is always the case when no database is configured.
+export const unreconciledFileNames = (documents: SourceDocument[], queue: ProcessingStatus[]) => {
+  const stored = new Set(documents.map(d => d.id));
+  return [
+    ...documents.filter(isUnreconciled).map(d => d.fileName),
+    ...queue.filter(s => (!s.documentId || !stored.has(s.documentId)) && isUnreconciled(s)).map(s => s.fileName),
+  ];
+};
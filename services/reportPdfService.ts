@@ -0,0 +1,528 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "pdf-lib";
+import { BalanceSheetData, CashFlowData, ComparativePeriod, ComparativeSection, GeneralLedgerAccount, ProfitAndLossData, StatementLine, TrialBalanceRow } from "../types";
+import { variance } from "./comparativeService";
+
+const LETTER: [number, number] = [612, 792];
+const MARGIN = 54;
+const ROW = 15;
+const INK = rgb(0.06, 0.09, 0.16);
+const MUTED = rgb(0.58, 0.64, 0.72);
+const NEGATIVE = rgb(0.88, 0.11, 0.28);
+const RULE = rgb(0.89, 0.91, 0.94);
+
+export interface PdfStatementGroup {
+  heading: string;
+  // Shown before the lines, e.g. net income at the top of operating activities
+  lead?: StatementLine;
+  lines: StatementLine[];
+  // Subtotals under the lines; the last one closes the group
+  totals?: StatementLine[];
+  empty?: string;
+}
+
+export interface PdfTableRow {
+  cells: string[];
+  style?: 'heading' | 'total';
+}
+
+export type PdfSection =
+  | { kind: 'statement'; title: string; period: string; groups: PdfStatementGroup[]; grandTotals: StatementLine[] }
+  | { kind: 'text'; title: string; period?: string; body: string }
+  // The first column is left aligned, the rest are right aligned
+  | { kind: 'table'; title: string; period?: string; columns: string[]; rows: PdfTableRow[]; landscape?: boolean }
+  // An original file reproduced as-is; null bytes leave a placeholder page explaining why
+  | { kind: 'document'; title: string; period?: string; fileType: string; bytes: Uint8Array | null };
+
+export interface PdfCover {
+  title: string;
+  subtitle?: string;
+  details: { label: string; value: string }[];
+}
+
+export interface ReportPdfOptions {
+  businessName: string;
+  title: string;
+  sections: PdfSection[];
+  cover?: PdfCover;
+  contents?: boolean;
+}
+
+export const formatPdfMoney = (n: number) => {
+  const formatted = `$${Math.abs(n).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  return n < 0 ? `(${formatted})` : formatted;
+};
+
+// The standard fonts only encode WinAnsi, so other symbols are spelled out or dropped
+const SUBSTITUTES: Record<string, string> = { '≥': '>=', '≤': '<=', '→': '->', '−': '-', ' ': ' ' };
+const printable = (text: string) => text
+  .replace(/[≥≤→− ]/g, c => SUBSTITUTES[c])
+  .replace(/[^\x20-\x7E\xA1-\xFF–—‘’“”•…]/g, '');
+
+const wrap = (text: string, font: PDFFont, size: number, width: number) => {
+  const lines: string[] = [];
+  let current = '';
+  printable(text).split(/\s+/).filter(Boolean).forEach(word => {
+    const next = current ? `${current} ${word}` : word;
+    if (current && font.widthOfTextAtSize(next, size) > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = next;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+const clip = (text: string, font: PDFFont, size: number, width: number) => {
+  let value = printable(text);
+  if (font.widthOfTextAtSize(value, size) <= width) return value;
+  while (value.length > 1 && font.widthOfTextAtSize(`${value}…`, size) > width) value = value.slice(0, -1);
+  return `${value}…`;
+};
+
+interface DrawOptions {
+  font?: PDFFont;
+  size?: number;
+  color?: ReturnType<typeof rgb>;
+  align?: 'left' | 'right' | 'center';
+}
+
+// Lays sections out top to bottom, starting a new page whenever the next row would not fit.
+// The cover, contents page, running headers and page numbers are added once the page count is known.
+export const buildReportPdf = async ({ businessName, title, sections, cover, contents = sections.length > 1 }: ReportPdfOptions): Promise<Uint8Array> => {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`${businessName} - ${title}`);
+  doc.setAuthor(businessName);
+  doc.setCreator('Cipher Finance');
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const italic = await doc.embedFont(StandardFonts.HelveticaOblique);
+
+  // Pages copied from source documents are numbered but not stamped over
+  const pages: { page: PDFPage; title: string; stamp: boolean }[] = [];
+  const entries: { title: string; page: PDFPage }[] = [];
+  let page!: PDFPage;
+  let pageSize = LETTER;
+  let sectionTitle = '';
+  let y = 0;
+
+  const right = () => page.getWidth() - MARGIN;
+  const top = () => page.getHeight() - MARGIN - 20;
+
+  const addPage = () => {
+    page = doc.addPage(pageSize);
+    pages.push({ page, title: sectionTitle, stamp: true });
+    y = top();
+  };
+
+  // Starts a new page when `height` more points do not fit, then runs `onBreak` to repeat headings
+  const ensure = (height: number, onBreak?: () => void) => {
+    if (y - height >= MARGIN + 24) return;
+    addPage();
+    onBreak?.();
+  };
+
+  const draw = (value: string, x: number, { font = regular, size = 9, color = INK, align = 'left' }: DrawOptions = {}) => {
+    const text = printable(value);
+    const width = font.widthOfTextAtSize(text, size);
+    page.drawText(text, { x: align === 'right' ? x - width : align === 'center' ? x - width / 2 : x, y, size, font, color });
+  };
+
+  const rule = (from: number, to: number, thickness = 0.5, color = RULE, offset = 0) => {
+    page.drawLine({ start: { x: from, y: y + offset }, end: { x: to, y: y + offset }, thickness, color });
+  };
+
+  const startSection = (section: PdfSection) => {
+    sectionTitle = section.title;
+    pageSize = section.kind === 'table' && section.landscape ? [LETTER[1], LETTER[0]] : LETTER;
+    addPage();
+    entries.push({ title: section.title, page });
+    draw(section.title.toUpperCase(), MARGIN, { font: bold, size: 16 });
+    y -= 16;
+    if (section.period) {
+      draw(section.period.toUpperCase(), MARGIN, { size: 8, color: MUTED });
+      y -= 10;
+    }
+    y -= 16;
+  };
+
+  const amountRow = (line: StatementLine, { font = regular, size = 9, indent = 12 }: DrawOptions & { indent?: number } = {}) => {
+    draw(clip(line.name, font, size, right() - MARGIN - indent - 110), MARGIN + indent, { font, size });
+    draw(formatPdfMoney(line.amount), right(), { font, size, align: 'right', color: line.amount < 0 ? NEGATIVE : INK });
+    y -= ROW;
+  };
+
+  const writeStatement = (section: Extract<PdfSection, { kind: 'statement' }>) => {
+    const heading = (text: string) => {
+      draw(text.toUpperCase(), MARGIN, { font: bold, size: 9 });
+      y -= 5;
+      rule(MARGIN, right(), 1.5, INK);
+      y -= 14;
+    };
+
+    section.groups.forEach(group => {
+      const onBreak = () => heading(`${group.heading} (continued)`);
+      ensure(ROW * 3);
+      heading(group.heading);
+      if (group.lead) {
+        ensure(ROW, onBreak);
+        amountRow(group.lead, { font: italic });
+      }
+      group.lines.forEach(line => {
+        ensure(ROW, onBreak);
+        amountRow(line);
+      });
+      if (!group.lead && group.lines.length === 0 && group.empty) {
+        draw(group.empty, MARGIN + 12, { font: italic, size: 8, color: MUTED });
+        y -= ROW;
+      }
+      (group.totals || []).forEach(total => {
+        ensure(ROW + 4, onBreak);
+        y -= 4;
+        rule(right() - 100, right(), 0.75, INK, ROW - 3);
+        amountRow({ ...total, name: total.name.toUpperCase() }, { font: bold, indent: 0 });
+      });
+      y -= 14;
+    });
+
+    if (section.grandTotals.length === 0) return;
+    ensure(ROW * section.grandTotals.length + 24);
+    y -= 6;
+    rule(MARGIN, right(), 3, INK, ROW);
+    y -= 4;
+    section.grandTotals.forEach((total, i) => {
+      const isLast = i === section.grandTotals.length - 1;
+      amountRow({ ...total, name: total.name.toUpperCase() }, { font: isLast ? bold : regular, size: isLast ? 10.5 : 9, indent: 0 });
+      if (isLast) {
+        rule(right() - 100, right(), 0.75, INK, ROW - 4);
+        rule(right() - 100, right(), 0.75, INK, ROW - 6);
+      }
+    });
+  };
+
+  const writeText = (section: Extract<PdfSection, { kind: 'text' }>) => {
+    const paragraph = (text: string, font: PDFFont, size: number, indent = 0, bullet = false) => {
+      wrap(text, font, size, right() - MARGIN - indent).forEach((line, i) => {
+        ensure(size + 5);
+        if (bullet && i === 0) draw('•', MARGIN + indent - 10, { font, size });
+        draw(line, MARGIN + indent, { font, size });
+        y -= size + 5;
+      });
+    };
+
+    // Model output is light markdown: headings, bullets and bold markers
+    section.body.split('\n').forEach(raw => {
+      const line = raw.replace(/\*\*/g, '').trim();
+      if (!line) {
+        y -= 6;
+        return;
+      }
+      const bullet = line.match(/^[-*•]\s+(.*)$/);
+      if (/^#+\s/.test(line)) {
+        y -= 4;
+        ensure(36);
+        paragraph(line.replace(/^#+\s*/, ''), bold, 11);
+        y -= 2;
+      } else if (bullet) {
+        paragraph(bullet[1], regular, 10, 14, true);
+      } else {
+        paragraph(line, regular, 10);
+      }
+    });
+  };
+
+  const writeTable = (section: Extract<PdfSection, { kind: 'table' }>) => {
+    const count = section.columns.length;
+    const size = count > 8 ? 7 : 8.5;
+    const numericWidth = count > 1 ? Math.min(96, (right() - MARGIN) / (count + 1)) : 0;
+    const firstWidth = right() - MARGIN - numericWidth * (count - 1);
+    const columnRight = (i: number) => right() - numericWidth * (count - 1 - i);
+
+    const cells = (values: string[], font: PDFFont, color = INK) => {
+      values.forEach((value, i) => {
+        if (i === 0) draw(clip(value, font, size, firstWidth - 6), MARGIN, { font, size, color });
+        else draw(clip(value, font, size, numericWidth - 6), columnRight(i), { font, size, color, align: 'right' });
+      });
+    };
+
+    const header = () => {
+      cells(section.columns.map(c => c.toUpperCase()), bold);
+      y -= 5;
+      rule(MARGIN, right(), 1.5, INK);
+      y -= 13;
+    };
+
+    ensure(ROW * 3);
+    header();
+    section.rows.forEach(row => {
+      ensure(ROW + (row.style === 'heading' ? 8 : 0), header);
+      if (row.style === 'heading') {
+        y -= 6;
+        cells(row.cells, italic, MUTED);
+      } else if (row.style === 'total') {
+        rule(MARGIN, right(), 0.75, INK, ROW - 3);
+        cells(row.cells, bold);
+      } else {
+        cells(row.cells, regular);
+        rule(MARGIN, right(), 0.25, RULE, -4);
+      }
+      y -= ROW;
+    });
+    if (section.rows.length === 0) {
+      draw('No records', MARGIN, { font: italic, size: 8, color: MUTED });
+      y -= ROW;
+    }
+  };
+
+  const placeholder = (section: Extract<PdfSection, { kind: 'document' }>, reason: string) => {
+    startSection(section);
+    draw(reason, MARGIN, { font: italic, size: 10, color: MUTED });
+  };
+
+  const writeDocument = async (section: Extract<PdfSection, { kind: 'document' }>) => {
+    if (!section.bytes) return placeholder(section, 'The original file is not available in storage.');
+    try {
+      if (section.fileType === 'application/pdf') {
+        const source = await PDFDocument.load(section.bytes, { ignoreEncryption: true });
+        const copied = await doc.copyPages(source, source.getPageIndices());
+        copied.forEach((p, i) => {
+          doc.addPage(p);
+          pages.push({ page: p, title: section.title, stamp: false });
+          if (i === 0) entries.push({ title: section.title, page: p });
+        });
+        return;
+      }
+      if (section.fileType === 'image/png' || section.fileType === 'image/jpeg') {
+        const image = section.fileType === 'image/png' ? await doc.embedPng(section.bytes) : await doc.embedJpg(section.bytes);
+        startSection(section);
+        const box = { width: right() - MARGIN, height: y - MARGIN - 24 };
+        const scaled = image.scaleToFit(box.width, box.height);
+        page.drawImage(image, { x: MARGIN, y: y - scaled.height, width: scaled.width, height: scaled.height });
+        return;
+      }
+      placeholder(section, `${section.fileType || 'This file type'} cannot be embedded; the original is kept with the uploads.`);
+    } catch (e) {
+      console.error("Document embed failed", e);
+      placeholder(section, 'The original file could not be read.');
+    }
+  };
+
+  for (const section of sections) {
+    if (section.kind === 'document') {
+      await writeDocument(section);
+      continue;
+    }
+    startSection(section);
+    if (section.kind === 'statement') writeStatement(section);
+    else if (section.kind === 'text') writeText(section);
+    else writeTable(section);
+  }
+
+  const generatedOn = new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  if (cover) {
+    page = doc.insertPage(0, LETTER);
+    pages.unshift({ page, title: '', stamp: false });
+    y = page.getHeight() * 0.62;
+    draw(businessName.toUpperCase(), MARGIN, { font: bold, size: 26 });
+    y -= 30;
+    draw(cover.title.toUpperCase(), MARGIN, { font: bold, size: 12, color: MUTED });
+    y -= 18;
+    if (cover.subtitle) {
+      draw(cover.subtitle, MARGIN, { size: 10, color: MUTED });
+      y -= 18;
+    }
+    y -= 10;
+    rule(MARGIN, right(), 3, INK);
+    y -= 30;
+    cover.details.forEach(detail => {
+      draw(detail.label.toUpperCase(), MARGIN, { font: bold, size: 8, color: MUTED });
+      wrap(detail.value, regular, 10, right() - MARGIN - 150).forEach(line => {
+        draw(line, MARGIN + 150, { size: 10 });
+        y -= 14;
+      });
+      y -= 6;
+    });
+    y = MARGIN;
+    draw(`Prepared ${generatedOn}`, MARGIN, { size: 8, color: MUTED });
+  }
+
+  if (contents) {
+    page = doc.insertPage(cover ? 1 : 0, LETTER);
+    pages.splice(cover ? 1 : 0, 0, { page, title: 'Contents', stamp: true });
+    y = top();
+    draw('CONTENTS', MARGIN, { font: bold, size: 16 });
+    y -= 36;
+    entries.forEach(entry => {
+      const number = String(pages.findIndex(p => p.page === entry.page) + 1);
+      const label = clip(entry.title, regular, 10, right() - MARGIN - 60);
+      draw(label, MARGIN, { size: 10 });
+      draw(number, right(), { size: 10, align: 'right' });
+      const from = MARGIN + regular.widthOfTextAtSize(label, 10) + 6;
+      const to = right() - regular.widthOfTextAtSize(number, 10) - 6;
+      page.drawLine({ start: { x: from, y: y + 2 }, end: { x: to, y: y + 2 }, thickness: 0.5, color: MUTED, dashArray: [1, 3] });
+      y -= 22;
+    });
+  }
+
+  pages.forEach((p, i) => {
+    if (!p.stamp) return;
+    page = p.page;
+    y = page.getHeight() - 36;
+    draw(businessName.toUpperCase(), MARGIN, { font: bold, size: 7.5, color: MUTED });
+    draw(p.title.toUpperCase(), right(), { size: 7.5, color: MUTED, align: 'right' });
+    rule(MARGIN, right(), 0.5, RULE, -6);
+    y = 30;
+    draw(`Prepared ${generatedOn}`, MARGIN, { size: 7.5, color: MUTED });
+    draw(`Page ${i + 1} of ${pages.length}`, right(), { size: 7.5, color: MUTED, align: 'right' });
+  });
+
+  return doc.save();
+};
+
+export const pdfFileName = (businessName: string, suffix: string) =>
+  `${businessName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_${suffix}.pdf`;
+
+export const downloadPdf = (bytes: Uint8Array, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const profitAndLossSection = (pnl: ProfitAndLossData, period: string): PdfSection => ({
+  kind: 'statement',
+  title: 'Profit & Loss Statement',
+  period,
+  groups: [
+    { heading: 'I. Operating Revenue', lines: pnl.income, totals: [{ name: 'Total Operating Revenue', amount: pnl.totalIncome }], empty: 'No revenue recorded' },
+    { heading: 'II. Operating Expenses', lines: pnl.expenses, totals: [{ name: 'Total Operating Expenses', amount: pnl.totalExpense }], empty: 'No expenses recorded' },
+  ],
+  grandTotals: [{ name: 'Net Operating Income', amount: pnl.netProfit }],
+});
+
+export const balanceSheetSection = (bs: BalanceSheetData, period: string): PdfSection => {
+  const sum = (lines: StatementLine[]) => lines.reduce((s, l) => s + l.amount, 0);
+  return {
+    kind: 'statement',
+    title: 'Consolidated Balance Sheet',
+    period,
+    groups: [
+      { heading: 'Current Assets', lines: bs.currentAssets, totals: [{ name: 'Total Current Assets', amount: bs.totalCurrentAssets }] },
+      {
+        heading: 'Fixed Assets',
+        lines: bs.fixedAssets.map(l => l.amount < 0 ? { ...l, name: `Less: ${l.name}` } : l),
+        totals: [{ name: 'Total Fixed Assets', amount: bs.totalFixedAssets }, { name: 'Total Assets', amount: bs.totalAssets }],
+        empty: 'No fixed assets recorded',
+      },
+      { heading: 'Current Liabilities', lines: bs.currentLiabilities, totals: [{ name: 'Total Current Liabilities', amount: sum(bs.currentLiabilities) }], empty: 'No current liabilities' },
+      {
+        heading: 'Long-Term Liabilities',
+        lines: bs.longTermLiabilities,
+        totals: [{ name: 'Total Long-Term Liabilities', amount: sum(bs.longTermLiabilities) }, { name: 'Total Liabilities', amount: bs.totalLiabilities }],
+        empty: 'No long-term liabilities',
+      },
+      {
+        heading: 'Equity',
+        lines: [...bs.equityList, { name: 'Retained Earnings (P&L)', amount: bs.retainedEarnings }],
+        totals: [{ name: 'Total Equity', amount: bs.totalLiabAndEquity - bs.totalLiabilities }],
+      },
+    ],
+    grandTotals: [{ name: 'Total Liabilities & Equity', amount: bs.totalLiabAndEquity }],
+  };
+};
+
+export const cashFlowSection = (cf: CashFlowData, period: string): PdfSection => {
+  const lines = (items: CashFlowData['operating']) => items.map(l => ({ name: l.amount < 0 ? `(${l.account})` : l.account, amount: l.amount }));
+  return {
+    kind: 'statement',
+    title: 'Statement of Cash Flows',
+    period,
+    groups: [
+      { heading: 'I. Operating Activities', lead: { name: 'Net Income', amount: cf.netIncome }, lines: lines(cf.operating), totals: [{ name: 'Net Cash from Operating Activities', amount: cf.netOperating }] },
+      { heading: 'II. Investing Activities', lines: lines(cf.investing), totals: [{ name: 'Net Cash from Investing Activities', amount: cf.netInvesting }], empty: 'No fixed asset activity' },
+      { heading: 'III. Financing Activities', lines: lines(cf.financing), totals: [{ name: 'Net Cash from Financing Activities', amount: cf.netFinancing }], empty: 'No loan or equity activity' },
+    ],
+    grandTotals: [
+      { name: 'Net Change in Cash', amount: cf.netChange },
+      { name: 'Cash at Beginning of Period', amount: cf.beginningCash },
+      { name: 'Cash at End of Period', amount: cf.endingCash },
+    ],
+  };
+};
+
+export const narrativeSection = (narrative: string): PdfSection => ({ kind: 'text', title: 'AI Credit Memo', body: narrative });
+
+const amountCell = (n: number) => n ? formatPdfMoney(n) : '—';
+
+export const trialBalanceSection = (rows: TrialBalanceRow[], period: string): PdfSection => ({
+  kind: 'table',
+  title: 'Trial Balance',
+  period,
+  columns: ['Account', 'Debit', 'Credit'],
+  rows: [
+    ...rows.map(r => ({ cells: [r.account, amountCell(r.debit), amountCell(r.credit)] })),
+    {
+      cells: ['Totals', formatPdfMoney(rows.reduce((s, r) => s + r.debit, 0)), formatPdfMoney(rows.reduce((s, r) => s + r.credit, 0))],
+      style: 'total',
+    },
+  ],
+});
+
+export const generalLedgerSection = (ledger: GeneralLedgerAccount[], period: string): PdfSection => ({
+  kind: 'table',
+  title: 'General Ledger',
+  period,
+  columns: ['Date / Description', 'Debit', 'Credit', 'Balance'],
+  rows: ledger.flatMap((account): PdfTableRow[] => [
+    { cells: [account.account, '', '', ''], style: 'heading' },
+    { cells: ['Opening Balance', '', '', formatPdfMoney(account.openingBalance)] },
+    ...account.postings.map(p => ({ cells: [`${p.date}  ${p.memo || ''}`, amountCell(p.debit), amountCell(p.credit), formatPdfMoney(p.balance)] })),
+    { cells: ['Closing Balance', '', '', formatPdfMoney(account.closingBalance)], style: 'total' },
+  ]),
+});
+
+export interface ComparativePdfOptions {
+  title: string;
+  period: string;
+  periods: ComparativePeriod[];
+  sections: ComparativeSection[];
+  netLabel: string;
+  net: number[];
+  showTotal?: boolean;
+  showVariance?: boolean;
+}
+
+export const comparativeSection = ({ title, period, periods, sections, netLabel, net, showTotal, showVariance }: ComparativePdfOptions): PdfSection => {
+  const whole = (n: number) => {
+    const formatted = Math.round(Math.abs(n)).toLocaleString('en-US');
+    return n < 0 ? `(${formatted})` : formatted;
+  };
+  const cells = (name: string, amounts: number[]) => {
+    const { amount, percent } = variance(amounts);
+    return [
+      name,
+      ...amounts.map(whole),
+      ...(showTotal ? [whole(amounts.reduce((s, a) => s + a, 0))] : []),
+      ...(showVariance ? [whole(amount), percent === null ? '—' : `${(percent * 100).toFixed(1)}%`] : []),
+    ];
+  };
+  return {
+    kind: 'table',
+    title,
+    period,
+    landscape: periods.length > 4,
+    columns: ['Account', ...periods.map(p => p.label), ...(showTotal ? ['Total'] : []), ...(showVariance ? ['$ Var', '% Var'] : [])],
+    rows: [
+      ...sections.flatMap((section): PdfTableRow[] => [
+        { cells: [section.title], style: 'heading' },
+        ...section.lines.map(line => ({ cells: cells(line.account, line.amounts) })),
+        { cells: cells(`Total ${section.title}`, section.totals), style: 'total' },
+      ]),
+      { cells: cells(netLabel, net), style: 'total' },
+    ],
+  };
+};
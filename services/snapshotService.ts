@@ -0,0 +1,68 @@
+import { BalanceSheetData, ProfitAndLossData, ReportSnapshot, SnapshotDiffRow, SnapshotLine } from "../types";
+
+const TOLERANCE = 0.005;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Both statements flattened into one list, so a snapshot can be compared line by line
+export const snapshotFigures = (pnl: ProfitAndLossData, bs: BalanceSheetData): SnapshotLine[] => {
+  const lines: SnapshotLine[] = [];
+  const add = (section: string, account: string, amount: number) => lines.push({ section, account, amount: round(amount) });
+
+  pnl.income.forEach(l => add('Revenue', l.name, l.amount));
+  add('Revenue', 'Total Operating Revenue', pnl.totalIncome);
+  pnl.expenses.forEach(l => add('Expenses', l.name, l.amount));
+  add('Expenses', 'Total Operating Expenses', pnl.totalExpense);
+  add('Net Income', 'Net Operating Income', pnl.netProfit);
+
+  bs.currentAssets.forEach(l => add('Current Assets', l.name, l.amount));
+  bs.fixedAssets.forEach(l => add('Fixed Assets', l.name, l.amount));
+  add('Assets', 'Total Assets', bs.totalAssets);
+  bs.currentLiabilities.forEach(l => add('Current Liabilities', l.name, l.amount));
+  bs.longTermLiabilities.forEach(l => add('Long-Term Liabilities', l.name, l.amount));
+  add('Liabilities', 'Total Liabilities', bs.totalLiabilities);
+  bs.equityList.forEach(l => add('Equity', l.name, l.amount));
+  add('Equity', 'Retained Earnings', bs.retainedEarnings);
+  add('Equity', 'Total Liabilities & Equity', bs.totalLiabAndEquity);
+  return lines;
+};
+
+// Object keys sorted at every level so the same content always serializes the same way
+const canonical = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const hashSnapshot = async (content: Omit<ReportSnapshot, 'id' | 'hash'>): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical(content)));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const createSnapshot = async (content: Omit<ReportSnapshot, 'id' | 'hash' | 'createdAt'>): Promise<ReportSnapshot> => {
+  const stamped = { ...content, createdAt: new Date().toISOString() };
+  return { ...stamped, id: `snap-${Date.now()}`, hash: await hashSnapshot(stamped) };
+};
+
+// False when the stored content no longer matches the hash taken at finalization
+export const verifySnapshot = async ({ id, hash, ...content }: ReportSnapshot) => (await hashSnapshot(content)) === hash;
+
+// Every line in either list, in snapshot order with lines that only exist live at the end
+export const diffSnapshot = (frozen: SnapshotLine[], live: SnapshotLine[]): SnapshotDiffRow[] => {
+  const key = (l: SnapshotLine) => `${l.section}|${l.account}`;
+  const liveByKey = new Map(live.map(l => [key(l), l]));
+  const rows: SnapshotDiffRow[] = frozen.map(l => {
+    const current = liveByKey.get(key(l));
+    liveByKey.delete(key(l));
+    return { section: l.section, account: l.account, snapshot: l.amount, live: current?.amount ?? null, change: round((current?.amount ?? 0) - l.amount) };
+  });
+  liveByKey.forEach(l => rows.push({ section: l.section, account: l.account, snapshot: null, live: l.amount, change: l.amount }));
+  return rows;
+};
+
+export const hasChanged = (row: SnapshotDiffRow) => row.snapshot === null || row.live === null || Math.abs(row.change) >= TOLERANCE;
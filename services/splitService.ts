@@ -0,0 +1,26 @@
+import { Transaction, TransactionSplit } from "../types";
+
+const SPLIT_TOLERANCE = 0.005;
+
+export const hasSplits = (t: Transaction) => !!t.splits && t.splits.length > 0;
+
+export const splitRemainder = (t: Transaction, splits: TransactionSplit[]) =>
+  Math.round((t.amount - splits.reduce((sum, s) => sum + (s.amount || 0), 0)) * 100) / 100;
+
+export const isBalancedSplit = (t: Transaction, splits: TransactionSplit[]) =>
+  splits.length > 0 && Math.abs(splitRemainder(t, splits)) < SPLIT_TOLERANCE;
+
+// Replaces each split row with one row per line so reports can bucket by category and
+// entity as usual. Lines inherit the parent's date, type, account and transfer link.
+export const expandSplits = (transactions: Transaction[]): Transaction[] =>
+  transactions.flatMap(t => !hasSplits(t) ? [t] : t.splits!.map(s => ({
+    ...t,
+    id: `${t.id}#${s.id}`,
+    amount: s.amount,
+    category: s.category,
+    categoryId: s.categoryId,
+    entityId: s.entityId || t.entityId,
+    entityName: s.entityId ? s.entityName : t.entityName,
+    description: s.memo || t.description,
+    splits: undefined,
+  })));
@@ -0,0 +1,76 @@
+import { AccountType, BalanceSheetData, BankAccount, JournalEntry, ProfitAndLossData, StatementLine, TrialBalanceRow } from "../types";
+import { accountLabel } from "./accountService";
+import { ACCUMULATED_DEPRECIATION } from "./depreciationService";
+import { CASH_ACCOUNT, TRANSFER_CLEARING, buildTrialBalance, netIncome, normalBalance } from "./journalService";
+
+const sum = (lines: StatementLine[]) => lines.reduce((s, l) => s + l.amount, 0);
+
+// Revenue in order of first use, expenses largest first
+export const profitAndLoss = (entries: JournalEntry[]): ProfitAndLossData => {
+  const rows = buildTrialBalance(entries);
+  const linesOf = (type: AccountType) => rows.filter(r => r.accountType === type).map(r => ({ name: r.account, amount: normalBalance(r) }));
+  const income = linesOf(AccountType.INCOME);
+  const expenses = linesOf(AccountType.EXPENSE).sort((a, b) => b.amount - a.amount);
+  const totalIncome = sum(income);
+  const totalExpense = sum(expenses);
+  return { income, expenses, totalIncome, totalExpense, netProfit: totalIncome - totalExpense };
+};
+
+export interface BalanceSheetOptions {
+  accounts?: BankAccount[];
+  overrides?: Record<string, number>;
+  // Loan principal due within twelve months, by liability account
+  currentPortions?: Record<string, number>;
+}
+
+export const balanceSheet = (entries: JournalEntry[], { accounts = [], overrides = {}, currentPortions = {} }: BalanceSheetOptions = {}): BalanceSheetData => {
+  const rows = buildTrialBalance(entries);
+
+  const withOverride = (name: string, amount: number) => overrides[name] !== undefined ? overrides[name] : amount;
+  const line = (row: TrialBalanceRow) => ({ name: row.account, amount: withOverride(row.account, normalBalance(row)) });
+  const ofType = (...types: AccountType[]) => rows.filter(r => types.includes(r.accountType));
+
+  // Bank and cash lines lead the current assets; an empty cash line still shows before any bank account exists
+  const cashNames = new Set([CASH_ACCOUNT, ...accounts.map(accountLabel)]);
+  const currentAssets = ofType(AccountType.CURRENT_ASSET)
+    .filter(r => r.account !== TRANSFER_CLEARING || normalBalance(r) !== 0)
+    .sort((a, b) => Number(cashNames.has(b.account)) - Number(cashNames.has(a.account)))
+    .map(line);
+  if (accounts.length === 0 && !currentAssets.some(a => a.name === CASH_ACCOUNT)) {
+    currentAssets.unshift({ name: CASH_ACCOUNT, amount: withOverride(CASH_ACCOUNT, 0) });
+  }
+
+  // Accumulated depreciation follows the cost lines it reduces
+  const fixedAssets = ofType(AccountType.FIXED_ASSET, AccountType.ASSET)
+    .sort((a, b) => Number(a.account === ACCUMULATED_DEPRECIATION) - Number(b.account === ACCUMULATED_DEPRECIATION))
+    .map(line);
+  const currentLiabilities = ofType(AccountType.CURRENT_LIABILITY).map(line);
+  const longTermLiabilities = ofType(AccountType.LONG_TERM_LIAB, AccountType.LIABILITY).map(line).map(l => {
+    const current = Math.min(currentPortions[l.name] || 0, Math.max(l.amount, 0));
+    if (current > 0) currentLiabilities.push({ name: `Current Portion of ${l.name}`, amount: current });
+    return { ...l, amount: l.amount - current };
+  });
+  const equityList = ofType(AccountType.EQUITY).map(line);
+
+  const totalCurrentAssets = sum(currentAssets);
+  const totalFixedAssets = sum(fixedAssets);
+
+  // Income and expense accounts close into retained earnings
+  const retainedEarnings = netIncome(rows);
+  const totalLiabilities = sum(currentLiabilities) + sum(longTermLiabilities);
+  const totalEquity = retainedEarnings + sum(equityList);
+
+  return {
+    currentAssets,
+    fixedAssets,
+    currentLiabilities,
+    longTermLiabilities,
+    equityList,
+    totalCurrentAssets,
+    totalFixedAssets,
+    totalAssets: totalCurrentAssets + totalFixedAssets,
+    totalLiabilities,
+    retainedEarnings,
+    totalLiabAndEquity: totalLiabilities + totalEquity,
+  };
+};
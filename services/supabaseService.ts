@@ -1,6 +1,8 @@
 
 import { createClient } from '@supabase/supabase-js';
-import { Transaction, CategorizationRule, EntityProfile, TransactionType, TransactionFilter, Category } from '../types';
+import { Transaction, CategorizationRule, EntityProfile, TransactionType, TransactionFilter, Category, SourceDocument, BankAccount, UNASSIGNED_ACCOUNT, TransferStatus, TransactionSplit, JournalEntry, JournalAuditEvent, AccountType, FixedAsset, Loan, PeriodCloseEvent, ReportSnapshot, StatementReconciliation } from '../types';
+import { isDateLocked, lockedMessage } from './periodCloseService';
+import { reversalDate } from './journalService';
 
 const SUPABASE_URL = () => localStorage.getItem('cf_supabase_url') || '';
 const SUPABASE_ANON_KEY = () => localStorage.getItem('cf_supabase_key') || '';
@@ -68,6 +70,16 @@ async function resolveIds(table: string, names: string[], defaultValues: any = {
   return nameToId;
 }
 
+const mapSplit = (s: any): TransactionSplit => ({
+  id: s.id,
+  amount: parseFloat(s.amount || 0),
+  category: safeExtract(s.categories, 'name') || 'Uncategorized',
+  categoryId: s.category_id || undefined,
+  entityId: s.profile_id || undefined,
+  entityName: safeExtract(s.profiles, 'name') || undefined,
+  memo: s.memo || undefined
+});
+
 export const getTransactions = async (filters?: TransactionFilter): Promise<Transaction[]> => {
   const client = getSupabaseClient();
   if (!client) return [];
@@ -81,9 +93,10 @@ export const getTransactions = async (filters?: TransactionFilter): Promise<Tran
     // IMPORTANT: When filtering by a related table (category), we MUST use !inner join.
     // We try to select category name via join, but handle failures gracefully if possible.
     const isCategoryFilter = filters?.category && filters.category !== '';
+    const splitsStr = 'transaction_splits(id, amount, memo, category_id, profile_id, categories(name), profiles(name))';
     const selectStr = isCategoryFilter 
-        ? '*, categories!inner(id, name), profiles(id, name)' 
-        : '*, categories(id, name), profiles(id, name)';
+        ? `*, categories!inner(id, name), profiles(id, name), ${splitsStr}` 
+        : `*, categories(id, name), profiles(id, name), ${splitsStr}`;
 
     let query = client
       .from('transactions')
@@ -99,6 +112,8 @@ export const getTransactions = async (filters?: TransactionFilter): Promise<Tran
         query = query.eq('categories.name', filters.category);
       }
       
+      if (filters.accountId === UNASSIGNED_ACCOUNT) query = query.is('account_id', null);
+      else if (filters.accountId) query = query.eq('account_id', filters.accountId);
       if (filters.search?.trim()) query = query.ilike('description', `%${filters.search.trim()}%`);
       if (filters.minAmount !== '') query = query.gte('amount', parseFloat(filters.minAmount));
       if (filters.maxAmount !== '') query = query.lte('amount', parseFloat(filters.maxAmount));
@@ -129,8 +144,15 @@ export const getTransactions = async (filters?: TransactionFilter): Promise<Tran
     categoryId: t.category_id,
     originalDescription: String(t.original_description || t.description || ''),
     documentId: t.document_id,
+    accountId: t.account_id || undefined,
+    externalId: t.external_id || undefined,
+    valueDate: t.value_date || undefined,
+    transferId: t.transfer_id || undefined,
+    transferStatus: t.transfer_status || undefined,
+    splits: t.transaction_splits?.length ? t.transaction_splits.map(mapSplit) : undefined,
     entityId: t.profile_id || undefined,
-    entityName: safeExtract(t.profiles, 'name') || undefined
+    entityName: safeExtract(t.profiles, 'name') || t.counterparty || undefined,
+    counterparty: t.counterparty || undefined
   }));
 };
 
@@ -141,9 +163,68 @@ export const getTransactionsTotalInDb = async (): Promise<number> => {
   return error ? 0 : (count || 0);
 };
 
+const mapPeriodCloseEvent = (e: any): PeriodCloseEvent => ({
+  id: e.id,
+  action: e.action,
+  closedThrough: e.closed_through || null,
+  reason: e.reason || undefined,
+  at: e.created_at
+});
+
+export const getPeriodCloseLog = async (): Promise<PeriodCloseEvent[]> => {
+  const client = getSupabaseClient();
+  if (!client) return [];
+  const { data, error } = await client.from('period_close_log').select('*').order('created_at', { ascending: false });
+  if (error) {
+    console.error("Period Close Fetch Error:", error);
+    return [];
+  }
+  return (data || []).map(mapPeriodCloseEvent);
+};
+
+export const recordPeriodClose = async (event: Omit<PeriodCloseEvent, 'id' | 'at'>): Promise<PeriodCloseEvent | null> => {
+  const client = getSupabaseClient();
+  if (!client) return null;
+  const { data, error } = await client.from('period_close_log').insert({
+    action: event.action,
+    closed_through: event.closedThrough,
+    reason: event.reason || null
+  }).select('*').single();
+  if (error) throw error;
+  return mapPeriodCloseEvent(data);
+};
+
+// Read from the database on every write so a close made in another session still applies
+const getClosedThrough = async (client: any): Promise<string | null> => {
+  const { data, error } = await client.from('period_close_log').select('closed_through').order('created_at', { ascending: false }).limit(1);
+  if (error) throw error;
+  return data?.[0]?.closed_through || null;
+};
+
+const assertDatesOpen = async (client: any, dates: string[]) => {
+  const closedThrough = await getClosedThrough(client);
+  if (closedThrough && dates.some(d => isDateLocked(d, closedThrough))) throw new Error(lockedMessage(closedThrough));
+};
+
+// Checks the stored dates, so moving a row out of a closed period is blocked too
+const assertRowsOpen = async (client: any, table: 'transactions' | 'journal_entries' | 'fixed_assets' | 'loans', ids: string[], dateColumn = 'date') => {
+  if (ids.length === 0) return;
+  const closedThrough = await getClosedThrough(client);
+  if (!closedThrough) return;
+  const { data, error } = await client.from(table).select('id').in('id', ids).lte(dateColumn, closedThrough).limit(1);
+  if (error) throw error;
+  if (data?.length) throw new Error(lockedMessage(closedThrough));
+};
+
+// Rows created client-side before their first save carry a temporary id prefix
+const TEMP_ID_PREFIXES = ['ai-', 'doc-', 'csv-', 'ofx-', 'qif-', 'camt-', 'mt940-'];
+const isTempId = (id: string) => TEMP_ID_PREFIXES.some(prefix => id.startsWith(prefix));
+
 export const upsertTransactions = async (transactions: Transaction[]) => {
   const client = getSupabaseClient();
   if (!client) return;
+  await assertDatesOpen(client, transactions.map(t => t.date));
+  await assertRowsOpen(client, 'transactions', transactions.filter(t => t.id && !isTempId(t.id)).map(t => t.id));
 
   const categoryMap = await resolveIds('categories', transactions.map(t => t.category || 'Uncategorized'));
   
@@ -155,10 +236,17 @@ export const upsertTransactions = async (transactions: Transaction[]) => {
       type: t.type.toLowerCase(), 
       category_id: t.categoryId || categoryMap[t.category || 'Uncategorized'],
       profile_id: t.entityId || null,
+      // Counterparty named by the bank (camt.053, MT940), kept even when no profile matches
+      counterparty: t.counterparty || null,
       original_description: t.originalDescription || t.description,
-      document_id: t.documentId
+      document_id: t.documentId,
+      account_id: t.accountId || null,
+      transfer_id: t.transferId || null,
+      transfer_status: t.transferStatus || null
     };
-    if (t.id && !t.id.startsWith('ai-') && !t.id.startsWith('doc-')) row.id = t.id;
+    if (t.externalId) row.external_id = t.externalId;
+    if (t.valueDate) row.value_date = t.valueDate;
+    if (t.id && !isTempId(t.id)) row.id = t.id;
     return row;
   });
 
@@ -166,9 +254,68 @@ export const upsertTransactions = async (transactions: Transaction[]) => {
   if (error) throw error;
 };
 
+// Bank references (OFX FITIDs) are only unique within one account, so the lookup is scoped to it.
+// Rows with no account are compared with other unassigned rows.
+export const getExistingExternalIds = async (externalIds: string[], accountId?: string): Promise<Set<string>> => {
+  const client = getSupabaseClient();
+  const found = new Set<string>();
+  if (!client || externalIds.length === 0) return found;
+
+  const chunkSize = 500;
+  for (let i = 0; i < externalIds.length; i += chunkSize) {
+    const chunk = externalIds.slice(i, i + chunkSize);
+    let query = client.from('transactions').select('external_id').in('external_id', chunk);
+    query = accountId ? query.eq('account_id', accountId) : query.is('account_id', null);
+    const { data, error } = await query;
+    if (error) throw error;
+    data?.forEach((row: any) => found.add(row.external_id));
+  }
+  return found;
+};
+
+// Replaces all split lines of a transaction; an empty list removes the split
+export const saveSplits = async (transactionId: string, splits: TransactionSplit[]) => {
+  const client = getSupabaseClient();
+  if (!client) return;
+  await assertRowsOpen(client, 'transactions', [transactionId]);
+
+  const { error: clearError } = await client.from('transaction_splits').delete().eq('transaction_id', transactionId);
+  if (clearError) throw clearError;
+  if (splits.length === 0) return;
+
+  const categoryMap = await resolveIds('categories', splits.filter(s => !s.categoryId).map(s => s.category || 'Uncategorized'));
+  const { error } = await client.from('transaction_splits').insert(splits.map(s => ({
+    transaction_id: transactionId,
+    amount: s.amount,
+    category_id: s.categoryId || categoryMap[s.category || 'Uncategorized'],
+    profile_id: s.entityId || null,
+    memo: s.memo || null
+  })));
+  if (error) throw error;
+};
+
+// Sets the transfer status on both legs of a pair; 'rejected' also drops the link
+export const updateTransferStatus = async (ids: string[], status: TransferStatus) => {
+  const client = getSupabaseClient();
+  if (!client) return;
+  await assertRowsOpen(client, 'transactions', ids);
+  const changes: any = { transfer_status: status };
+  if (status === 'rejected') changes.transfer_id = null;
+  const { error } = await client.from('transactions').update(changes).in('id', ids);
+  if (error) throw error;
+};
+
+// The surviving leg of a transfer goes back to being an ordinary row
+const unlinkTransfers = async (client: any, ids: string[]) => {
+  const { error } = await client.from('transactions').update({ transfer_id: null, transfer_status: null }).in('transfer_id', ids);
+  if (error) throw error;
+};
+
 export const deleteTransaction = async (id: string) => {
   const client = getSupabaseClient();
   if (!client) return;
+  await assertRowsOpen(client, 'transactions', [id]);
+  await unlinkTransfers(client, [id]);
   const { error } = await client.from('transactions').delete().eq('id', id);
   if (error) throw error;
 };
@@ -176,10 +323,411 @@ export const deleteTransaction = async (id: string) => {
 export const deleteTransactions = async (ids: string[]) => {
   const client = getSupabaseClient();
   if (!client) return;
+  await assertRowsOpen(client, 'transactions', ids);
+  await unlinkTransfers(client, ids);
   const { error } = await client.from('transactions').delete().in('id', ids);
   if (error) throw error;
 };
 
+const mapAccount = (a: any): BankAccount => ({
+  id: a.id,
+  name: a.name,
+  kind: a.kind || 'checking',
+  institution: a.institution || undefined,
+  last4: a.last4 || undefined,
+  openingBalance: parseFloat(a.opening_balance || 0),
+  openingDate: a.opening_date || ''
+});
+
+export const getAccounts = async (): Promise<BankAccount[]> => {
+  const client = getSupabaseClient();
+  if (!client) return [];
+  const { data, error } = await client.from('accounts').select('*').order('name');
+  if (error) {
+    console.error("Account Fetch Error:", error);
+    return [];
+  }
+  return (data || []).map(mapAccount);
+};
+
+export const upsertAccount = async (account: BankAccount): Promise<BankAccount | null> => {
+  const client = getSupabaseClient();
+  if (!client) return null;
+  const row: any = {
+    name: account.name,
+    kind: account.kind,
+    institution: account.institution || null,
+    last4: account.last4 || null,
+    opening_balance: account.openingBalance,
+    opening_date: account.openingDate || null
+  };
+  if (account.id && !account.id.startsWith('acct-')) row.id = account.id;
+  const { data, error } = await client.from('accounts').upsert(row).select('*').single();
+  if (error) throw error;
+  return mapAccount(data);
+};
+
+// Unlinks the account's transactions rather than deleting them
+export const deleteAccount = async (id: string) => {
+  const client = getSupabaseClient();
+  if (!client) return;
+  const closedThrough = await getClosedThrough(client);
+  if (closedThrough) {
+    const { data: locked, error: lockError } = await client.from('transactions').select('id').eq('account_id', id).lte('date', closedThrough).limit(1);
+    if (lockError) throw lockError;
+    if (locked?.length) throw new Error(lockedMessage(closedThrough));
+  }
+  const { error: unlinkError } = await client.from('transactions').update({ account_id: null }).eq('account_id', id);
+  if (unlinkError) throw unlinkError;
+  const { error } = await client.from('accounts').delete().eq('id', id);
+  if (error) throw error;
+};
+
+const mapFixedAsset = (a: any): FixedAsset => ({
+  id: a.id,
+  name: a.name,
+  category: a.category,
+  acquisitionDate: a.acquisition_date,
+  cost: Number(a.cost) || 0,
+  usefulLifeMonths: a.useful_life_months,
+  salvageValue: Number(a.salvage_value) || 0,
+  method: a.method,
+  transactionId: a.transaction_id || undefined
+});
+
+export const getFixedAssets = async (): Promise<FixedAsset[]> => {
+  const client = getSupabaseClient();
+  if (!client) return [];
+  const { data, error } = await client.from('fixed_assets').select('*').order('acquisition_date');
+  if (error) {
+    console.error("Fixed Asset Fetch Error:", error);
+    return [];
+  }
+  return (data || []).map(mapFixedAsset);
+};
+
+// Depreciation runs from the acquisition date, so an asset acquired in a closed period is locked
+export const upsertFixedAsset = async (asset: FixedAsset): Promise<FixedAsset | null> => {
+  const client = getSupabaseClient();
+  if (!client) return null;
+  await assertDatesOpen(client, [asset.acquisitionDate]);
+  if (!asset.id.startsWith('asset-')) await assertRowsOpen(client, 'fixed_assets', [asset.id], 'acquisition_date');
+  if (asset.transactionId && !isTempId(asset.transactionId)) await assertRowsOpen(client, 'transactions', [asset.transactionId]);
+  const row: any = {
+    name: asset.name,
+    category: asset.category,
+    acquisition_date: asset.acquisitionDate,
+    cost: asset.cost,
+    useful_life_months: asset.usefulLifeMonths,
+    salvage_value: asset.salvageValue,
+    method: asset.method,
+    transaction_id: asset.transactionId && !isTempId(asset.transactionId) ? asset.transactionId : null
+  };
+  if (!asset.id.startsWith('asset-')) row.id = asset.id;
+  const { data, error } = await client.from('fixed_assets').upsert(row).select('*').single();
+  if (error) throw error;
+  return mapFixedAsset(data);
+};
+
+export const deleteFixedAsset = async (id: string) => {
+  const client = getSupabaseClient();
+  if (!client) return;
+  await assertRowsOpen(client, 'fixed_assets', [id], 'acquisition_date');
+  const { error } = await client.from('fixed_assets').delete().eq('id', id);
+  if (error) throw error;
+};
+
+const mapLoan = (l: any): Loan => ({
+  id: l.id,
+  name: l.name,
+  lender: l.lender || undefined,
+  principal: Number(l.principal) || 0,
+  annualRate: Number(l.annual_rate) || 0,
+  termMonths: l.term_months,
+  startDate: l.start_date,
+  paymentAmount: Number(l.payment_amount) || 0,
+  liabilityAccount: l.liability_account,
+  paymentCategory: l.payment_category || undefined,
+  keywords: l.keywords || []
+});
+
+export const getLoans = async (): Promise<Loan[]> => {
+  const client = getSupabaseClient();
+  if (!client) return [];
+  const { data, error } = await client.from('loans').select('*').order('start_date');
+  if (error) {
+    console.error("Loan Fetch Error:", error);
+    return [];
+  }
+  return (data || []).map(mapLoan);
+};
+
+// A loan's terms decide how every payment since its start is split. Payments never predate the
+// start, so checking the start date covers the payments too.
+export const upsertLoan = async (loan: Loan): Promise<Loan | null> => {
+  const client = getSupabaseClient();
+  if (!client) return null;
+  await assertDatesOpen(client, [loan.startDate]);
+  if (!loan.id.startsWith('loan-')) await assertRowsOpen(client, 'loans', [loan.id], 'start_date');
+  const row: any = {
+    name: loan.name,
+    lender: loan.lender || null,
+    principal: loan.principal,
+    annual_rate: loan.annualRate,
+    term_months: loan.termMonths,
+    start_date: loan.startDate,
+    payment_amount: loan.paymentAmount,
+    liability_account: loan.liabilityAccount,
+    payment_category: loan.paymentCategory || null,
+    keywords: loan.keywords
+  };
+  if (!loan.id.startsWith('loan-')) row.id = loan.id;
+  const { data, error } = await client.from('loans').upsert(row).select('*').single();
+  if (error) throw error;
+  return mapLoan(data);
+};
+
+export const deleteLoan = async (id: string) => {
+  const client = getSupabaseClient();
+  if (!client) return;
+  await assertRowsOpen(client, 'loans', [id], 'start_date');
+  const { error } = await client.from('loans').delete().eq('id', id);
+  if (error) throw error;
+};
+
+const mapJournalEntry = (e: any): JournalEntry => ({
+  id: e.id,
+  date: e.date,
+  memo: e.memo || undefined,
+  source: 'manual',
+  reversing: !!e.reversing,
+  createdAt: e.created_at,
+  updatedAt: e.updated_at || undefined,
+  lines: (e.journal_lines || [])
+    .sort((a: any, b: any) => (a.position ?? 0) - (b.position ?? 0))
+    .map((l: any) => ({
+      account: l.account,
+      accountType: l.account_type as AccountType,
+      debit: Number(l.debit) || 0,
+      credit: Number(l.credit) || 0,
+      memo: l.memo || undefined
+    }))
+});
+
+const mapAuditEvent = (a: any): JournalAuditEvent => ({
+  id: a.id,
+  entryId: a.entry_id,
+  action: a.action,
+  summary: a.summary,
+  at: a.created_at
+});
+
+export const getJournalEntries = async (): Promise<JournalEntry[]> => {
+  const client = getSupabaseClient();
+  if (!client) return [];
+  const { data, error } = await client
+    .from('journal_entries')
+    .select('*, journal_lines(account, account_type, debit, credit, memo, position)')
+    .order('date', { ascending: false });
+  if (error) {
+    console.error("Journal Fetch Error:", error);
+    return [];
+  }
+  return (data || []).map(mapJournalEntry);
+};
+
+export const getJournalAudit = async (): Promise<JournalAuditEvent[]> => {
+  const client = getSupabaseClient();
+  if (!client) return [];
+  const { data, error } = await client.from('journal_audit').select('*').order('created_at', { ascending: false }).limit(200);
+  if (error) {
+    console.error("Journal Audit Fetch Error:", error);
+    return [];
+  }
+  return (data || []).map(mapAuditEvent);
+};
+
+const logJournalEvent = async (client: any, entryId: string, action: JournalAuditEvent['action'], summary: string) => {
+  const { error } = await client.from('journal_audit').insert({ entry_id: entryId, action, summary });
+  if (error) console.error("Journal Audit Error:", error);
+};
+
+// Saves the entry header, replaces its lines and records the change in the audit trail
+export const saveJournalEntry = async (entry: JournalEntry, summary: string): Promise<JournalEntry | null> => {
+  const client = getSupabaseClient();
+  if (!client) return null;
+  const isNew = entry.id.startsWith('je-');
+  await assertDatesOpen(client, entry.reversing ? [entry.date, reversalDate(entry.date)] : [entry.date]);
+  if (!isNew) await assertRowsOpen(client, 'journal_entries', [entry.id]);
+  const row: any = {
+    date: entry.date,
+    memo: entry.memo || null,
+    reversing: !!entry.reversing,
+    updated_at: new Date().toISOString()
+  };
+  if (!isNew) row.id = entry.id;
+  const { data, error } = await client.from('journal_entries').upsert(row).select('*').single();
+  if (error) throw error;
+
+  const { error: clearError } = await client.from('journal_lines').delete().eq('entry_id', data.id);
+  if (clearError) throw clearError;
+  const { error: linesError } = await client.from('journal_lines').insert(entry.lines.map((l, position) => ({
+    entry_id: data.id,
+    account: l.account,
+    account_type: l.accountType,
+    debit: l.debit,
+    credit: l.credit,
+    memo: l.memo || null,
+    position
+  })));
+  if (linesError) throw linesError;
+
+  await logJournalEvent(client, data.id, isNew ? 'created' : 'updated', summary);
+  return { ...mapJournalEntry(data), lines: entry.lines };
+};
+
+export const deleteJournalEntry = async (id: string, summary: string) => {
+  const client = getSupabaseClient();
+  if (!client) return;
+  await assertRowsOpen(client, 'journal_entries', [id]);
+  const { error } = await client.from('journal_entries').delete().eq('id', id);
+  if (error) throw error;
+  await logJournalEvent(client, id, 'deleted', summary);
+};
+
+// Snapshots are insert-only; the full content is kept as one JSON payload so it hashes the same on the way back
+export const getReportSnapshots = async (): Promise<ReportSnapshot[]> => {
+  const client = getSupabaseClient();
+  if (!client) return [];
+  const { data, error } = await client.from('report_snapshots').select('*').order('created_at', { ascending: false });
+  if (error) {
+    console.error("Snapshot Fetch Error:", error);
+    return [];
+  }
+  return (data || []).map((r: any) => ({ ...r.payload, id: r.id, hash: r.hash }));
+};
+
+export const saveReportSnapshot = async (snapshot: ReportSnapshot): Promise<ReportSnapshot | null> => {
+  const client = getSupabaseClient();
+  if (!client) return null;
+  const { id, hash, ...payload } = snapshot;
+  const { data, error } = await client.from('report_snapshots').insert({
+    business_name: snapshot.businessName,
+    hash,
+    payload,
+    created_at: snapshot.createdAt
+  }).select('id').single();
+  if (error) throw error;
+  return { ...snapshot, id: data.id };
+};
+
+const DOCUMENT_BUCKET = 'documents';
+
+const mapDocument = (d: any): SourceDocument => ({
+  id: d.id,
+  hash: d.hash,
+  fileName: d.file_name,
+  fileType: d.file_type || '',
+  pageCount: d.page_count ?? undefined,
+  statementStart: d.statement_start || undefined,
+  statementEnd: d.statement_end || undefined,
+  accountNumber: d.account_number || undefined,
+  uploadedAt: d.uploaded_at,
+  storagePath: d.storage_path || undefined,
+  reconciliation: d.reconciliation || undefined
+});
+
+export const getDocuments = async (): Promise<SourceDocument[]> => {
+  const client = getSupabaseClient();
+  if (!client) return [];
+  const { data, error } = await client.from('documents').select('*').order('uploaded_at', { ascending: false });
+  if (error) {
+    console.error("Document Fetch Error:", error);
+    return [];
+  }
+  return (data || []).map(mapDocument);
+};
+
+// The stored record of a file with this content, if it was imported before from any browser
+export const findDocumentByHash = async (hash: string): Promise<SourceDocument | null> => {
+  const client = getSupabaseClient();
+  if (!client) return null;
+  const { data, error } = await client.from('documents').select('*').eq('hash', hash).limit(1);
+  if (error) {
+    console.error("Document Lookup Error:", error);
+    return null;
+  }
+  return data?.[0] ? mapDocument(data[0]) : null;
+};
+
+// Registers an uploaded file, keyed by content hash so re-uploading the same file
+// reuses its record. The original is copied to storage so it can be reopened later;
+// a missing bucket only loses the preview, not the provenance record.
+export const registerDocument = async (doc: Omit<SourceDocument, 'id' | 'uploadedAt' | 'storagePath'>, file: File): Promise<SourceDocument | null> => {
+  const client = getSupabaseClient();
+  if (!client) return null;
+
+  const { data: existing } = await client.from('documents').select('*').eq('hash', doc.hash).limit(1);
+  if (existing && existing.length > 0) {
+    // A re-import keeps the stored check and its sign-off; only a record without one takes the new result
+    if (existing[0].reconciliation || !doc.reconciliation) return mapDocument(existing[0]);
+    return saveDocumentReconciliation(existing[0].id, doc.reconciliation);
+  }
+
+  let storagePath: string | null = `${doc.hash}/${doc.fileName}`;
+  const { error: uploadError } = await client.storage.from(DOCUMENT_BUCKET).upload(storagePath, file, { upsert: true, contentType: doc.fileType || undefined });
+  if (uploadError) {
+    console.error("Document Storage Error:", uploadError);
+    storagePath = null;
+  }
+
+  const { data, error } = await client.from('documents').insert({
+    hash: doc.hash,
+    file_name: doc.fileName,
+    file_type: doc.fileType,
+    page_count: doc.pageCount ?? null,
+    statement_start: doc.statementStart || null,
+    statement_end: doc.statementEnd || null,
+    account_number: doc.accountNumber || null,
+    storage_path: storagePath,
+    reconciliation: doc.reconciliation || null,
+    uploaded_at: new Date().toISOString()
+  }).select('*').single();
+  if (error) throw error;
+  return mapDocument(data);
+};
+
+export const saveDocumentReconciliation = async (id: string, reconciliation: StatementReconciliation): Promise<SourceDocument | null> => {
+  const client = getSupabaseClient();
+  if (!client) return null;
+  const { data, error } = await client.from('documents').update({ reconciliation }).eq('id', id).select('*').single();
+  if (error) throw error;
+  return mapDocument(data);
+};
+
+export const getDocumentUrl = async (doc: SourceDocument): Promise<string | null> => {
+  const client = getSupabaseClient();
+  if (!client || !doc.storagePath) return null;
+  const { data, error } = await client.storage.from(DOCUMENT_BUCKET).createSignedUrl(doc.storagePath, 3600);
+  if (error) {
+    console.error("Document URL Error:", error);
+    return null;
+  }
+  return data.signedUrl;
+};
+
+// Original file bytes, for embedding in the loan package
+export const downloadDocument = async (doc: SourceDocument): Promise<Uint8Array | null> => {
+  const client = getSupabaseClient();
+  if (!client || !doc.storagePath) return null;
+  const { data, error } = await client.storage.from(DOCUMENT_BUCKET).download(doc.storagePath);
+  if (error) {
+    console.error("Document Download Error:", error);
+    return null;
+  }
+  return new Uint8Array(await data.arrayBuffer());
+};
+
 export const getProfiles = async (): Promise<EntityProfile[]> => {
   const client = getSupabaseClient();
   if (!client) return [];
@@ -268,6 +816,11 @@ export const upsertProfile = async (profile: EntityProfile): Promise<EntityProfi
 export const deleteProfile = async (id: string) => {
   const client = getSupabaseClient();
   if (!client) return;
+  const closedThrough = await getClosedThrough(client);
+  if (closedThrough) {
+    const { data: locked } = await client.from('transactions').select('id').eq('profile_id', id).lte('date', closedThrough).limit(1);
+    if (locked?.length) throw new Error(lockedMessage(closedThrough));
+  }
   // First unlink transactions
   await client.from('transactions').update({ profile_id: null }).eq('profile_id', id);
   // Then delete profile
@@ -278,11 +831,14 @@ export const bulkApplyProfileRule = async (keywords: string[], profileId: string
   const client = getSupabaseClient();
   if (!client || !keywords || keywords.length === 0) return;
 
-  // 1. Get all transactions that don't have a profile assigned
-  const { data: unassigned, error } = await client
+  // 1. Get all transactions that don't have a profile assigned, leaving closed periods alone
+  const closedThrough = await getClosedThrough(client);
+  let query = client
     .from('transactions')
-    .select('id, description')
+    .select('id, description, transaction_splits(id)')
     .is('profile_id', null);
+  if (closedThrough) query = query.gt('date', closedThrough);
+  const { data: unassigned, error } = await query;
 
   if (error || !unassigned || unassigned.length === 0) return;
 
@@ -290,7 +846,9 @@ export const bulkApplyProfileRule = async (keywords: string[], profileId: string
   const sortedKeywords = [...keywords].sort((a, b) => b.length - a.length);
   const matchedIds: string[] = [];
 
-  unassigned.forEach(t => {
+  unassigned.forEach((t: any) => {
+    // Split rows take their category and entity from the split lines
+    if (t.transaction_splits?.length) return;
     const desc = (t.description || '').toLowerCase();
     const isMatch = sortedKeywords.some(k => desc.includes(k.toLowerCase()));
     if (isMatch) {
@@ -347,7 +905,16 @@ export const deleteCategory = async (name: string) => {
   if (!client) return;
   const { data } = await client.from('categories').select('id').eq('name', name).single();
   if (data) {
+     const closedThrough = await getClosedThrough(client);
+     if (closedThrough) {
+       const { data: locked } = await client.from('transactions').select('id').eq('category_id', data.id).lte('date', closedThrough).limit(1);
+       if (locked?.length) throw new Error(lockedMessage(closedThrough));
+       // Split lines carry no date of their own; they are as locked as their transaction
+       const { data: lockedSplits } = await client.from('transaction_splits').select('id, transactions!inner(date)').eq('category_id', data.id).lte('transactions.date', closedThrough).limit(1);
+       if (lockedSplits?.length) throw new Error(lockedMessage(closedThrough));
+     }
      await client.from('transactions').update({ category_id: null }).eq('category_id', data.id);
+     await client.from('transaction_splits').update({ category_id: null }).eq('category_id', data.id);
      await client.from('categories').delete().eq('id', data.id);
   }
 };
@@ -364,6 +931,9 @@ export const bulkUpdateTransactionCategory = async (oldName: string, newName: st
     const { data: oldCat } = await client.from('categories').select('id').eq('name', oldName).single();
     if (!oldCat) return;
 
-    // 3. Move transactions
-    await client.from('transactions').update({ category_id: newCat.id }).eq('category_id', oldCat.id);
+    // 3. Move transactions; closed periods keep the old category
+    const closedThrough = await getClosedThrough(client);
+    let move = client.from('transactions').update({ category_id: newCat.id }).eq('category_id', oldCat.id);
+    if (closedThrough) move = move.gt('date', closedThrough);
+    await move;
 };
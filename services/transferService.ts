@@ -0,0 +1,46 @@
+import { Transaction, TransactionType } from "../types";
+
+const TRANSFER_WINDOW_DAYS = 3;
+
+// Paired rows move money between the business's own accounts and are neither income nor expense.
+// Only confirmed pairs count: a suggested pair is a guess and stays in the totals until confirmed.
+export const isTransfer = (t: Transaction) => !!t.transferId && t.transferStatus === 'confirmed';
+
+// Linked to another row, whether the pair is still a suggestion or already confirmed
+export const hasTransferLink = (t: Transaction) => !!t.transferId && t.transferStatus !== 'rejected';
+
+const dayDiff = (a: string, b: string) => Math.abs(Date.parse(a) - Date.parse(b)) / 86400000;
+
+const isCandidate = (t: Transaction) => !!t.accountId && !t.transferId && t.transferStatus !== 'rejected';
+
+// Pairs each outflow with an inflow of the same amount in a different account within the
+// date window. When several inflows qualify, the closest date wins. Returns [outflow, inflow].
+export const findTransferPairs = (transactions: Transaction[]): [Transaction, Transaction][] => {
+  const inflows = transactions.filter(t => isCandidate(t) && t.type === TransactionType.INCOME);
+  const outflows = transactions
+    .filter(t => isCandidate(t) && t.type === TransactionType.EXPENSE)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const used = new Set<string>();
+  const pairs: [Transaction, Transaction][] = [];
+
+  outflows.forEach(out => {
+    let best: Transaction | null = null;
+    for (const inflow of inflows) {
+      if (used.has(inflow.id) || inflow.accountId === out.accountId) continue;
+      if (Math.abs(inflow.amount - out.amount) >= 0.005) continue;
+      const gap = dayDiff(out.date, inflow.date);
+      if (gap > TRANSFER_WINDOW_DAYS) continue;
+      if (!best || gap < dayDiff(out.date, best.date)) best = inflow;
+    }
+    if (best) {
+      used.add(best.id);
+      pairs.push([out, best]);
+    }
+  });
+  return pairs;
+};
+
+export const linkTransferPair = ([out, inflow]: [Transaction, Transaction]): Transaction[] => [
+  { ...out, transferId: inflow.id, transferStatus: 'suggested' },
+  { ...inflow, transferId: out.id, transferStatus: 'suggested' },
+];
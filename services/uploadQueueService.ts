@@ -0,0 +1,103 @@
+import { ProcessingStatus } from "../types";
+
+const DB_NAME = 'cf_upload_queue';
+const DB_VERSION = 1;
+const JOBS_STORE = 'jobs';
+const FILES_STORE = 'files';
+const CONCURRENCY_KEY = 'cf_upload_concurrency';
+
+export const MAX_CONCURRENCY = 4;
+
+export interface QueuedJob {
+  status: ProcessingStatus;
+  file?: File;
+}
+
+export const getUploadConcurrency = (): number => {
+  const value = parseInt(localStorage.getItem(CONCURRENCY_KEY) || '', 10);
+  return value >= 1 && value <= MAX_CONCURRENCY ? value : 2;
+};
+
+export const saveUploadConcurrency = (value: number) => {
+  localStorage.setItem(CONCURRENCY_KEY, String(value));
+};
+
+// Finished jobs are not kept; everything else survives a reload
+export const isResumable = (status: ProcessingStatus) => status.status !== 'completed';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(JOBS_STORE)) db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async (stores: string[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => void): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    work(tx);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// Object URLs and staged previews do not outlive the page, so they are not stored
+const toRecord = (status: ProcessingStatus): ProcessingStatus => ({ ...status, data: '' });
+
+export const saveJob = (status: ProcessingStatus, file: File) =>
+  run([JOBS_STORE, FILES_STORE], 'readwrite', tx => {
+    tx.objectStore(JOBS_STORE).put(toRecord(status));
+    tx.objectStore(FILES_STORE).put(file, status.id);
+  });
+
+export const syncJobs = (statuses: ProcessingStatus[]) =>
+  run([JOBS_STORE, FILES_STORE], 'readwrite', tx => {
+    const jobs = tx.objectStore(JOBS_STORE);
+    statuses.forEach(status => {
+      if (isResumable(status)) {
+        jobs.put(toRecord(status));
+      } else {
+        jobs.delete(status.id);
+        tx.objectStore(FILES_STORE).delete(status.id);
+      }
+    });
+  });
+
+export const deleteJob = (id: string) =>
+  run([JOBS_STORE, FILES_STORE], 'readwrite', tx => {
+    tx.objectStore(JOBS_STORE).delete(id);
+    tx.objectStore(FILES_STORE).delete(id);
+  });
+
+export const loadJobs = async (): Promise<QueuedJob[]> => {
+  const db = await openDb();
+  const tx = db.transaction([JOBS_STORE, FILES_STORE], 'readonly');
+  const statuses = await request<ProcessingStatus[]>(tx.objectStore(JOBS_STORE).getAll());
+  const files = tx.objectStore(FILES_STORE);
+  return Promise.all(statuses.map(async status => ({
+    status,
+    file: await request<File | undefined>(files.get(status.id)),
+  })));
+};
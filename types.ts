@@ -33,10 +33,35 @@ export interface Transaction {
   categoryId?: string;
   originalDescription: string;
   documentId?: string;
+  accountId?: string;
+  // Bank-issued identifier (OFX FITID), unique within its account, used to skip rows already in the ledger
+  externalId?: string;
+  // Date the funds cleared, when the bank reports it separately from the booking date
+  valueDate?: string;
+  // The other leg when this row is money moving between two of the business's own accounts
+  transferId?: string;
+  transferStatus?: TransferStatus;
+  // When present, these lines replace the row's own category and entity in every report
+  splits?: TransactionSplit[];
   entityId?: string; 
   entityName?: string;
+  // Other party as named by the bank (camt.053, MT940); shown when no profile is linked
+  counterparty?: string;
 }
 
+export interface TransactionSplit {
+  id: string;
+  amount: number;
+  category: string;
+  categoryId?: string;
+  entityId?: string;
+  entityName?: string;
+  memo?: string;
+}
+
+// Suggested pairs come from the matcher; rejected rows were un-paired by a user and are not matched again
+export type TransferStatus = 'suggested' | 'confirmed' | 'rejected';
+
 export interface EntityProfile {
   id: string;
   name: string;
@@ -57,30 +82,398 @@ export interface CategorizationRule {
   targetType?: TransactionType;
 }
 
+export interface ExtractedRow {
+  transaction: Transaction;
+  // Model's own 0-1 certainty that the row was read correctly
+  confidence: number;
+  page?: number;
+  decision: 'pending' | 'accepted' | 'rejected';
+}
+
+// An uploaded file every imported transaction can be traced back to
+export interface SourceDocument {
+  id: string;
+  hash: string;
+  fileName: string;
+  fileType: string;
+  pageCount?: number;
+  statementStart?: string;
+  statementEnd?: string;
+  accountNumber?: string;
+  uploadedAt: string;
+  // Path of the original file in the Supabase "documents" storage bucket
+  storagePath?: string;
+  // Balance check and any sign-off, kept with the document so the loan package block survives a reload
+  reconciliation?: StatementReconciliation;
+}
+
+// opening + income - expense checked against the closing balance printed on the statement
+export interface StatementReconciliation {
+  openingBalance: number;
+  closingBalance: number;
+  totalIncome: number;
+  totalExpense: number;
+  discrepancy: number;
+  status: 'passed' | 'failed';
+  overrideReason?: string;
+  overriddenAt?: string;
+}
+
+// One page range of a large PDF, extracted by its own Gemini call
+export interface ExtractionChunk {
+  index: number;
+  startPage: number;
+  endPage: number;
+  status: 'pending' | 'processing' | 'completed' | 'error';
+  result?: ExtractedStatement;
+  error?: string;
+}
+
 export interface ProcessingStatus {
   id: string;
   fileName: string;
   fileType: string;
   data: string;
-  status: 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
+  status: 'pending' | 'processing' | 'review' | 'completed' | 'error' | 'cancelled';
   message?: string;
   transactionCount?: number;
+  accountNumber?: string;
+  ledgerBalance?: number;
+  openingBalance?: number;
+  closingBalance?: number;
+  fileHash?: string;
+  // AI-extracted rows held back until a reviewer accepts them
+  stagedRows?: ExtractedRow[];
+  reconciliation?: StatementReconciliation;
+  pageCount?: number;
+  chunks?: ExtractionChunk[];
+  statementStart?: string;
+  statementEnd?: string;
+  documentId?: string;
+  // Bank account the imported rows are assigned to
+  accountId?: string;
+  // Rate-limited jobs go back to pending and wait until retryAt (epoch ms)
+  attempts?: number;
+  retryAt?: number;
+}
+
+export interface ExtractedStatement {
+  rows: ExtractedRow[];
+  openingBalance?: number;
+  closingBalance?: number;
+  statementStart?: string;
+  statementEnd?: string;
 }
 
+export interface ParsedStatement {
+  transactions: Transaction[];
+  accountNumber?: string;
+  // Set when the file says what kind of account it is, e.g. an OFX credit card statement
+  accountKind?: BankAccountKind;
+  ledgerBalance?: number;
+  ledgerBalanceDate?: string;
+  openingBalance?: number;
+  closingBalance?: number;
+  statementStart?: string;
+  statementEnd?: string;
+}
+
+export interface DuplicateMatch {
+  candidate: Transaction;
+  original?: Transaction;
+  reason: 'reference' | 'exact' | 'probable' | 'document';
+  score: number;
+}
+
+export type DatePreset = 'this_month' | 'last_month' | 'this_quarter' | 'last_fiscal_year' | 'ytd' | 'ttm' | 'custom';
+
 export interface TransactionFilter {
+  // Preset the dates came from; hand-edited dates are 'custom'
+  preset?: DatePreset;
   startDate: string;
   endDate: string;
   category: string;
   minAmount: string;
   maxAmount: string;
   search: string;
+  // Bank account id, or UNASSIGNED_ACCOUNT for rows not yet linked to one
+  accountId?: string;
+}
+
+export type BankAccountKind = 'checking' | 'savings' | 'credit_card' | 'loan';
+
+// A real-world account that statements are drawn from (not a chart-of-accounts category)
+export interface BankAccount {
+  id: string;
+  name: string;
+  kind: BankAccountKind;
+  institution?: string;
+  last4?: string;
+  openingBalance: number;
+  openingDate: string;
+}
+
+export const UNASSIGNED_ACCOUNT = '__unassigned__';
+
+// One side of a journal entry. Ledger accounts are identified by name and type, so an
+// income and an expense category that share a name stay separate.
+export interface JournalLine {
+  account: string;
+  accountType: AccountType;
+  debit: number;
+  credit: number;
+  memo?: string;
+}
+
+export interface JournalEntry {
+  id: string;
+  date: string;
+  memo?: string;
+  source: 'transaction' | 'opening' | 'manual' | 'depreciation';
+  transactionId?: string;
+  lines: JournalLine[];
+  // Manual accruals can be reversed automatically on the first day of the next month
+  reversing?: boolean;
+  reversalOf?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface JournalAuditEvent {
+  id: string;
+  entryId: string;
+  action: 'created' | 'updated' | 'deleted';
+  summary: string;
+  at: string;
+}
+
+// Closing and reopening are append-only; the newest event holds the current lock date
+export interface PeriodCloseEvent {
+  id: string;
+  action: 'closed' | 'reopened';
+  // Last locked date after this event, or null once the books are fully open
+  closedThrough: string | null;
+  reason?: string;
+  at: string;
+}
+
+export interface TrialBalanceRow {
+  account: string;
+  accountType: AccountType;
+  debit: number;
+  credit: number;
+}
+
+export interface LedgerPosting {
+  entryId: string;
+  date: string;
+  memo?: string;
+  debit: number;
+  credit: number;
+  // Running balance on the account's normal side
+  balance: number;
+}
+
+export interface GeneralLedgerAccount {
+  account: string;
+  accountType: AccountType;
+  openingBalance: number;
+  postings: LedgerPosting[];
+  closingBalance: number;
+}
+
+export type DepreciationMethod = 'straight_line' | 'declining_balance' | 'section_179';
+
+export interface FixedAsset {
+  id: string;
+  name: string;
+  // Balance sheet account that holds the asset's cost, e.g. "Equipment"
+  category: string;
+  acquisitionDate: string;
+  cost: number;
+  usefulLifeMonths: number;
+  salvageValue: number;
+  method: DepreciationMethod;
+  transactionId?: string;
 }
 
-export interface BalanceSheetAdjustment {
+export interface DepreciationPeriod {
+  // Last day of the month the charge belongs to
+  date: string;
+  amount: number;
+  accumulated: number;
+  bookValue: number;
+}
+
+export interface Loan {
+  id: string;
+  name: string;
+  lender?: string;
+  principal: number;
+  // Annual interest rate in percent, e.g. 7.5
+  annualRate: number;
+  termMonths: number;
+  startDate: string;
+  paymentAmount: number;
+  // Liability account the principal is carried in, e.g. "Loans"
+  liabilityAccount: string;
+  // Ledger payments match on this category or on any keyword in their description
+  paymentCategory?: string;
+  keywords: string[];
+}
+
+export interface AmortizationRow {
+  period: number;
+  date: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number;
+}
+
+export interface LoanPaymentAllocation {
+  loanId: string;
+  interest: number;
+  principal: number;
+  balance: number;
+}
+
+export type LenderMetricId =
+  | 'dscr' | 'current_ratio' | 'quick_ratio' | 'debt_to_equity'
+  | 'gross_margin' | 'net_margin' | 'ebitda' | 'cash_runway' | 'revenue_growth';
+
+export type MetricStatus = 'pass' | 'warn' | 'fail' | 'na';
+
+// A value passes at or beyond `pass`, warns at or beyond `warn` and fails otherwise.
+// For lower-is-better metrics the comparisons flip.
+export interface MetricThreshold {
+  pass: number;
+  warn: number;
+}
+
+export interface LenderMetric {
+  id: LenderMetricId;
+  label: string;
+  // null when the inputs are missing, e.g. no loans for DSCR; Infinity for an unbounded runway
+  value: number | null;
+  format: 'ratio' | 'percent' | 'currency' | 'months';
+  higherIsBetter: boolean;
+  status: MetricStatus;
+}
+
+export type ComparativePeriodSet = 'years' | 'ytd' | 'ttm' | 'monthly';
+
+export interface ComparativePeriod {
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface ComparativeLine {
+  account: string;
+  // One amount per period, in period order
+  amounts: number[];
+}
+
+export interface ComparativeSection {
+  title: string;
+  lines: ComparativeLine[];
+  totals: number[];
+}
+
+export interface StatementLine {
+  name: string;
+  amount: number;
+}
+
+export interface ProfitAndLossData {
+  income: StatementLine[];
+  expenses: StatementLine[];
+  totalIncome: number;
+  totalExpense: number;
+  netProfit: number;
+}
+
+export interface BalanceSheetData {
+  currentAssets: StatementLine[];
+  fixedAssets: StatementLine[];
+  currentLiabilities: StatementLine[];
+  longTermLiabilities: StatementLine[];
+  equityList: StatementLine[];
+  totalCurrentAssets: number;
+  totalFixedAssets: number;
+  totalAssets: number;
+  totalLiabilities: number;
+  retainedEarnings: number;
+  totalLiabAndEquity: number;
+}
+
+// A finalized report: the figures as delivered plus everything that produced them
+export interface ReportSnapshot {
   id: string;
+  businessName: string;
+  createdAt: string;
+  period: string;
+  filters: TransactionFilter;
+  figures: SnapshotLine[];
+  // Manual, reversal and depreciation entries in effect when the report was finalized
+  adjustments: JournalEntry[];
+  overrides: Record<string, number>;
+  narrative?: string;
+  // SHA-256 of every field above except the id
+  hash: string;
+}
+
+export interface SnapshotLine {
+  section: string;
+  account: string;
+  amount: number;
+}
+
+export interface SnapshotDiffRow {
+  section: string;
+  account: string;
+  snapshot: number | null;
+  live: number | null;
+  change: number;
+}
+
+export type PackageSectionId = 'memo' | 'pnl' | 'balance_sheet' | 'cash_flow' | 'lender_metrics' | 'counterparties' | 'documents';
+
+// Cover and contents always lead the package; the sections follow in list order
+export interface PackageLayout {
+  cover: boolean;
+  contents: boolean;
+  sections: { id: PackageSectionId; enabled: boolean }[];
+}
+
+export interface CounterpartyTotal {
+  entityId: string;
   name: string;
+  total: number;
+  count: number;
+  // Fraction of all income (customers) or all expenses (vendors) in the period
+  share: number;
+}
+
+export interface CashFlowLine {
+  account: string;
+  // Effect on cash: positive is a source, negative a use
   amount: number;
-  type: 'ASSET' | 'LIABILITY';
+}
+
+export interface CashFlowData {
+  netIncome: number;
+  operating: CashFlowLine[];
+  investing: CashFlowLine[];
+  financing: CashFlowLine[];
+  netOperating: number;
+  netInvesting: number;
+  netFinancing: number;
+  beginningCash: number;
+  endingCash: number;
+  netChange: number;
+  isReconciled: boolean;
 }
 
 export interface SheetUser {
@@ -89,6 +482,31 @@ export interface SheetUser {
   name: string;
 }
 
+export type CsvAmountMode = 'signed' | 'debit_credit';
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY/MM/DD' | 'DD.MM.YYYY';
+
+export interface CsvColumnMapping {
+  delimiter: string;
+  hasHeader: boolean;
+  dateColumn: number;
+  descriptionColumn: number;
+  amountMode: CsvAmountMode;
+  amountColumn: number;
+  debitColumn: number;
+  creditColumn: number;
+  dateFormat: CsvDateFormat;
+  // Some card exports list charges as positive numbers; flip the sign for those
+  invertSign: boolean;
+}
+
+export interface CsvMappingPreset {
+  id: string;
+  name: string;
+  mapping: CsvColumnMapping;
+  headerSignature?: string;
+}
+
 export const DEFAULT_CATEGORIES = [
   'Sales Revenue',
   'Services Income',